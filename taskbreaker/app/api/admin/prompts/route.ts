@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { usageQuerySchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeAdmin } from "@/lib/admin";
+import { getUsageStartDay } from "@/lib/ai";
+import { getPromptStatus } from "@/lib/prompts";
+import type { PromptVersionStats } from "@/types/prompt.types";
+
+// GET /api/admin/prompts - Completion of the tasks each prompt version created, to compare candidates (admins only)
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/admin/prompts",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeAdmin(supabase, user.id, requestId);
+    if (denied) return denied;
+
+    const result = usageQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { days } = result.data;
+
+    const { data: rows, error } = await supabase.rpc("prompt_version_stats", {
+      p_since: getUsageStartDay(days),
+    });
+
+    if (error) {
+      logger.error("Database error comparing prompt versions", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch prompt stats" },
+        { status: 500 }
+      );
+    }
+
+    // Postgres bigints and numerics can arrive as strings
+    const prompts = (rows || []).map((row): PromptVersionStats => {
+      const tasks = Number(row.tasks);
+      const completedTasks = Number(row.completed_tasks);
+      return {
+        name: row.prompt_name,
+        version: row.prompt_version,
+        status: getPromptStatus(row.prompt_name, row.prompt_version),
+        users: Number(row.users),
+        tasks,
+        completedTasks,
+        completionRate: tasks > 0 ? completedTasks / tasks : 0,
+        averageProgress: Number(row.average_progress),
+      };
+    });
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      days,
+      rowCount: prompts.length,
+    });
+
+    return NextResponse.json({ prompts });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
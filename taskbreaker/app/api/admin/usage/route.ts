@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { usageQuerySchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeAdmin } from "@/lib/admin";
+import { getUsageStartDay } from "@/lib/ai";
+import type { UsageSummaryRow } from "@/types/usage.types";
+
+// GET /api/admin/usage - AI usage across all users per day, feature and model (admins only)
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/admin/usage",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeAdmin(supabase, user.id, requestId);
+    if (denied) return denied;
+
+    const result = usageQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { days } = result.data;
+
+    const { data: rows, error } = await supabase.rpc("ai_usage_summary", {
+      p_since: getUsageStartDay(days),
+    });
+
+    if (error) {
+      logger.error("Database error summarizing AI usage", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch usage" },
+        { status: 500 }
+      );
+    }
+
+    // Postgres bigints and numerics can arrive as strings
+    const summary = (rows || []).map(
+      (row): UsageSummaryRow => ({
+        day: row.day,
+        feature: row.feature,
+        model: row.model,
+        users: Number(row.users),
+        generations: Number(row.generations),
+        promptTokens: Number(row.prompt_tokens),
+        completionTokens: Number(row.completion_tokens),
+        costUsd: Number(row.cost_usd),
+      })
+    );
+
+    const totals = summary.reduce(
+      (sum, row) => ({
+        generations: sum.generations + row.generations,
+        promptTokens: sum.promptTokens + row.promptTokens,
+        completionTokens: sum.completionTokens + row.completionTokens,
+        costUsd: sum.costUsd + row.costUsd,
+      }),
+      { generations: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    );
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      days,
+      rowCount: summary.length,
+    });
+
+    return NextResponse.json({ summary, totals });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
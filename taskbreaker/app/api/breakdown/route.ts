@@ -1,14 +1,120 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { createPartialBreakdownReader } from "@/lib/partial-json";
+import { createSseWriter } from "@/lib/sse";
+import {
+  addUsage,
+  cacheCompletion,
+  generateStructured,
+  getAIProvider,
+  getCachedCompletion,
+  recordGeneration,
+  replayCompletion,
+  toCompletionRequest,
+  type StructuredResult,
+  type TokenUsage,
+} from "@/lib/ai";
+import {
+  buildTaskBreakdownRequest,
+  getTaskBreakdownCacheKey,
+  selectPrompt,
+  type PromptRef,
+} from "@/lib/prompts";
+import type { AITaskResponse } from "@/lib/schemas";
+import { createClient } from "@/lib/supabase/server";
+import { limitAIRequest } from "@/lib/rate-limit";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Subtask text for the landing page, which shows no title, tags or estimates
+const toSubtaskTexts = (breakdown: AITaskResponse) =>
+  breakdown.subtasks.map((subtask) => subtask.text);
+
+/**
+ * Stream subtasks as Server-Sent Events while the model generates them, or
+ * replay a cached response. The final list is sent once it validates, after
+ * any repairs.
+ */
+async function streamBreakdown(
+  userId: string | null,
+  task: string,
+  prompt: PromptRef,
+  cached: string | null,
+  requestId: string
+) {
+  const provider = getAIProvider();
+  const breakdownRequest = buildTaskBreakdownRequest(task, prompt);
+  const aiStartTime = Date.now();
+  const reported: { usage: TokenUsage | null } = { usage: null };
+  const completion =
+    cached !== null
+      ? replayCompletion(cached)
+      : provider.stream(
+          toCompletionRequest(breakdownRequest),
+          (usage) => (reported.usage = usage)
+        );
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const sse = createSseWriter(controller);
+      const reader = createPartialBreakdownReader();
+      let result: StructuredResult<AITaskResponse> | null = null;
+
+      try {
+        for await (const delta of completion) {
+          reader.push(delta).subtasks.forEach((text) => sse.send("subtask", { text }));
+        }
+
+        result = await generateStructured(provider, breakdownRequest, {
+          requestId,
+          firstResponse: reader.content,
+        });
+        if (!result.success) {
+          sse.send("error", { error: "Failed to break down task. Please try again." });
+          return;
+        }
+
+        if (cached === null || result.attempts > 0) {
+          cacheCompletion(getTaskBreakdownCacheKey(provider, task, prompt), result.content);
+        }
+
+        sse.send("done", { subtasks: toSubtaskTexts(result.data) });
+      } catch (error) {
+        console.error("API Error:", error);
+        sse.send("error", { error: "Failed to break down task. Please try again." });
+      } finally {
+        // Record usage first: the tokens were spent even if the client left
+        if (cached === null || (result && result.attempts > 0)) {
+          await recordGeneration(
+            userId,
+            {
+              feature: "breakdown",
+              provider: provider.name,
+              model: result?.model ?? provider.model,
+              usage: addUsage(reported.usage, result?.usage ?? null),
+              latencyMs: Date.now() - aiStartTime,
+              prompt,
+            },
+            requestId
+          );
+        }
+        sse.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
   try {
     const body = await request.json();
-    const { task } = body;
+    const { task, stream, refresh } = body;
 
     if (!task || typeof task !== "string") {
       return NextResponse.json(
@@ -32,58 +138,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a task breakdown assistant. Given a task, break it down into 3-5 specific, actionable subtasks. 
-Rules:
-- Return ONLY a JSON array of strings
-- Each subtask should be a clear action item
-- Keep each subtask under 100 characters
-- Return between 3 and 5 subtasks
-- No explanations, just the JSON array
-
-Example input: "Plan a birthday party"
-Example output: ["Send invitations to guests", "Order birthday cake", "Buy decorations", "Plan party games", "Prepare playlist"]`,
-        },
+    // Signing in is optional here; anonymous callers are limited by IP address
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Asking again skips the cache; a cached answer costs nothing, so it isn't limited
+    const provider = getAIProvider();
+    const prompt = selectPrompt("task-breakdown", user?.id ?? requestId);
+    const cacheKey = getTaskBreakdownCacheKey(provider, trimmedTask, prompt);
+    const cached = refresh === true ? null : getCachedCompletion(cacheKey, requestId);
+    if (cached === null) {
+      const limited = await limitAIRequest(supabase, user?.id ?? null, request, requestId);
+      if (limited) return limited;
+    }
+
+    if (stream === true) {
+      return streamBreakdown(user?.id ?? null, trimmedTask, prompt, cached, requestId);
+    }
+
+    const aiStartTime = Date.now();
+    const result = await generateStructured(
+      provider,
+      buildTaskBreakdownRequest(trimmedTask, prompt),
+      { requestId, firstResponse: cached ?? undefined }
+    );
+
+    if (result.attempts > 0) {
+      await recordGeneration(
+        user?.id ?? null,
         {
-          role: "user",
-          content: trimmedTask,
+          feature: "breakdown",
+          provider: provider.name,
+          model: result.model,
+          usage: result.usage,
+          latencyMs: Date.now() - aiStartTime,
+          prompt,
         },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      return NextResponse.json(
-        { error: "Failed to generate subtasks" },
-        { status: 500 }
+        requestId
       );
     }
 
-    let subtasks: string[];
-    try {
-      subtasks = JSON.parse(content);
-      if (!Array.isArray(subtasks) || subtasks.length === 0) {
-        throw new Error("Invalid response format");
-      }
-      subtasks = subtasks.filter(
-        (s) => typeof s === "string" && s.trim().length > 0
-      );
-      if (subtasks.length === 0) {
-        throw new Error("No valid subtasks");
-      }
-    } catch {
+    if (!result.success) {
       return NextResponse.json(
         { error: "Failed to parse subtasks" },
         { status: 500 }
       );
     }
 
+    if (result.attempts > 0) cacheCompletion(cacheKey, result.content);
+
+    const subtasks = toSubtaskTexts(result.data);
     return NextResponse.json({ subtasks });
   } catch (error) {
     console.error("API Error:", error);
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { breakdownPreferencesSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import {
+  PREFERENCES_COLUMNS,
+  fromPreferencesRow,
+  getBreakdownPreferences,
+  toPreferencesRow,
+} from "@/lib/preferences";
+
+// GET /api/preferences - The current user's breakdown preferences, or the defaults
+export async function GET() {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/preferences",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const preferences = await getBreakdownPreferences(supabase, user.id, requestId);
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+    });
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/preferences - Save how the AI should break down the current user's new tasks
+export async function PUT(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/preferences",
+    method: "PUT",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = breakdownPreferencesSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { data: saved, error } = await supabase
+      .from("user_preferences")
+      .upsert(toPreferencesRow(user.id, result.data))
+      .select(PREFERENCES_COLUMNS)
+      .single();
+
+    if (error || !saved) {
+      logger.error("Database error saving preferences", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to save preferences" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+    });
+
+    return NextResponse.json({ preferences: fromPreferencesRow(saved) });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { getAIQuota } from "@/lib/rate-limit";
+
+// GET /api/quota - How many AI generations the current user has left today
+export async function GET() {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/quota",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const quota = await getAIQuota(supabase, user.id);
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      remaining: quota.remaining,
+    });
+
+    return NextResponse.json({ quota });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
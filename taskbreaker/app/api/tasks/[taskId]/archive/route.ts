@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+
+// POST /api/tasks/[taskId]/archive - Move a completed task to the archive
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/archive`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Only the owner can file a shared task away
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    // The view's progress counts checked leaf subtasks, like the dashboard
+    const { data: existingTask } = await supabase
+      .from("task_list")
+      .select("id, progress, deleted_at")
+      .eq("id", taskId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!existingTask || existingTask.deleted_at) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (existingTask.progress !== 100) {
+      logger.warn("Archive of incomplete task", {
+        requestId,
+        taskId,
+        progress: existingTask.progress,
+      });
+      return NextResponse.json(
+        { error: "Only completed tasks can be archived" },
+        { status: 409 }
+      );
+    }
+
+    const { data: task, error } = await supabase
+      .from("tasks")
+      .update({ archived_at: new Date().toISOString() })
+      .eq("id", taskId)
+      .select("id, archived_at")
+      .single();
+
+    if (error) {
+      logger.error("Failed to archive task", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to archive task" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+    });
+
+    return NextResponse.json({ task });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { inviteMemberSchema, removeMemberQuerySchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeTask, getTaskRole } from "@/lib/task-access";
+
+const MEMBER_COLUMNS = "email, user_id, role";
+
+// GET /api/tasks/[taskId]/members - List the people a task is shared with
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/members`,
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeTask(supabase, taskId, "view", requestId);
+    if (denied) return denied;
+
+    const { data: members, error } = await supabase
+      .from("task_members")
+      .select(MEMBER_COLUMNS)
+      .eq("task_id", taskId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("Database error fetching task members", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch members" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      memberCount: members?.length || 0,
+    });
+
+    return NextResponse.json({ members: members || [] });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[taskId]/members - Share a task by email, or change a member's role
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/members`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = inviteMemberSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    const { email, role } = result.data;
+
+    if (email === user.email?.toLowerCase()) {
+      return NextResponse.json(
+        { error: "You already own this task" },
+        { status: 400 }
+      );
+    }
+
+    // A trigger links the invitee to their account once their email is confirmed
+    const { data: member, error } = await supabase
+      .from("task_members")
+      .upsert(
+        { task_id: taskId, email, role, invited_by: user.id },
+        { onConflict: "task_id,email" }
+      )
+      .select(MEMBER_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error("Failed to share task", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to share task" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      taskId,
+      role,
+      hasAccount: member.user_id !== null,
+    });
+
+    return NextResponse.json({ member }, { status: 201 });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[taskId]/members?email= - Stop sharing with someone, or leave a shared task
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/members`,
+    method: "DELETE",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const queryResult = removeMemberQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!queryResult.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: queryResult.error.issues,
+      });
+      return NextResponse.json(
+        { error: queryResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { email } = queryResult.data;
+    const role = await getTaskRole(supabase, taskId);
+
+    if (!role) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // The owner can remove anyone; members can only remove themselves
+    const leaving = email === user.email?.toLowerCase();
+    if (role !== "owner" && !leaving) {
+      logger.warn("Insufficient task permissions", { requestId, taskId, role });
+      return NextResponse.json(
+        { error: "Only the task owner can do this" },
+        { status: 403 }
+      );
+    }
+
+    const { data: removed, error } = await supabase
+      .from("task_members")
+      .delete()
+      .eq("task_id", taskId)
+      .eq("email", email)
+      .select("email");
+
+    if (error) {
+      logger.error("Failed to remove task member", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to remove member" },
+        { status: 500 }
+      );
+    }
+
+    if (!removed || removed.length === 0) {
+      logger.warn("Task member not found", { requestId, taskId });
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      leaving,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
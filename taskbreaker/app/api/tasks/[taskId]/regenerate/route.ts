@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAITaskResponseSchema, regenerateTaskSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { generateStructured, getAIProvider, recordGeneration } from "@/lib/ai";
+import { limitAIRequest } from "@/lib/rate-limit";
+import { buildSubtaskTree, hasCheckedSubtask } from "@/lib/subtasks";
+import { buildRegenerateRequest, selectPrompt } from "@/lib/prompts";
+import { TASK_SELECT } from "@/lib/tasks";
+import { getBreakdownPreferences } from "@/lib/preferences";
+
+// POST /api/tasks/[taskId]/regenerate - Preview a regenerated breakdown without saving it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/regenerate`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = regenerateTaskSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Regenerating changes the breakdown, so viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const { data: task } = await supabase
+      .from("tasks")
+      .select(TASK_SELECT)
+      .eq("id", taskId)
+      .single();
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const currentSubtasks = buildSubtaskTree(task.subtasks).map((s) => ({
+      text: s.text,
+      checked: hasCheckedSubtask(s),
+    }));
+
+    const limited = await limitAIRequest(supabase, user.id, request, requestId);
+    if (limited) return limited;
+
+    const provider = getAIProvider();
+    const prompt = selectPrompt("task-regenerate", user.id);
+    const preferences = await getBreakdownPreferences(supabase, user.id, requestId);
+    logger.info("Calling AI provider to regenerate breakdown", {
+      requestId,
+      taskId,
+      provider: provider.name,
+      model: provider.model,
+    });
+    const aiStartTime = Date.now();
+    const regenerated = await generateStructured(
+      provider,
+      buildRegenerateRequest(
+        task.title,
+        task.description,
+        currentSubtasks,
+        result.data.instruction,
+        prompt,
+        preferences
+      ),
+      { requestId }
+    );
+
+    await recordGeneration(
+      user.id,
+      {
+        feature: "regenerate",
+        provider: provider.name,
+        model: regenerated.model,
+        usage: regenerated.usage,
+        latencyMs: Date.now() - aiStartTime,
+        taskId,
+        prompt,
+      },
+      requestId
+    );
+
+    if (!regenerated.success) {
+      return NextResponse.json(
+        { error: "Failed to parse task breakdown" },
+        { status: 500 }
+      );
+    }
+
+    const preview = regenerated.data;
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+    });
+
+    return NextResponse.json({ preview });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Failed to regenerate task. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/tasks/[taskId]/regenerate - Replace incomplete subtasks with a previewed breakdown
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/regenerate`,
+    method: "PUT",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Accept the subtask counts the preview was generated with
+    const preferences = await getBreakdownPreferences(supabase, user.id, requestId);
+    const body = await request.json();
+    const result = createAITaskResponseSchema(
+      preferences.minSubtasks,
+      preferences.maxSubtasks
+    ).safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Regenerating changes the breakdown, so viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const { data: task } = await supabase
+      .from("tasks")
+      .select(TASK_SELECT)
+      .eq("id", taskId)
+      .single();
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Top-level subtasks with any checked progress are kept, the rest are replaced
+    const topLevel = buildSubtaskTree(task.subtasks);
+    const kept = topLevel.filter(hasCheckedSubtask);
+    const replaced = topLevel.filter((s) => !hasCheckedSubtask(s));
+
+    // One transaction, so a failure leaves the old breakdown intact
+    const { error: replaceError } = await supabase.rpc("replace_subtasks", {
+      p_task_id: taskId,
+      p_title: result.data.title,
+      p_kept_ids: kept.map((s) => s.id),
+      p_replaced_ids: replaced.map((s) => s.id),
+      p_subtasks: result.data.subtasks.map((subtask) => ({
+        text: subtask.text.trim(),
+        minutes: subtask.minutes,
+        effort: subtask.effort,
+      })),
+    });
+
+    if (replaceError) {
+      logger.error("Failed to apply regenerated breakdown", replaceError as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to apply regenerated breakdown" },
+        { status: 500 }
+      );
+    }
+
+    const { data: updatedTask, error: fetchError } = await supabase
+      .from("tasks")
+      .select(TASK_SELECT)
+      .eq("id", taskId)
+      .single();
+
+    if (fetchError || !updatedTask) {
+      logger.error("Failed to fetch regenerated task", fetchError as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to apply regenerated breakdown" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      keptCount: kept.length,
+      replacedCount: replaced.length,
+    });
+
+    return NextResponse.json({
+      task: {
+        ...updatedTask,
+        subtasks: buildSubtaskTree(updatedTask.subtasks),
+      },
+    });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { buildSubtaskTree } from "@/lib/subtasks";
+import { TASK_SELECT } from "@/lib/tasks";
+
+// POST /api/tasks/[taskId]/restore - Bring a task back from the archive or the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/restore`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Only the owner can bring a shared task back
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    const { data: task, error } = await supabase
+      .from("tasks")
+      .update({ archived_at: null, deleted_at: null })
+      .eq("id", taskId)
+      .eq("user_id", user.id)
+      .select(TASK_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to restore task", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to restore task" },
+        { status: 500 }
+      );
+    }
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+    });
+
+    return NextResponse.json({
+      task: { ...task, subtasks: buildSubtaskTree(task.subtasks) },
+    });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,105 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { updateTaskSchema } from "@/lib/schemas";
 import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
 
-// DELETE /api/tasks/[taskId] - Delete a task
+// PATCH /api/tasks/[taskId] - Edit a task's title, description, due date, priority or tags
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}`,
+    method: "PATCH",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = updateTaskSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { dueDate, ...fields } = result.data;
+
+    // Owners and editors can edit a task's details; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const { data: task, error } = await supabase
+      .from("tasks")
+      .update({ ...fields, ...(dueDate !== undefined && { due_date: dueDate }) })
+      .eq("id", taskId)
+      .select("id, title, description, due_date, priority, tags")
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to update task", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to update task" },
+        { status: 500 }
+      );
+    }
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      titleChanged: result.data.title !== undefined,
+      descriptionChanged: result.data.description !== undefined,
+      dueDate,
+      priority: result.data.priority,
+      tagCount: result.data.tags?.length,
+    });
+
+    return NextResponse.json({ task });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[taskId] - Move a task to the trash, or delete it for good with ?permanent=true
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ taskId: string }> }
@@ -10,6 +107,7 @@ export async function DELETE(
   const requestId = crypto.randomUUID();
   const startTime = Date.now();
   const { taskId } = await params;
+  const permanent = request.nextUrl.searchParams.get("permanent") === "true";
 
   logger.info("API request received", {
     requestId,
@@ -29,10 +127,13 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Verify the task belongs to the user before deleting
+    // Only the owner can delete a shared task
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
     const { data: existingTask } = await supabase
       .from("tasks")
-      .select("id")
+      .select("id, deleted_at")
       .eq("id", taskId)
       .eq("user_id", user.id)
       .single();
@@ -42,7 +143,22 @@ export async function DELETE(
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    const { error } = await supabase.from("tasks").delete().eq("id", taskId);
+    // Permanent deletion is only offered from the trash, so a stray request
+    // cannot skip the 30-day window
+    if (permanent && !existingTask.deleted_at) {
+      logger.warn("Permanent delete of task not in trash", { requestId, taskId });
+      return NextResponse.json(
+        { error: "Only tasks in the trash can be permanently deleted" },
+        { status: 409 }
+      );
+    }
+
+    const { error } = permanent
+      ? await supabase.from("tasks").delete().eq("id", taskId)
+      : await supabase
+          .from("tasks")
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("id", taskId);
 
     if (error) {
       logger.error("Failed to delete task", error as Error, {
@@ -60,6 +176,7 @@ export async function DELETE(
       duration: Date.now() - startTime,
       status: 200,
       taskId,
+      permanent,
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+
+// DELETE /api/tasks/[taskId]/share-links/[linkId] - Revoke a public link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string; linkId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId, linkId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/share-links/${linkId}`,
+    method: "DELETE",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    // Deleting the row is what revokes the link; its token stops resolving at once
+    const { data: deleted, error } = await supabase
+      .from("task_share_links")
+      .delete()
+      .eq("id", linkId)
+      .eq("task_id", taskId)
+      .select("id");
+
+    if (error) {
+      logger.error("Failed to revoke share link", error as Error, {
+        requestId,
+        linkId,
+      });
+      return NextResponse.json(
+        { error: "Failed to revoke share link" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      logger.warn("Share link not found", { requestId, taskId, linkId });
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      linkId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
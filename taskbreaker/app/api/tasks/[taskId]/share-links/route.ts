@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { generateShareToken, SHARE_LINK_COLUMNS } from "@/lib/share-links";
+
+// GET /api/tasks/[taskId]/share-links - List a task's active public links
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/share-links`,
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    const { data: links, error } = await supabase
+      .from("task_share_links")
+      .select(SHARE_LINK_COLUMNS)
+      .eq("task_id", taskId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("Database error fetching share links", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch share links" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      linkCount: links?.length || 0,
+    });
+
+    return NextResponse.json({ links: links || [] });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[taskId]/share-links - Create a read-only public link to a task
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/share-links`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const denied = await authorizeTask(supabase, taskId, "owner", requestId);
+    if (denied) return denied;
+
+    const { data: link, error } = await supabase
+      .from("task_share_links")
+      .insert({ task_id: taskId, token: generateShareToken(), created_by: user.id })
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error("Failed to create share link", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to create share link" },
+        { status: 500 }
+      );
+    }
+
+    // The token is a secret, so only the link id is logged
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      taskId,
+      linkId: link.id,
+    });
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { generateStructured, getAIProvider, recordGeneration } from "@/lib/ai";
+import { limitAIRequest } from "@/lib/rate-limit";
+import { buildSubtaskBreakdownRequest, selectPrompt } from "@/lib/prompts";
+import { buildSubtaskTree, getSubtaskDepth, MAX_SUBTASK_DEPTH } from "@/lib/subtasks";
+import { SUBTASK_COLUMNS } from "@/lib/tasks";
+
+// POST /api/tasks/[taskId]/subtasks/[subtaskId]/breakdown - Split a subtask into AI-generated child subtasks
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string; subtaskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId, subtaskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/subtasks/${subtaskId}/breakdown`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Owners and editors can change subtasks; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const { data: task } = await supabase
+      .from("tasks")
+      .select("id, title")
+      .eq("id", taskId)
+      .single();
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { data: siblings, error: fetchError } = await supabase
+      .from("subtasks")
+      .select("id, parent_id, text")
+      .eq("task_id", taskId);
+
+    if (fetchError) {
+      logger.error("Database error fetching subtasks", fetchError as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to break down subtask" },
+        { status: 500 }
+      );
+    }
+
+    const subtask = siblings?.find((s) => s.id === subtaskId);
+    if (!subtask) {
+      logger.warn("Subtask not found", { requestId, subtaskId });
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
+    const depth = getSubtaskDepth(siblings, subtaskId);
+    if (depth >= MAX_SUBTASK_DEPTH) {
+      logger.warn("Subtask breakdown depth exceeded", { requestId, subtaskId, depth });
+      return NextResponse.json(
+        { error: "This subtask cannot be broken down any further" },
+        { status: 400 }
+      );
+    }
+
+    if (siblings.some((s) => s.parent_id === subtaskId)) {
+      return NextResponse.json(
+        { error: "Subtask has already been broken down" },
+        { status: 409 }
+      );
+    }
+
+    const limited = await limitAIRequest(supabase, user.id, request, requestId);
+    if (limited) return limited;
+
+    const provider = getAIProvider();
+    const prompt = selectPrompt("subtask-breakdown", user.id);
+    logger.info("Calling AI provider for child subtasks", {
+      requestId,
+      depth,
+      provider: provider.name,
+      model: provider.model,
+    });
+    const aiStartTime = Date.now();
+    const result = await generateStructured(
+      provider,
+      buildSubtaskBreakdownRequest(task.title, subtask.text, prompt),
+      { requestId }
+    );
+
+    await recordGeneration(
+      user.id,
+      {
+        feature: "subtask-breakdown",
+        provider: provider.name,
+        model: result.model,
+        usage: result.usage,
+        latencyMs: Date.now() - aiStartTime,
+        taskId,
+        prompt,
+      },
+      requestId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to parse subtask breakdown" },
+        { status: 500 }
+      );
+    }
+
+    const childSubtasks = result.data.subtasks;
+
+    const childrenToInsert = childSubtasks.map((child, index) => ({
+      task_id: taskId,
+      parent_id: subtaskId,
+      text: child.text.trim(),
+      checked: false,
+      estimated_minutes: child.minutes,
+      effort: child.effort,
+      position: index,
+    }));
+
+    const { data: children, error: insertError } = await supabase
+      .from("subtasks")
+      .insert(childrenToInsert)
+      .select(SUBTASK_COLUMNS);
+
+    if (insertError || !children) {
+      logger.error("Failed to create child subtasks", insertError as Error, {
+        requestId,
+        subtaskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to create subtasks" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      subtaskId,
+      childCount: children.length,
+    });
+
+    return NextResponse.json(
+      { subtasks: buildSubtaskTree(children) },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Failed to break down subtask. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { updateSubtaskSchema } from "@/lib/schemas";
 import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { SUBTASK_COLUMNS } from "@/lib/tasks";
 
-// PATCH /api/tasks/[taskId]/subtasks/[subtaskId] - Update subtask checked state
+// PATCH /api/tasks/[taskId]/subtasks/[subtaskId] - Update subtask checked state, text or due date
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ taskId: string; subtaskId: string }> }
@@ -44,29 +46,30 @@ export async function PATCH(
       );
     }
 
-    // Verify the task belongs to the user
-    const { data: task } = await supabase
-      .from("tasks")
-      .select("id")
-      .eq("id", taskId)
-      .eq("user_id", user.id)
-      .single();
+    // Owners and editors can change subtasks; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
 
-    if (!task) {
-      logger.warn("Task not found or unauthorized", { requestId, taskId });
-      return NextResponse.json({ error: "Task not found" }, { status: 404 });
-    }
+    const { dueDate, ...fields } = result.data;
 
     // Update the subtask
     const { data: subtask, error } = await supabase
       .from("subtasks")
-      .update({ checked: result.data.checked } as { checked: boolean })
+      .update({
+        ...fields,
+        ...(dueDate !== undefined && { due_date: dueDate }),
+        // Record who checked it so collaborators can see who did what
+        ...(fields.checked !== undefined && {
+          checked_by: fields.checked ? user.id : null,
+          checked_at: fields.checked ? new Date().toISOString() : null,
+        }),
+      })
       .eq("id", subtaskId)
       .eq("task_id", taskId)
-      .select("id, text, checked, position")
-      .single();
+      .select(SUBTASK_COLUMNS)
+      .maybeSingle();
 
-    if (error || !subtask) {
+    if (error) {
       logger.error("Failed to update subtask", error as Error, {
         requestId,
         subtaskId,
@@ -77,12 +80,20 @@ export async function PATCH(
       );
     }
 
+    // Deleted by a collaborator; a 404 lets queued offline edits to it be dropped
+    if (!subtask) {
+      logger.warn("Subtask not found", { requestId, subtaskId });
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
     logger.info("API request completed", {
       requestId,
       duration: Date.now() - startTime,
       status: 200,
       subtaskId,
       checked: result.data.checked,
+      textChanged: result.data.text !== undefined,
+      dueDate,
     });
 
     return NextResponse.json({ subtask });
@@ -97,3 +108,105 @@ export async function PATCH(
     );
   }
 }
+
+// DELETE /api/tasks/[taskId]/subtasks/[subtaskId] - Delete a subtask and its children
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string; subtaskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId, subtaskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/subtasks/${subtaskId}`,
+    method: "DELETE",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Owners and editors can change subtasks; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const { data: subtask } = await supabase
+      .from("subtasks")
+      .select("id, parent_id")
+      .eq("id", subtaskId)
+      .eq("task_id", taskId)
+      .single();
+
+    if (!subtask) {
+      logger.warn("Subtask not found", { requestId, subtaskId });
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
+    // Child subtasks are removed by the parent_id cascade
+    const { error } = await supabase
+      .from("subtasks")
+      .delete()
+      .eq("id", subtaskId)
+      .eq("task_id", taskId);
+
+    if (error) {
+      logger.error("Failed to delete subtask", error as Error, {
+        requestId,
+        subtaskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to delete subtask" },
+        { status: 500 }
+      );
+    }
+
+    // Renumber the remaining siblings so positions stay contiguous
+    const siblingsQuery = supabase
+      .from("subtasks")
+      .select("id, position")
+      .eq("task_id", taskId)
+      .order("position", { ascending: true });
+
+    const { data: siblings } = await (subtask.parent_id
+      ? siblingsQuery.eq("parent_id", subtask.parent_id)
+      : siblingsQuery.is("parent_id", null));
+
+    for (const [index, sibling] of (siblings || []).entries()) {
+      if (sibling.position !== index) {
+        await supabase
+          .from("subtasks")
+          .update({ position: index })
+          .eq("id", sibling.id)
+          .eq("task_id", taskId);
+      }
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      subtaskId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
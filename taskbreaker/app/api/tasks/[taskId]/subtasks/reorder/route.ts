@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reorderSubtasksSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+
+// PUT /api/tasks/[taskId]/subtasks/reorder - Rewrite positions of one subtask level
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/subtasks/reorder`,
+    method: "PUT",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = reorderSubtasksSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Owners and editors can change subtasks; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const parentId = result.data.parentId ?? null;
+    const { subtaskIds } = result.data;
+
+    const siblingsQuery = supabase
+      .from("subtasks")
+      .select("id")
+      .eq("task_id", taskId);
+
+    const { data: siblings, error: fetchError } = await (parentId
+      ? siblingsQuery.eq("parent_id", parentId)
+      : siblingsQuery.is("parent_id", null));
+
+    if (fetchError) {
+      logger.error("Database error fetching subtasks", fetchError as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to reorder subtasks" },
+        { status: 500 }
+      );
+    }
+
+    // The new order must list exactly the subtasks at this level
+    const siblingIds = new Set((siblings || []).map((s) => s.id));
+    if (
+      siblingIds.size !== subtaskIds.length ||
+      !subtaskIds.every((id) => siblingIds.has(id))
+    ) {
+      logger.warn("Reorder does not match subtask level", { requestId, taskId });
+      return NextResponse.json(
+        { error: "Subtask order is out of date. Please refresh." },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase.rpc("reorder_subtasks", {
+      p_task_id: taskId,
+      p_subtask_ids: subtaskIds,
+    });
+
+    if (error) {
+      logger.error("Failed to reorder subtasks", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to reorder subtasks" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskId,
+      subtaskCount: subtaskIds.length,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
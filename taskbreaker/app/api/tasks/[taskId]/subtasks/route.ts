@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createSubtaskSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { getSubtaskDepth, MAX_SUBTASK_DEPTH } from "@/lib/subtasks";
+import { SUBTASK_COLUMNS } from "@/lib/tasks";
+
+// POST /api/tasks/[taskId]/subtasks - Add a subtask at the end of its level
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { taskId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/tasks/${taskId}/subtasks`,
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = createSubtaskSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Owners and editors can change subtasks; viewers get a 403
+    const denied = await authorizeTask(supabase, taskId, "edit", requestId);
+    if (denied) return denied;
+
+    const parentId = result.data.parentId ?? null;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("subtasks")
+      .select("id, parent_id, position")
+      .eq("task_id", taskId);
+
+    if (fetchError) {
+      logger.error("Database error fetching subtasks", fetchError as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to create subtask" },
+        { status: 500 }
+      );
+    }
+
+    if (parentId) {
+      const depth = getSubtaskDepth(existing || [], parentId);
+      if (depth === 0) {
+        return NextResponse.json(
+          { error: "Parent subtask not found" },
+          { status: 404 }
+        );
+      }
+      if (depth >= MAX_SUBTASK_DEPTH) {
+        return NextResponse.json(
+          { error: "Subtasks cannot be nested any deeper" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const siblings = (existing || []).filter((s) => s.parent_id === parentId);
+    const position =
+      siblings.length > 0 ? Math.max(...siblings.map((s) => s.position)) + 1 : 0;
+
+    const { data: subtask, error } = await supabase
+      .from("subtasks")
+      .insert({
+        task_id: taskId,
+        parent_id: parentId,
+        text: result.data.text,
+        checked: false,
+        position,
+      })
+      .select(SUBTASK_COLUMNS)
+      .single();
+
+    if (error || !subtask) {
+      logger.error("Failed to create subtask", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to create subtask" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      subtaskId: subtask.id,
+    });
+
+    return NextResponse.json(
+      { subtask: { ...subtask, children: [] } },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { exportQuerySchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { getTaskRole, type TaskRole } from "@/lib/task-access";
+import { buildSubtaskTree } from "@/lib/subtasks";
+import { TASK_SELECT } from "@/lib/tasks";
+import { toDateString } from "@/lib/due-dates";
+import { EXPORT_FILE_TYPES, formatExport, getExportFilename } from "@/lib/export";
+
+// GET /api/tasks/export?format=&taskId= - Download one task, or all of the user's
+// tasks outside the trash, as Markdown, JSON, CSV or iCalendar
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/tasks/export",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = exportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { format, taskId } = result.data;
+
+    // A single task can be exported by anyone it is shared with
+    let role: TaskRole = "owner";
+    if (taskId) {
+      const taskRole = await getTaskRole(supabase, taskId);
+      if (!taskRole) {
+        logger.warn("Task not found or unauthorized", { requestId, taskId });
+        return NextResponse.json({ error: "Task not found" }, { status: 404 });
+      }
+      role = taskRole;
+    }
+
+    const { data: tasks, error } = taskId
+      ? await supabase.from("tasks").select(TASK_SELECT).eq("id", taskId)
+      : await supabase
+          .from("tasks")
+          .select(TASK_SELECT)
+          .eq("user_id", user.id)
+          .is("deleted_at", null)
+          .order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error("Database error fetching tasks for export", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to export tasks" },
+        { status: 500 }
+      );
+    }
+
+    const taskIds = (tasks || []).map((task) => task.id);
+    const { data: members, error: membersError } = taskIds.length
+      ? await supabase
+          .from("task_members")
+          .select("task_id, email, user_id, role")
+          .in("task_id", taskIds)
+          .order("created_at", { ascending: true })
+      : { data: [], error: null };
+
+    if (membersError) {
+      logger.error("Database error fetching task members for export", membersError as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to export tasks" },
+        { status: 500 }
+      );
+    }
+
+    // Same shape as GET /api/tasks so JSON exports can be read back in
+    const nestedTasks = (tasks || []).map((task) => ({
+      ...task,
+      subtasks: buildSubtaskTree(task.subtasks),
+      role,
+      members: (members || [])
+        .filter((member) => member.task_id === task.id)
+        .map(({ email, user_id, role }) => ({ email, user_id, role })),
+    }));
+
+    const now = new Date();
+    const filename = getExportFilename(
+      format,
+      taskId ? (nestedTasks[0] ?? null) : null,
+      toDateString(now)
+    );
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      format,
+      taskId,
+      taskCount: nestedTasks.length,
+    });
+
+    return new NextResponse(formatExport(format, nestedTasks, now), {
+      headers: {
+        "Content-Type": EXPORT_FILE_TYPES[format].contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { importTasksSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { insertTaskWithSubtasks } from "@/lib/tasks";
+import { parseImport, toSubtaskSeeds } from "@/lib/import";
+
+// POST /api/tasks/import - Create tasks from a Markdown checklist or a JSON export,
+// without AI generation. With `preview` the parsed tasks are returned unsaved.
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/tasks/import",
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = importTasksSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { format, content, preview } = result.data;
+    const parsed = parseImport(format, content);
+
+    if (!parsed.success) {
+      logger.warn("Import content failed validation", {
+        requestId,
+        format,
+        error: parsed.error,
+      });
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (preview) {
+      logger.info("API request completed", {
+        requestId,
+        duration: Date.now() - startTime,
+        status: 200,
+        format,
+        preview: true,
+        taskCount: parsed.tasks.length,
+      });
+
+      return NextResponse.json({ tasks: parsed.tasks });
+    }
+
+    // Insert from the last task to the first so the list shows them in file order
+    const created = [];
+    for (const { subtasks, ...fields } of [...parsed.tasks].reverse()) {
+      const newTask = await insertTaskWithSubtasks(
+        supabase,
+        user.id,
+        fields,
+        toSubtaskSeeds(subtasks),
+        requestId
+      );
+
+      if (!newTask) {
+        // Leave nothing half-imported
+        if (created.length > 0) {
+          await supabase
+            .from("tasks")
+            .delete()
+            .in("id", created.map((task) => task.id));
+        }
+        return NextResponse.json(
+          { error: "Failed to import tasks" },
+          { status: 500 }
+        );
+      }
+
+      created.unshift(newTask);
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      format,
+      taskCount: created.length,
+    });
+
+    return NextResponse.json({ tasks: created }, { status: 201 });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
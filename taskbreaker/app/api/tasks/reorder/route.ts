@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reorderTasksSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+
+// PUT /api/tasks/reorder - Save the user's manual task order
+export async function PUT(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/tasks/reorder",
+    method: "PUT",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = reorderTasksSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { taskIds } = result.data;
+
+    // Every task must belong to the user
+    const { count } = await supabase
+      .from("tasks")
+      .select("id", { count: "exact", head: true })
+      .in("id", taskIds)
+      .eq("user_id", user.id);
+
+    if (count !== taskIds.length) {
+      logger.warn("Reorder included unknown tasks", { requestId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { error } = await supabase.rpc("reorder_tasks", { p_task_ids: taskIds });
+
+    if (error) {
+      logger.error("Failed to reorder tasks", error as Error, { requestId });
+      return NextResponse.json(
+        { error: "Failed to reorder tasks" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      taskCount: taskIds.length,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,313 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import { createClient } from "@/lib/supabase/server";
-import { createTaskSchema, aiTaskResponseSchema } from "@/lib/schemas";
+import {
+  createTaskSchema,
+  listTasksQuerySchema,
+  type AISubtask,
+  type AITaskResponse,
+  type BreakdownPreferences,
+  type CreateTaskInput,
+  type MemberRole,
+} from "@/lib/schemas";
 import logger from "@/lib/logger";
+import { buildSubtaskTree } from "@/lib/subtasks";
+import { TASK_SELECT, insertTaskWithSubtasks } from "@/lib/tasks";
+import { getDueFilterRange, toDateString } from "@/lib/due-dates";
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  getSortKeys,
+  getTrashCutoff,
+  type CursorValue,
+} from "@/lib/task-list";
+import {
+  buildTaskBreakdownRequest,
+  buildTemplateCustomizeRequest,
+  getTaskBreakdownCacheKey,
+  selectPrompt,
+  type PromptRef,
+} from "@/lib/prompts";
+import { createPartialBreakdownReader } from "@/lib/partial-json";
+import { createSseWriter } from "@/lib/sse";
+import {
+  addUsage,
+  cacheCompletion,
+  generateStructured,
+  getAIProvider,
+  getCachedCompletion,
+  recordGeneration,
+  replayCompletion,
+  toCompletionRequest,
+  type Generation,
+  type StructuredResult,
+  type TokenUsage,
+} from "@/lib/ai";
+import { limitAIRequest } from "@/lib/rate-limit";
+import { getBreakdownPreferences } from "@/lib/preferences";
+import type { TemplateSubtask } from "@/types/template.types";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// AI breakdowns are flat; templates may carry nested subtasks
+const withoutChildren = (subtasks: AISubtask[]): TemplateSubtask[] =>
+  subtasks.map((subtask) => ({ ...subtask, children: [] }));
+
+/**
+ * Stream the title and subtasks as Server-Sent Events while the model
+ * generates them, or replay a cached breakdown. The task is only saved once
+ * the full response validates, after any repairs.
+ */
+async function streamTaskCreation(
+  supabase: SupabaseClient,
+  userId: string,
+  task: string,
+  prompt: PromptRef,
+  preferences: BreakdownPreferences,
+  cached: string | null,
+  requestId: string,
+  startTime: number
+) {
+  const provider = getAIProvider();
+  const breakdownRequest = buildTaskBreakdownRequest(task, prompt, preferences);
+  const aiStartTime = Date.now();
+  const reported: { usage: TokenUsage | null } = { usage: null };
+  let completion: AsyncIterable<string>;
+  if (cached !== null) {
+    completion = replayCompletion(cached);
+  } else {
+    logger.info("Calling AI provider for title and subtasks (streaming)", {
+      requestId,
+      provider: provider.name,
+      model: provider.model,
+    });
+    completion = provider.stream(
+      toCompletionRequest(breakdownRequest),
+      (usage) => (reported.usage = usage)
+    );
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const sse = createSseWriter(controller);
+      const reader = createPartialBreakdownReader();
+      let result: StructuredResult<AITaskResponse> | null = null;
+      let taskId: string | null = null;
+
+      try {
+        for await (const delta of completion) {
+          const update = reader.push(delta);
+          if (update.title !== null) {
+            sse.send("title", { title: update.title });
+          }
+          update.subtasks.forEach((text) => sse.send("subtask", { text }));
+        }
+
+        result = await generateStructured(provider, breakdownRequest, {
+          requestId,
+          firstResponse: reader.content,
+        });
+        if (!result.success) {
+          sse.send("error", { error: "Failed to parse task breakdown" });
+          return;
+        }
+
+        if (cached === null || result.attempts > 0) {
+          cacheCompletion(
+            getTaskBreakdownCacheKey(provider, task, prompt, preferences),
+            result.content
+          );
+        }
+
+        const newTask = await insertTaskWithSubtasks(
+          supabase,
+          userId,
+          {
+            title: result.data.title,
+            description: task,
+            tags: result.data.tags,
+            prompt_name: prompt.name,
+            prompt_version: prompt.version,
+          },
+          withoutChildren(result.data.subtasks),
+          requestId
+        );
+
+        if (!newTask) {
+          sse.send("error", { error: "Failed to create task" });
+          return;
+        }
+        taskId = newTask.id;
+
+        logger.info("API request completed", {
+          requestId,
+          duration: Date.now() - startTime,
+          status: 201,
+          taskId: newTask.id,
+          subtaskCount: newTask.subtasks.length,
+          streamed: true,
+          cached: cached !== null,
+        });
+
+        sse.send("done", { task: newTask });
+      } catch (error) {
+        logger.error("Streaming task creation failed", error as Error, {
+          requestId,
+          duration: Date.now() - startTime,
+        });
+        sse.send("error", { error: "Failed to create task. Please try again." });
+      } finally {
+        // Record usage first: the tokens were spent even if the client left
+        if (cached === null || (result && result.attempts > 0)) {
+          await recordGeneration(
+            userId,
+            {
+              feature: "task",
+              provider: provider.name,
+              model: result?.model ?? provider.model,
+              usage: addUsage(reported.usage, result?.usage ?? null),
+              latencyMs: Date.now() - aiStartTime,
+              taskId,
+              prompt,
+            },
+            requestId
+          );
+        }
+        sse.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * Create a task from a saved template. The template is copied as is, or
+ * adapted to the new task by the AI when `customize` is set.
+ */
+async function createTaskFromTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  { templateId, task, customize }: CreateTaskInput,
+  requestId: string,
+  startTime: number
+) {
+  const { data: template } = await supabase
+    .from("task_templates")
+    .select("id, title, description, tags, subtasks")
+    .eq("id", templateId!)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!template) {
+    logger.warn("Template not found or unauthorized", { requestId, templateId });
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
 
-// GET /api/tasks - Get all tasks for the current user
-export async function GET() {
+  const templateSubtasks = template.subtasks as unknown as TemplateSubtask[];
+  let title = template.title;
+  let subtasks = templateSubtasks;
+  let tags = template.tags;
+  // Recorded once the task exists, so the usage is linked to it
+  let generation: Generation | null = null;
+  // Only set when the AI adapted the template
+  let prompt: PromptRef | null = null;
+
+  if (customize && task) {
+    prompt = selectPrompt("template-customize", userId);
+    const preferences = await getBreakdownPreferences(supabase, userId, requestId);
+    const provider = getAIProvider();
+    logger.info("Calling AI provider to customize template", {
+      requestId,
+      templateId,
+      provider: provider.name,
+      model: provider.model,
+    });
+    const aiStartTime = Date.now();
+    const result = await generateStructured(
+      provider,
+      buildTemplateCustomizeRequest(
+        task,
+        template.title,
+        templateSubtasks,
+        prompt,
+        preferences
+      ),
+      { requestId }
+    );
+    generation = {
+      feature: "template",
+      provider: provider.name,
+      model: result.model,
+      usage: result.usage,
+      latencyMs: Date.now() - aiStartTime,
+      prompt,
+    };
+
+    if (!result.success) {
+      await recordGeneration(userId, generation, requestId);
+      return NextResponse.json(
+        { error: "Failed to customize template" },
+        { status: 500 }
+      );
+    }
+
+    title = result.data.title;
+    subtasks = withoutChildren(result.data.subtasks);
+    // Keep the template's tags and add the suggestions, up to the usual limit
+    tags = [...new Set([...template.tags, ...result.data.tags])].slice(0, 10);
+  }
+
+  const newTask = await insertTaskWithSubtasks(
+    supabase,
+    userId,
+    {
+      title,
+      description: task ?? template.description,
+      tags,
+      prompt_name: prompt?.name ?? null,
+      prompt_version: prompt?.version ?? null,
+    },
+    subtasks,
+    requestId
+  );
+
+  if (generation) {
+    await recordGeneration(
+      userId,
+      { ...generation, taskId: newTask?.id ?? null },
+      requestId
+    );
+  }
+
+  if (!newTask) {
+    return NextResponse.json(
+      { error: "Failed to create task" },
+      { status: 500 }
+    );
+  }
+
+  logger.info("API request completed", {
+    requestId,
+    duration: Date.now() - startTime,
+    status: 201,
+    taskId: newTask.id,
+    templateId,
+    customized: Boolean(customize),
+    subtaskCount: newTask.subtasks.length,
+  });
+
+  return NextResponse.json({ task: newTask }, { status: 201 });
+}
+
+// GET /api/tasks - List the current user's tasks a page at a time, with search, filters and sorting
+export async function GET(request: NextRequest) {
   const requestId = crypto.randomUUID();
   const startTime = Date.now();
 
@@ -31,25 +329,148 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { data: tasks, error } = await supabase
-      .from("tasks")
-      .select(
-        `
-        id,
-        title,
-        created_at,
-        subtasks (
-          id,
-          text,
-          checked,
-          position
-        )
-      `
-      )
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      logger.error("Database error fetching tasks", error as Error, {
+    const queryResult = listTasksQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!queryResult.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: queryResult.error.issues,
+      });
+      return NextResponse.json(
+        { error: queryResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const {
+      view,
+      due,
+      priority,
+      tag,
+      q,
+      sort,
+      order,
+      cursor,
+      limit,
+      today = toDateString(new Date()),
+    } = queryResult.data;
+
+    const sortKeys = getSortKeys(sort, order);
+    const cursorValues = cursor ? decodeCursor(cursor, sortKeys) : null;
+    if (cursor && !cursorValues) {
+      logger.warn("Invalid cursor", { requestId });
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    if (view === "trash") {
+      // Best effort: anything past the retention window is also filtered out below
+      const { error: purgeError } = await supabase.rpc("purge_trashed_tasks");
+      if (purgeError) {
+        logger.warn("Failed to purge expired trash", {
+          requestId,
+          error: purgeError.message,
+        });
+      }
+    }
+
+    // Shared tasks are found through the user's memberships instead of user_id
+    let sharedRoles: Map<string, MemberRole> | null = null;
+    if (view === "shared") {
+      const { data: memberships, error: membershipError } = await supabase
+        .from("task_members")
+        .select("task_id, role")
+        .eq("user_id", user.id);
+
+      if (membershipError) {
+        logger.error("Database error fetching memberships", membershipError as Error, {
+          requestId,
+        });
+        return NextResponse.json(
+          { error: "Failed to fetch tasks" },
+          { status: 500 }
+        );
+      }
+
+      sharedRoles = new Map((memberships || []).map((m) => [m.task_id, m.role]));
+    }
+
+    // Find the page of task IDs first; the view carries the sort keys
+    let query = supabase
+      .from("task_list")
+      .select("id, sort_position, created_at, progress, sort_title");
+    query = sharedRoles
+      ? query.in("id", [...sharedRoles.keys()])
+      : query.eq("user_id", user.id);
+
+    if (view === "trash") {
+      query = query.gte("deleted_at", getTrashCutoff(new Date()));
+    } else {
+      query = query.is("deleted_at", null);
+      query =
+        view === "archived"
+          ? query.not("archived_at", "is", null)
+          : query.is("archived_at", null);
+    }
+
+    if (due) {
+      const range = getDueFilterRange(due, today);
+      if (range.before) query = query.lt("due_date", range.before);
+      if (range.from) query = query.gte("due_date", range.from);
+      if (range.to) query = query.lte("due_date", range.to);
+    }
+    if (priority) query = query.eq("priority", priority);
+    if (tag) query = query.contains("tags", [tag]);
+    if (q) {
+      query = query.textSearch("search_vector", q, {
+        type: "websearch",
+        config: "english",
+      });
+    }
+    if (cursorValues) query = query.or(buildCursorFilter(sortKeys, cursorValues));
+
+    for (const key of sortKeys) {
+      query = query.order(key.column, { ascending: key.ascending });
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data: rows, error: listError } = await query.limit(limit + 1);
+
+    if (listError) {
+      logger.error("Database error listing tasks", listError as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch tasks" },
+        { status: 500 }
+      );
+    }
+
+    const page = (rows || []).slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows && rows.length > limit && last
+        ? encodeCursor(sortKeys.map((key) => last[key.column] as CursorValue))
+        : null;
+
+    const pageIds = page.map((row) => row.id as string);
+    const [{ data: tasks, error }, { data: members, error: membersError }] = pageIds.length
+      ? await Promise.all([
+          supabase.from("tasks").select(TASK_SELECT).in("id", pageIds),
+          supabase
+            .from("task_members")
+            .select("task_id, email, user_id, role")
+            .in("task_id", pageIds)
+            .order("created_at", { ascending: true }),
+        ])
+      : [
+          { data: [], error: null },
+          { data: [], error: null },
+        ];
+
+    if (error || membersError) {
+      logger.error("Database error fetching tasks", (error || membersError) as Error, {
         requestId,
       });
       return NextResponse.json(
@@ -63,9 +484,35 @@ export async function GET() {
       duration: Date.now() - startTime,
       status: 200,
       taskCount: tasks?.length || 0,
+      view,
+      due,
+      priority,
+      tag,
+      sort,
+      searched: Boolean(q),
+      hasMore: nextCursor !== null,
+    });
+
+    // Restore the page order, nest child subtasks under their parents and
+    // attach the viewer's role and the task's collaborators
+    const tasksById = new Map((tasks || []).map((task) => [task.id, task]));
+    const nestedTasks = pageIds.flatMap((id) => {
+      const task = tasksById.get(id);
+      return task
+        ? [
+            {
+              ...task,
+              subtasks: buildSubtaskTree(task.subtasks),
+              role: sharedRoles?.get(id) ?? "owner",
+              members: (members || [])
+                .filter((member) => member.task_id === id)
+                .map(({ email, user_id, role }) => ({ email, user_id, role })),
+            },
+          ]
+        : [];
     });
 
-    return NextResponse.json({ tasks });
+    return NextResponse.json({ tasks: nestedTasks, nextCursor });
   } catch (error) {
     logger.error("API request failed", error as Error, {
       requestId,
@@ -78,7 +525,7 @@ export async function GET() {
   }
 }
 
-// POST /api/tasks - Create a new task with AI-generated subtasks
+// POST /api/tasks - Create a new task with AI-generated subtasks, or from a template
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID();
   const startTime = Date.now();
@@ -115,150 +562,106 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { task } = result.data;
-
-    // Generate title and subtasks using OpenAI (combined prompt for efficiency)
-    logger.info("Calling OpenAI for title and subtasks", { requestId });
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a task organization assistant. Given a task description, you will:
-1. Generate a short, friendly title (2-5 words) that captures the essence of the task
-2. Break down the task into 3-5 specific, actionable subtasks
-
-Rules for title:
-- Keep it between 2-5 words
-- Use title case (capitalize major words)
-- Make it scannable and memorable
-- Avoid articles (a, an, the) when possible
-- No punctuation at the end
-
-Rules for subtasks:
-- Each subtask should be a clear action item
-- Keep each subtask under 100 characters
-- Return between 3 and 5 subtasks
-
-Return a JSON object with this exact structure:
-{
-  "title": "Friendly Title Here",
-  "subtasks": ["Subtask 1", "Subtask 2", "Subtask 3"]
-}
-
-Example input: "Plan my daughter's 5th birthday party for Saturday"
-Example output: {"title": "Birthday Party Planning", "subtasks": ["Send party invitations to friends", "Order birthday cake and decorations", "Plan age-appropriate party games", "Prepare goody bags for guests", "Set up party area"]}`,
-        },
-        {
-          role: "user",
-          content: task,
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      logger.error("OpenAI returned empty content", undefined, { requestId });
-      return NextResponse.json(
-        { error: "Failed to generate task breakdown" },
-        { status: 500 }
-      );
+    if (result.data.templateId) {
+      // Copying a template as-is doesn't call the AI, so it isn't limited
+      if (result.data.customize) {
+        const limited = await limitAIRequest(supabase, user.id, request, requestId);
+        if (limited) return limited;
+      }
+      return createTaskFromTemplate(supabase, user.id, result.data, requestId, startTime);
     }
 
-    // Parse and validate AI response with fallback for title
-    let friendlyTitle: string = task; // Fallback to original input
-    let subtaskTexts: string[];
+    // Without a template the schema requires the task text
+    const { task = "", stream, refresh } = result.data;
 
-    try {
-      const parsed = JSON.parse(content);
-      const validated = aiTaskResponseSchema.safeParse(parsed);
+    const provider = getAIProvider();
+    const prompt = selectPrompt("task-breakdown", user.id);
+    const preferences = await getBreakdownPreferences(supabase, user.id, requestId);
+    const cacheKey = getTaskBreakdownCacheKey(provider, task, prompt, preferences);
+    const cached = refresh ? null : getCachedCompletion(cacheKey, requestId);
 
-      if (validated.success) {
-        friendlyTitle = validated.data.title;
-        subtaskTexts = validated.data.subtasks;
-        logger.info("AI generated friendly title", {
-          requestId,
-          originalTask: task,
-          generatedTitle: friendlyTitle,
-        });
-      } else {
-        // Try to extract subtasks even if title validation fails
-        logger.warn("AI response validation failed, attempting partial parse", {
-          requestId,
-          errors: validated.error.issues,
-        });
+    // A cached breakdown costs nothing, so it doesn't count against the quota
+    if (cached === null) {
+      const limited = await limitAIRequest(supabase, user.id, request, requestId);
+      if (limited) return limited;
+    }
 
-        if (Array.isArray(parsed.subtasks) && parsed.subtasks.length > 0) {
-          subtaskTexts = parsed.subtasks.filter(
-            (s: unknown) => typeof s === "string" && (s as string).trim().length > 0
-          );
-          // Use title if present and reasonable, otherwise fallback
-          if (typeof parsed.title === "string" && parsed.title.trim().length >= 2) {
-            friendlyTitle = parsed.title.trim().slice(0, 50);
-          }
-        } else {
-          throw new Error("Could not extract subtasks from response");
-        }
-      }
+    if (stream) {
+      return streamTaskCreation(
+        supabase,
+        user.id,
+        task,
+        prompt,
+        preferences,
+        cached,
+        requestId,
+        startTime
+      );
+    }
 
-      // Final validation: ensure we have subtasks
-      if (!subtaskTexts || subtaskTexts.length === 0) {
-        throw new Error("No valid subtasks generated");
-      }
-    } catch (parseError) {
-      logger.error("Failed to parse OpenAI response", parseError as Error, {
+    // Generate title and subtasks (combined prompt for efficiency)
+    if (cached === null) {
+      logger.info("Calling AI provider for title and subtasks", {
         requestId,
-        content,
+        provider: provider.name,
+        model: provider.model,
       });
-      return NextResponse.json(
-        { error: "Failed to parse task breakdown" },
-        { status: 500 }
-      );
     }
+    const aiStartTime = Date.now();
+    const breakdown = await generateStructured(
+      provider,
+      buildTaskBreakdownRequest(task, prompt, preferences),
+      { requestId, firstResponse: cached ?? undefined }
+    );
+    // Recorded once the task exists, so the usage is linked to it
+    const generation: Generation | null =
+      breakdown.attempts > 0
+        ? {
+            feature: "task",
+            provider: provider.name,
+            model: breakdown.model,
+            usage: breakdown.usage,
+            latencyMs: Date.now() - aiStartTime,
+            prompt,
+          }
+        : null;
 
-    // Insert task into database with AI-generated title
-    const { data: newTask, error: taskError } = await supabase
-      .from("tasks")
-      .insert({
-        user_id: user.id,
-        title: friendlyTitle,
-      })
-      .select("id, title, created_at")
-      .single();
-
-    if (taskError || !newTask) {
-      logger.error("Failed to create task", taskError as Error, { requestId });
+    if (!breakdown.success) {
+      if (generation) await recordGeneration(user.id, generation, requestId);
       return NextResponse.json(
-        { error: "Failed to create task" },
+        { error: "Failed to parse task breakdown" },
         { status: 500 }
       );
     }
 
-    const taskId = newTask.id as string;
+    if (breakdown.attempts > 0) cacheCompletion(cacheKey, breakdown.content);
 
-    // Insert subtasks
-    const subtasksToInsert = subtaskTexts.map((text, index) => ({
-      task_id: taskId,
-      text: text.trim(),
-      checked: false,
-      position: index,
-    }));
+    // Insert task into database with AI-generated title
+    const newTask = await insertTaskWithSubtasks(
+      supabase,
+      user.id,
+      {
+        title: breakdown.data.title,
+        description: task,
+        tags: breakdown.data.tags,
+        prompt_name: prompt.name,
+        prompt_version: prompt.version,
+      },
+      withoutChildren(breakdown.data.subtasks),
+      requestId
+    );
 
-    const { data: subtasks, error: subtasksError } = await supabase
-      .from("subtasks")
-      .insert(subtasksToInsert)
-      .select("id, text, checked, position");
+    if (generation) {
+      await recordGeneration(
+        user.id,
+        { ...generation, taskId: newTask?.id ?? null },
+        requestId
+      );
+    }
 
-    if (subtasksError) {
-      logger.error("Failed to create subtasks", subtasksError as Error, {
-        requestId,
-      });
-      // Clean up the task if subtasks failed
-      await supabase.from("tasks").delete().eq("id", taskId);
+    if (!newTask) {
       return NextResponse.json(
-        { error: "Failed to create subtasks" },
+        { error: "Failed to create task" },
         { status: 500 }
       );
     }
@@ -268,18 +671,11 @@ Example output: {"title": "Birthday Party Planning", "subtasks": ["Send party in
       duration: Date.now() - startTime,
       status: 201,
       taskId: newTask.id,
-      subtaskCount: subtasks?.length || 0,
+      subtaskCount: newTask.subtasks.length,
+      cached: cached !== null,
     });
 
-    return NextResponse.json(
-      {
-        task: {
-          ...newTask,
-          subtasks,
-        },
-      },
-      { status: 201 }
-    );
+    return NextResponse.json({ task: newTask }, { status: 201 });
   } catch (error) {
     logger.error("API request failed", error as Error, {
       requestId,
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+
+// GET /api/tasks/tags - List the distinct tags used across the user's tasks, ignoring the trash
+export async function GET() {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/tasks/tags",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: rows, error } = await supabase
+      .from("tasks")
+      .select("tags")
+      .eq("user_id", user.id)
+      .is("deleted_at", null);
+
+    if (error) {
+      logger.error("Database error fetching tags", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch tags" },
+        { status: 500 }
+      );
+    }
+
+    const tags = [...new Set((rows || []).flatMap((row) => row.tags))].sort();
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      tagCount: tags.length,
+    });
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
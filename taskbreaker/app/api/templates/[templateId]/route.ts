@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { updateTemplateSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { TEMPLATE_COLUMNS } from "@/lib/templates";
+
+// PATCH /api/templates/[templateId] - Rename a template or edit the task details it creates
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { templateId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/templates/${templateId}`,
+    method: "PATCH",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = updateTemplateSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Scoping the update to the user means an unowned template matches no rows
+    const { data: template, error } = await supabase
+      .from("task_templates")
+      .update(result.data)
+      .eq("id", templateId)
+      .eq("user_id", user.id)
+      .select(TEMPLATE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to update template", error as Error, {
+        requestId,
+        templateId,
+      });
+      return NextResponse.json(
+        { error: "Failed to update template" },
+        { status: 500 }
+      );
+    }
+
+    if (!template) {
+      logger.warn("Template not found or unauthorized", { requestId, templateId });
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      templateId,
+    });
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/templates/[templateId] - Delete a template; tasks created from it are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const { templateId } = await params;
+
+  logger.info("API request received", {
+    requestId,
+    path: `/api/templates/${templateId}`,
+    method: "DELETE",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: deleted, error } = await supabase
+      .from("task_templates")
+      .delete()
+      .eq("id", templateId)
+      .eq("user_id", user.id)
+      .select("id");
+
+    if (error) {
+      logger.error("Failed to delete template", error as Error, {
+        requestId,
+        templateId,
+      });
+      return NextResponse.json(
+        { error: "Failed to delete template" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      logger.warn("Template not found or unauthorized", { requestId, templateId });
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      templateId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
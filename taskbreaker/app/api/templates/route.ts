@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createTemplateSchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { authorizeTask } from "@/lib/task-access";
+import { buildSubtaskTree } from "@/lib/subtasks";
+import { TASK_SELECT } from "@/lib/tasks";
+import { TEMPLATE_COLUMNS, toTemplateSubtasks } from "@/lib/templates";
+import type { Json } from "@/types/database.types";
+
+// GET /api/templates - List the current user's templates by name
+export async function GET() {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/templates",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: templates, error } = await supabase
+      .from("task_templates")
+      .select(TEMPLATE_COLUMNS)
+      .eq("user_id", user.id)
+      .order("name", { ascending: true });
+
+    if (error) {
+      logger.error("Database error fetching templates", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch templates" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      templateCount: templates?.length || 0,
+    });
+
+    return NextResponse.json({ templates: templates || [] });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/templates - Save a task and its subtasks as a named template
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/templates",
+    method: "POST",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = createTemplateSchema.safeParse(body);
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { taskId, name } = result.data;
+
+    // Anyone the task is shared with can save a copy as their own template
+    const denied = await authorizeTask(supabase, taskId, "view", requestId);
+    if (denied) return denied;
+
+    const { data: task } = await supabase
+      .from("tasks")
+      .select(TASK_SELECT)
+      .eq("id", taskId)
+      .maybeSingle();
+
+    if (!task) {
+      logger.warn("Task not found or unauthorized", { requestId, taskId });
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const subtasks = toTemplateSubtasks(buildSubtaskTree(task.subtasks));
+
+    const { data: template, error } = await supabase
+      .from("task_templates")
+      .insert({
+        user_id: user.id,
+        name,
+        title: task.title,
+        description: task.description,
+        tags: task.tags,
+        subtasks: subtasks as unknown as Json,
+      })
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error("Failed to create template", error as Error, {
+        requestId,
+        taskId,
+      });
+      return NextResponse.json(
+        { error: "Failed to create template" },
+        { status: 500 }
+      );
+    }
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 201,
+      taskId,
+      templateId: template.id,
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { usageQuerySchema } from "@/lib/schemas";
+import logger from "@/lib/logger";
+import { fillUsageDays, getUsageStartDay } from "@/lib/ai";
+import type { DailyUsage } from "@/types/usage.types";
+
+// GET /api/usage - Daily totals of the current user's AI generations, newest day first
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  logger.info("API request received", {
+    requestId,
+    path: "/api/usage",
+    method: "GET",
+  });
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt", { requestId });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = usageQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      logger.warn("Validation failed", {
+        requestId,
+        errors: result.error.issues,
+      });
+      return NextResponse.json(
+        { error: result.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { days } = result.data;
+
+    const { data: rows, error } = await supabase
+      .from("ai_usage_daily")
+      .select("day, generations, prompt_tokens, completion_tokens, cost_usd")
+      .eq("user_id", user.id)
+      .gte("day", getUsageStartDay(days));
+
+    if (error) {
+      logger.error("Database error fetching AI usage", error as Error, {
+        requestId,
+      });
+      return NextResponse.json(
+        { error: "Failed to fetch usage" },
+        { status: 500 }
+      );
+    }
+
+    const usage = fillUsageDays(
+      (rows || []).map(
+        (row): DailyUsage => ({
+          day: row.day ?? "",
+          generations: Number(row.generations ?? 0),
+          promptTokens: Number(row.prompt_tokens ?? 0),
+          completionTokens: Number(row.completion_tokens ?? 0),
+          costUsd: Number(row.cost_usd ?? 0),
+        })
+      ),
+      days
+    );
+
+    logger.info("API request completed", {
+      requestId,
+      duration: Date.now() - startTime,
+      status: 200,
+      days,
+    });
+
+    return NextResponse.json({ usage });
+  } catch (error) {
+    logger.error("API request failed", error as Error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,110 @@
 "use client";
 
-import { useState, useEffect, FormEvent } from "react";
+import { useState, useEffect, useRef, useCallback, FormEvent } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import Header from "@/components/Header";
 import TaskCard from "@/components/TaskCard";
+import StreamingTaskCard from "@/components/StreamingTaskCard";
+import ArchivedTaskCard from "@/components/ArchivedTaskCard";
+import UndoToast from "@/components/UndoToast";
+import TemplatePicker from "@/components/TemplatePicker";
+import ExportMenu from "@/components/ExportMenu";
+import ImportPanel from "@/components/ImportPanel";
+import SyncStatusIndicator from "@/components/SyncStatusIndicator";
 import logger from "@/lib/logger";
+import {
+  findSubtaskLevel,
+  removeSubtaskFromTree,
+  reorderSubtaskLevel,
+  updateSubtaskInTree,
+} from "@/lib/subtasks";
+import { moveItem } from "@/lib/reorder";
+import { readSseStream } from "@/lib/sse";
+import { groupByDueDate, toDateString, type DueFilter } from "@/lib/due-dates";
+import { hasQuickWin } from "@/lib/estimates";
+import {
+  applySubtaskChange,
+  applyTaskChange,
+  type SubtaskChange,
+  type TaskChange,
+} from "@/lib/realtime";
+import {
+  applyMutationToTasks,
+  applyPendingMutations,
+  enqueueMutation,
+  getSubtaskFields,
+  loadPendingMutations,
+  savePendingMutations,
+  sendPendingMutations,
+  type PendingMutation,
+  type SyncStatus,
+} from "@/lib/mutation-queue";
+import type { TaskSort, TaskView } from "@/lib/task-list";
+import type { ShareLink, Task, TaskMember } from "@/types/task.types";
+import type { TaskTemplate } from "@/types/template.types";
+import type { AIQuota } from "@/types/quota.types";
+import {
+  PRIORITIES,
+  type AITaskResponse,
+  type ImportFormat,
+  type ImportTask,
+  type MemberRole,
+  type Priority,
+  type UpdateSubtaskInput,
+  type UpdateTaskInput,
+} from "@/lib/schemas";
+import { PRIORITY_LABELS } from "@/components/PrioritySelect";
 
-interface Subtask {
-  id: string;
-  text: string;
-  checked: boolean;
-  position: number;
+// When the daily AI quota resets, in the viewer's time zone
+function formatResetTime(resetsAt: string): string {
+  return new Date(resetsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
 }
 
-interface Task {
-  id: string;
-  title: string;
-  created_at: string;
-  subtasks: Subtask[];
+// Filters, search and sorting applied by GET /api/tasks
+interface TaskFilters {
+  view: TaskView;
+  due: DueFilter | "all";
+  priority: Priority | null;
+  tag: string | null;
+  q: string;
+  sort: TaskSort;
 }
 
+const NO_FILTERS: TaskFilters = {
+  view: "active",
+  due: "all",
+  priority: null,
+  tag: null,
+  q: "",
+  sort: "manual",
+};
+
+const SORT_OPTIONS: { value: TaskSort; label: string }[] = [
+  { value: "manual", label: "My order" },
+  { value: "created", label: "Newest first" },
+  { value: "progress", label: "Most progress" },
+  { value: "title", label: "Title A-Z" },
+];
+
+const VIEW_TABS: { value: TaskView; label: string }[] = [
+  { value: "active", label: "Tasks" },
+  { value: "shared", label: "Shared with me" },
+  { value: "archived", label: "Archive" },
+  { value: "trash", label: "Trash" },
+];
+
+const DUE_FILTER_TABS: { value: DueFilter | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "overdue", label: "Overdue" },
+  { value: "today", label: "Due today" },
+  { value: "week", label: "This week" },
+];
+
+// How long to wait before resending queued edits after a server error
+const SYNC_RETRY_MS = 15_000;
+
 export default function DashboardPage() {
   const router = useRouter();
   const supabase = createClient();
@@ -30,6 +114,42 @@ export default function DashboardPage() {
   const [creating, setCreating] = useState(false);
   const [newTask, setNewTask] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [draggedTask, setDraggedTask] = useState<string | null>(null);
+  const [filters, setFilters] = useState<TaskFilters>(NO_FILTERS);
+  const [searchInput, setSearchInput] = useState("");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [quickWinsOnly, setQuickWinsOnly] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [customizeTemplate, setCustomizeTemplate] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+  const [today] = useState(() => toDateString(new Date()));
+  const [currentUser, setCurrentUser] = useState<{ id: string; email: string | null } | null>(
+    null
+  );
+  // Last archived or trashed task, kept so the toast can put it back in place
+  const [undo, setUndo] = useState<{ task: Task; index: number; message: string } | null>(
+    null
+  );
+  const [draft, setDraft] = useState<{ title: string | null; subtasks: string[] } | null>(
+    null
+  );
+  // Bumped whenever the filters change so responses for older filters are ignored
+  const listVersion = useRef(0);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const loadMoreSentinel = useRef<HTMLDivElement>(null);
+  // Read by the realtime handlers, which stay subscribed while the filters change
+  const realtimeOptions = useRef({ view: NO_FILTERS.view, addNew: true });
+  // Subtask edits not yet saved, oldest first, and the one currently being sent
+  const pendingMutations = useRef<PendingMutation[]>([]);
+  const sendingMutationId = useRef<string | null>(null);
+  const flushingMutations = useRef(false);
+  const syncRetryTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("saved");
 
   // Check auth and fetch tasks
   useEffect(() => {
@@ -43,34 +163,363 @@ export default function DashboardPage() {
         return;
       }
 
-      await fetchTasks();
+      // Edits left unsent by an earlier visit are replayed once the user is set
+      pendingMutations.current = loadPendingMutations(localStorage, user.id);
+      setPendingCount(pendingMutations.current.length);
+      setCurrentUser({ id: user.id, email: user.email?.toLowerCase() ?? null });
+      await Promise.all([fetchTasks(), fetchTags(), fetchTemplates(), fetchQuota()]);
     };
 
     init();
   }, [supabase.auth, router]);
 
-  const fetchTasks = async () => {
+  // Merge task and subtask changes made in other tabs and devices. Realtime
+  // applies the same row policies as the API, so shared tasks stream too.
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const channel = supabase
+      .channel(`dashboard:${currentUser.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "tasks" },
+        (change: TaskChange) =>
+          setTasks((prev) =>
+            applyTaskChange(prev, change, {
+              ...realtimeOptions.current,
+              userId: currentUser.id,
+            })
+          )
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "subtasks" },
+        (change: SubtaskChange) => setTasks((prev) => applySubtaskChange(prev, change))
+      )
+      .subscribe((status, err) => {
+        if (status === "CHANNEL_ERROR") {
+          logger.warn("Realtime subscription failed", { error: err?.message });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, currentUser]);
+
+  const updatePendingMutations = useCallback(
+    (queue: PendingMutation[]) => {
+      pendingMutations.current = queue;
+      setPendingCount(queue.length);
+      if (currentUser) savePendingMutations(localStorage, currentUser.id, queue);
+    },
+    [currentUser]
+  );
+
+  // Send queued subtask edits one at a time, oldest first. Rejected edits are
+  // rolled back; if the server can't be reached the rest stay queued.
+  const flushPendingMutations = useCallback(async () => {
+    if (!currentUser || flushingMutations.current) return;
+    flushingMutations.current = true;
+    clearTimeout(syncRetryTimer.current);
+
+    try {
+      const status = await sendPendingMutations({
+        getQueue: () => pendingMutations.current,
+        setQueue: updatePendingMutations,
+        isOnline: () => navigator.onLine,
+        send: async (mutation) => {
+          // Edits made while this one is in flight are queued separately
+          sendingMutationId.current = mutation.id;
+          setSyncStatus("saving");
+
+          const response = await fetch(
+            `/api/tasks/${mutation.taskId}/subtasks/${mutation.subtaskId}`,
+            {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(mutation.fields),
+            }
+          );
+          const body = await response.json().catch(() => ({}));
+          return { ok: response.ok, status: response.status, body };
+        },
+        onRejected: (mutation, { status, body }) => {
+          logger.error("Subtask update rejected", new Error(body.error), { status });
+          setTasks((prev) => applyMutationToTasks(prev, mutation, mutation.previous, null));
+          setError(body.error || "Failed to update subtask");
+        },
+        onSaved: (mutation, { body }, rest) => {
+          // Show who checked it off, unless a newer edit to it is still waiting
+          if (
+            mutation.fields.checked === undefined ||
+            !body.subtask ||
+            rest.some((m) => m.subtaskId === mutation.subtaskId)
+          ) {
+            return;
+          }
+          const { checked_by, checked_at } = body.subtask;
+          setTasks((prev) =>
+            prev.map((task) =>
+              task.id === mutation.taskId
+                ? {
+                    ...task,
+                    subtasks: updateSubtaskInTree(task.subtasks, mutation.subtaskId, (st) => ({
+                      ...st,
+                      checked_by,
+                      checked_at,
+                    })),
+                  }
+                : task
+            )
+          );
+        },
+      });
+
+      if (status === "error") {
+        syncRetryTimer.current = setTimeout(flushPendingMutations, SYNC_RETRY_MS);
+      }
+      setSyncStatus(status);
+    } finally {
+      sendingMutationId.current = null;
+      flushingMutations.current = false;
+    }
+  }, [currentUser, updatePendingMutations]);
+
+  // Send queued edits now, and again whenever the connection comes back
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleOnline = () => flushPendingMutations();
+    const handleOffline = () => setSyncStatus("offline");
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    flushPendingMutations();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearTimeout(syncRetryTimer.current);
+    };
+  }, [currentUser, flushPendingMutations]);
+
+  // Show a subtask edit right away and queue it to be saved
+  const queueSubtaskUpdate = (taskId: string, subtaskId: string, fields: UpdateSubtaskInput) => {
+    const task = tasks.find((t) => t.id === taskId);
+    const subtask = task
+      ? findSubtaskLevel(task.subtasks, subtaskId)?.find((st) => st.id === subtaskId)
+      : undefined;
+    if (!subtask || !currentUser) return;
+
+    const mutation: PendingMutation = {
+      id: crypto.randomUUID(),
+      taskId,
+      subtaskId,
+      userId: currentUser.id,
+      fields,
+      previous: getSubtaskFields(subtask, fields),
+    };
+
+    setTasks((prev) => applyMutationToTasks(prev, mutation, fields, currentUser.id));
+    updatePendingMutations(
+      enqueueMutation(pendingMutations.current, mutation, sendingMutationId.current)
+    );
+    flushPendingMutations();
+  };
+
+  // Load the first page for the given filters, or the page after `cursor`
+  const fetchTasks = async (taskFilters: TaskFilters = NO_FILTERS, cursor?: string) => {
+    const version = cursor ? listVersion.current : ++listVersion.current;
+
     try {
-      const response = await fetch("/api/tasks");
+      // Send the local date so "today" follows the user's calendar, not the server's
+      const params = new URLSearchParams({ today: toDateString(new Date()) });
+      if (taskFilters.view !== "active") params.set("view", taskFilters.view);
+      if (taskFilters.due !== "all") params.set("due", taskFilters.due);
+      if (taskFilters.priority) params.set("priority", taskFilters.priority);
+      if (taskFilters.tag) params.set("tag", taskFilters.tag);
+      if (taskFilters.q) params.set("q", taskFilters.q);
+      if (taskFilters.sort !== "manual") params.set("sort", taskFilters.sort);
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`/api/tasks?${params}`);
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || "Failed to fetch tasks");
       }
 
-      setTasks(data.tasks || []);
+      if (version !== listVersion.current) return;
+      // Edits that haven't been saved yet still show on reloaded tasks
+      const page = applyPendingMutations(data.tasks || [], pendingMutations.current);
+      setTasks((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(data.nextCursor ?? null);
     } catch (err) {
       logger.error("Failed to fetch tasks", err as Error);
       setError("Failed to load tasks");
     } finally {
-      setLoading(false);
+      if (version === listVersion.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
-  const handleCreateTask = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!newTask.trim() || creating) return;
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinel.current;
+    if (!sentinel || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          setLoadingMore(true);
+          fetchTasks(filters, nextCursor);
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, filters]);
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch("/api/tasks/tags");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch tags");
+      }
+
+      setAllTags(data.tags || []);
+    } catch (err) {
+      // Tag chips are optional, so a failure here doesn't block the dashboard
+      logger.error("Failed to fetch tags", err as Error);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch("/api/templates");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch templates");
+      }
+
+      setTemplates(data.templates || []);
+    } catch (err) {
+      // Templates are optional, so a failure here doesn't block the dashboard
+      logger.error("Failed to fetch templates", err as Error);
+    }
+  };
+
+  const fetchQuota = async () => {
+    try {
+      const response = await fetch("/api/quota");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch AI quota");
+      }
+
+      setQuota(data.quota);
+    } catch (err) {
+      // The quota is informational; the API still enforces it
+      logger.error("Failed to fetch AI quota", err as Error);
+    }
+  };
+
+  const handleFiltersChange = (changes: Partial<TaskFilters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+    setLoading(true);
+    fetchTasks(next);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    clearTimeout(searchTimer.current);
+    // Wait for a pause in typing before searching
+    searchTimer.current = setTimeout(() => handleFiltersChange({ q: value.trim() }), 300);
+  };
 
+  const handleViewChange = (view: TaskView) => {
+    setUndo(null);
+    // Due dates and quick wins only matter for tasks still in progress
+    setQuickWinsOnly(false);
+    handleFiltersChange({ view, due: "all" });
+  };
+
+  const handleLoadMore = () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    fetchTasks(filters, nextCursor);
+  };
+
+  const isFiltered =
+    filters.due !== "all" ||
+    filters.priority !== null ||
+    filters.tag !== null ||
+    filters.q !== "";
+
+  useEffect(() => {
+    realtimeOptions.current = {
+      view: filters.view,
+      addNew: !isFiltered && filters.sort === "manual",
+    };
+  }, [filters, isFiltered]);
+
+  // Show a newly created task at the top of the unfiltered list
+  const showCreatedTask = (createdTask: Task) => {
+    setNewTask("");
+    fetchTags();
+    if (!isFiltered && filters.view === "active" && filters.sort === "manual") {
+      // The realtime insert may have listed it already
+      setTasks((prev) => [createdTask, ...prev.filter((t) => t.id !== createdTask.id)]);
+    } else {
+      // The new task may not match the filters, so show it in the full list
+      setSearchInput("");
+      handleFiltersChange(NO_FILTERS);
+    }
+  };
+
+  // Both throw so the import panel can show the error next to the content
+  const requestImport = async (format: ImportFormat, content: string, preview: boolean) => {
+    const response = await fetch("/api/tasks/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ format, content, preview }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to import tasks");
+    }
+    return data.tasks;
+  };
+
+  const handlePreviewImport = async (
+    format: ImportFormat,
+    content: string
+  ): Promise<ImportTask[]> => requestImport(format, content, true);
+
+  const handleImport = async (format: ImportFormat, content: string) => {
+    const imported: Task[] = await requestImport(format, content, false);
+
+    setShowImport(false);
+    fetchTags();
+    if (!isFiltered && filters.view === "active" && filters.sort === "manual") {
+      // Realtime inserts may have listed some of them already
+      const importedIds = new Set(imported.map((task) => task.id));
+      setTasks((prev) => [...imported, ...prev.filter((t) => !importedIds.has(t.id))]);
+    } else {
+      setSearchInput("");
+      handleFiltersChange(NO_FILTERS);
+    }
+  };
+
+  const handleCreateFromTemplate = async (templateId: string) => {
     setCreating(true);
     setError(null);
 
@@ -78,57 +527,499 @@ export default function DashboardPage() {
       const response = await fetch("/api/tasks", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ task: newTask.trim() }),
+        body: JSON.stringify({
+          templateId,
+          // The input is optional context for the copy, or what the AI adapts it to
+          ...(newTask.trim() && { task: newTask.trim() }),
+          customize: customizeTemplate,
+        }),
       });
 
       const data = await response.json();
-
       if (!response.ok) {
         throw new Error(data.error || "Failed to create task");
       }
 
-      setTasks((prev) => [data.task, ...prev]);
-      setNewTask("");
+      showCreatedTask(data.task);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create task");
     } finally {
       setCreating(false);
+      if (customizeTemplate) fetchQuota();
     }
   };
 
-  const handleSubtaskToggle = async (
-    taskId: string,
-    subtaskId: string,
-    checked: boolean
-  ) => {
+  const handleCreateTask = async (e: FormEvent) => {
+    e.preventDefault();
+    if (creating) return;
+    if (selectedTemplateId) {
+      await handleCreateFromTemplate(selectedTemplateId);
+      return;
+    }
+    if (!newTask.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    setDraft({ title: null, subtasks: [] });
+
     try {
-      const response = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
-        method: "PATCH",
+      const response = await fetch("/api/tasks", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ checked }),
+        body: JSON.stringify({ task: newTask.trim(), stream: true }),
       });
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || "Failed to update subtask");
+        throw new Error(data.error || "Failed to create task");
+      }
+
+      const outcome: { task: Task | null; error: string | null } = {
+        task: null,
+        error: null,
+      };
+
+      // Render the title and subtasks as they stream in
+      await readSseStream(response, (event, data) => {
+        const payload = data as {
+          title?: string;
+          text?: string;
+          task?: Task;
+          error?: string;
+        };
+        if (event === "title" && payload.title) {
+          const title = payload.title;
+          setDraft((prev) => prev && { ...prev, title });
+        } else if (event === "subtask" && payload.text) {
+          const text = payload.text;
+          setDraft((prev) => prev && { ...prev, subtasks: [...prev.subtasks, text] });
+        } else if (event === "done" && payload.task) {
+          outcome.task = payload.task;
+        } else if (event === "error") {
+          outcome.error = payload.error || "Failed to create task";
+        }
+      });
+
+      const createdTask = outcome.task;
+      if (!createdTask) {
+        throw new Error(outcome.error || "Failed to create task");
+      }
+
+      showCreatedTask(createdTask);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create task");
+    } finally {
+      setDraft(null);
+      setCreating(false);
+      fetchQuota();
+    }
+  };
+
+  const handleSubtaskToggle = (taskId: string, subtaskId: string, checked: boolean) =>
+    queueSubtaskUpdate(taskId, subtaskId, { checked });
+
+  const handleSubtaskBreakdown = async (taskId: string, subtaskId: string) => {
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/subtasks/${subtaskId}/breakdown`,
+        { method: "POST" }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to break down subtask");
       }
 
-      // Update local state
       setTasks((prev) =>
         prev.map((task) =>
           task.id === taskId
             ? {
                 ...task,
-                subtasks: task.subtasks.map((st) =>
-                  st.id === subtaskId ? { ...st, checked } : st
-                ),
+                subtasks: updateSubtaskInTree(task.subtasks, subtaskId, (st) => ({
+                  ...st,
+                  children: data.subtasks,
+                })),
               }
             : task
         )
       );
     } catch (err) {
-      logger.error("Failed to toggle subtask", err as Error);
-      setError("Failed to update subtask");
+      logger.error("Failed to break down subtask", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to break down subtask");
+    } finally {
+      fetchQuota();
+    }
+  };
+
+  const handleSubtaskAdd = async (taskId: string, text: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/subtasks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add subtask");
+      }
+
+      // The realtime insert for this subtask may have added it already
+      setTasks((prev) =>
+        prev.map((task) =>
+          task.id === taskId && !task.subtasks.some((st) => st.id === data.subtask.id)
+            ? { ...task, subtasks: [...task.subtasks, data.subtask] }
+            : task
+        )
+      );
+    } catch (err) {
+      logger.error("Failed to add subtask", err as Error);
+      setError("Failed to add subtask");
+    }
+  };
+
+  const handleTaskUpdate = async (taskId: string, updates: UpdateTaskInput) => {
+    const response = await fetch(`/api/tasks/${taskId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(updates),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to update task");
+    }
+
+    setTasks((prev) =>
+      prev.map((task) =>
+        // The response only carries the task's own fields, not its subtasks
+        task.id === taskId ? { ...task, ...data.task } : task
+      )
+    );
+  };
+
+  // Inline edits (due date, priority, tags) report failures in the page banner
+  const handleTaskChange = async (taskId: string, updates: UpdateTaskInput) => {
+    try {
+      await handleTaskUpdate(taskId, updates);
+      if (updates.tags) fetchTags();
+    } catch (err) {
+      logger.error("Failed to update task", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to update task");
+    }
+  };
+
+  const handleSubtaskDueDateChange = (
+    taskId: string,
+    subtaskId: string,
+    dueDate: string | null
+  ) => queueSubtaskUpdate(taskId, subtaskId, { dueDate });
+
+  const handleSubtaskRename = (taskId: string, subtaskId: string, text: string) =>
+    queueSubtaskUpdate(taskId, subtaskId, { text });
+
+  const handleSubtaskDelete = async (taskId: string, subtaskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/subtasks/${subtaskId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete subtask");
+      }
+
+      setTasks((prev) =>
+        prev.map((task) =>
+          task.id === taskId
+            ? { ...task, subtasks: removeSubtaskFromTree(task.subtasks, subtaskId) }
+            : task
+        )
+      );
+    } catch (err) {
+      logger.error("Failed to delete subtask", err as Error);
+      setError("Failed to delete subtask");
+    }
+  };
+
+  const handleSubtaskReorder = async (
+    taskId: string,
+    parentId: string | null,
+    subtaskIds: string[]
+  ) => {
+    const previousTasks = tasks;
+
+    // Show the new order right away and roll back if saving fails
+    setTasks((prev) =>
+      prev.map((task) =>
+        task.id === taskId
+          ? { ...task, subtasks: reorderSubtaskLevel(task.subtasks, parentId, subtaskIds) }
+          : task
+      )
+    );
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/subtasks/reorder`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ parentId, subtaskIds }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to reorder subtasks");
+      }
+    } catch (err) {
+      logger.error("Failed to reorder subtasks", err as Error);
+      setTasks(previousTasks);
+      setError("Failed to reorder subtasks");
+    }
+  };
+
+  const handleTaskReorder = async (fromIndex: number, toIndex: number) => {
+    // Manual order covers every task, so it can't be saved from a filtered or sorted view
+    if (isFiltered || quickWinsOnly || filters.view !== "active" || filters.sort !== "manual") {
+      return;
+    }
+
+    const reordered = moveItem(tasks, fromIndex, toIndex);
+    if (reordered === tasks) return;
+
+    const previousTasks = tasks;
+    setTasks(reordered.map((task, index) => ({ ...task, position: index })));
+
+    try {
+      const response = await fetch("/api/tasks/reorder", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskIds: reordered.map((task) => task.id) }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to reorder tasks");
+      }
+    } catch (err) {
+      logger.error("Failed to reorder tasks", err as Error);
+      setTasks(previousTasks);
+      setError("Failed to reorder tasks");
+    }
+  };
+
+  const handleTaskMove = (taskId: string, direction: -1 | 1) => {
+    const index = tasks.findIndex((task) => task.id === taskId);
+    handleTaskReorder(index, index + direction);
+  };
+
+  const handleTaskDrop = (targetId: string) => {
+    if (!draggedTask || draggedTask === targetId) return;
+
+    const fromIndex = tasks.findIndex((task) => task.id === draggedTask);
+    const toIndex = tasks.findIndex((task) => task.id === targetId);
+    setDraggedTask(null);
+    handleTaskReorder(fromIndex, toIndex);
+  };
+
+  const handleRegeneratePreview = async (
+    taskId: string,
+    instruction: string
+  ): Promise<AITaskResponse> => {
+    const response = await fetch(`/api/tasks/${taskId}/regenerate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ instruction }),
+    });
+
+    const data = await response.json();
+    fetchQuota();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to regenerate task");
+    }
+
+    return data.preview;
+  };
+
+  const handleRegenerateApply = async (taskId: string, preview: AITaskResponse) => {
+    const response = await fetch(`/api/tasks/${taskId}/regenerate`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(preview),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to apply regenerated breakdown");
+    }
+
+    // Keep the sharing details, which the regenerate route does not return
+    setTasks((prev) =>
+      prev.map((task) => (task.id === taskId ? { ...task, ...data.task } : task))
+    );
+  };
+
+  const handleSaveTemplate = async (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    const name = prompt("Name this template", task?.title)?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskId, name }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save template");
+      }
+
+      setTemplates((prev) =>
+        [...prev, data.template].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      logger.error("Failed to save template", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!confirm(`Delete the "${template?.name}" template? Tasks made from it are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+      setSelectedTemplateId(null);
+      setCustomizeTemplate(false);
+    } catch (err) {
+      logger.error("Failed to delete template", err as Error);
+      setError("Failed to delete template");
+    }
+  };
+
+  // Invite someone, or change the role of an existing member
+  const handleInviteMember = async (taskId: string, email: string, role: MemberRole) => {
+    const response = await fetch(`/api/tasks/${taskId}/members`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, role }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to share task");
+    }
+
+    const member: TaskMember = data.member;
+    setTasks((prev) =>
+      prev.map((task) => {
+        if (task.id !== taskId) return task;
+        const others = (task.members ?? []).filter((m) => m.email !== member.email);
+        return { ...task, members: [...others, member] };
+      })
+    );
+  };
+
+  // Owners remove members; members remove themselves to leave the task
+  const handleRemoveMember = async (taskId: string, email: string) => {
+    const response = await fetch(
+      `/api/tasks/${taskId}/members?email=${encodeURIComponent(email)}`,
+      { method: "DELETE" }
+    );
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || "Failed to remove member");
+    }
+
+    if (email === currentUser?.email) {
+      setTasks((prev) => prev.filter((task) => task.id !== taskId));
+      return;
+    }
+
+    setTasks((prev) =>
+      prev.map((task) =>
+        task.id === taskId
+          ? { ...task, members: (task.members ?? []).filter((m) => m.email !== email) }
+          : task
+      )
+    );
+  };
+
+  // Stable so the share panel only loads links when it opens
+  const handleListShareLinks = useCallback(async (taskId: string): Promise<ShareLink[]> => {
+    const response = await fetch(`/api/tasks/${taskId}/share-links`);
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load share links");
+    }
+
+    return data.links;
+  }, []);
+
+  const handleCreateShareLink = async (taskId: string): Promise<ShareLink> => {
+    const response = await fetch(`/api/tasks/${taskId}/share-links`, {
+      method: "POST",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to create share link");
+    }
+
+    return data.link;
+  };
+
+  const handleRevokeShareLink = async (taskId: string, linkId: string) => {
+    const response = await fetch(`/api/tasks/${taskId}/share-links/${linkId}`, {
+      method: "DELETE",
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || "Failed to revoke share link");
+    }
+  };
+
+  // Take a task out of the list and offer to undo until the toast goes away
+  const removeWithUndo = (taskId: string, message: string) => {
+    const index = tasks.findIndex((t) => t.id === taskId);
+    if (index === -1) return;
+    setUndo({ task: tasks[index], index, message });
+    setTasks((prev) => prev.filter((t) => t.id !== taskId));
+  };
+
+  const handleArchiveTask = async (taskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/archive`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to archive task");
+      }
+
+      removeWithUndo(taskId, "Task archived");
+    } catch (err) {
+      logger.error("Failed to archive task", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to archive task");
     }
   };
 
@@ -143,13 +1034,141 @@ export default function DashboardPage() {
         throw new Error(data.error || "Failed to delete task");
       }
 
-      setTasks((prev) => prev.filter((t) => t.id !== taskId));
+      removeWithUndo(taskId, "Task moved to trash");
+      fetchTags();
     } catch (err) {
       logger.error("Failed to delete task", err as Error);
       setError("Failed to delete task");
     }
   };
 
+  // Bring a task back from the archive or trash; returns the restored task
+  const restoreTask = async (taskId: string): Promise<Task> => {
+    const response = await fetch(`/api/tasks/${taskId}/restore`, {
+      method: "POST",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to restore task");
+    }
+
+    fetchTags();
+    return data.task;
+  };
+
+  const handleUndo = async () => {
+    if (!undo) return;
+    const { task, index } = undo;
+    setUndo(null);
+
+    try {
+      const restored = await restoreTask(task.id);
+      setTasks((prev) => [...prev.slice(0, index), restored, ...prev.slice(index)]);
+    } catch (err) {
+      logger.error("Failed to undo", err as Error);
+      setError("Failed to restore task");
+    }
+  };
+
+  const dismissUndo = useCallback(() => setUndo(null), []);
+
+  const handleRestoreTask = async (taskId: string) => {
+    try {
+      await restoreTask(taskId);
+      setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    } catch (err) {
+      logger.error("Failed to restore task", err as Error);
+      setError("Failed to restore task");
+    }
+  };
+
+  const handleDeleteForever = async (taskId: string) => {
+    if (!confirm("Delete this task forever? This can't be undone.")) return;
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}?permanent=true`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete task");
+      }
+
+      setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    } catch (err) {
+      logger.error("Failed to delete task permanently", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to delete task");
+    }
+  };
+
+  // Own and shared tasks are worked on; archived and trashed ones can only be restored
+  const showsTaskCards = filters.view === "active" || filters.view === "shared";
+
+  const renderTask = (task: Task) =>
+    !showsTaskCards ? (
+      <ArchivedTaskCard
+        key={task.id}
+        task={task}
+        onRestore={handleRestoreTask}
+        onDeleteForever={filters.view === "trash" ? handleDeleteForever : undefined}
+      />
+    ) : (
+      <div
+        key={task.id}
+        onDragOver={(e) => draggedTask && e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleTaskDrop(task.id);
+        }}
+        className={draggedTask === task.id ? "opacity-40" : ""}
+      >
+        <TaskCard
+          task={task}
+          today={today}
+          currentUserId={currentUser?.id ?? null}
+          currentEmail={currentUser?.email ?? null}
+          onSubtaskToggle={handleSubtaskToggle}
+          onSubtaskBreakdown={handleSubtaskBreakdown}
+          onSubtaskAdd={handleSubtaskAdd}
+          onTaskUpdate={handleTaskUpdate}
+          onTaskChange={handleTaskChange}
+          onSubtaskRename={handleSubtaskRename}
+          onSubtaskDelete={handleSubtaskDelete}
+          onSubtaskDueDateChange={handleSubtaskDueDateChange}
+          onSubtaskReorder={handleSubtaskReorder}
+          onTaskDragStart={setDraggedTask}
+          onTaskDragEnd={() => setDraggedTask(null)}
+          onTaskMove={handleTaskMove}
+          onRegeneratePreview={handleRegeneratePreview}
+          onRegenerateApply={handleRegenerateApply}
+          onSaveTemplate={handleSaveTemplate}
+          onInviteMember={handleInviteMember}
+          onRemoveMember={handleRemoveMember}
+          onListShareLinks={handleListShareLinks}
+          onCreateShareLink={handleCreateShareLink}
+          onRevokeShareLink={handleRevokeShareLink}
+          onArchive={handleArchiveTask}
+          onDelete={handleDeleteTask}
+        />
+      </div>
+    );
+
+  // Quick wins are filtered here rather than by the API since effort is per subtask
+  const visibleTasks = quickWinsOnly
+    ? tasks.filter((task) => hasQuickWin(task.subtasks))
+    : tasks;
+
+  // Group by due date only in the default view, and only once dates are in use
+  const taskSections =
+    showsTaskCards &&
+    filters.due === "all" &&
+    filters.sort === "manual" &&
+    visibleTasks.some((task) => task.due_date)
+      ? groupByDueDate(visibleTasks, today)
+      : null;
+
   return (
     <>
       <Header />
@@ -171,7 +1190,13 @@ export default function DashboardPage() {
                 type="text"
                 value={newTask}
                 onChange={(e) => setNewTask(e.target.value)}
-                placeholder="Enter a task to break down..."
+                placeholder={
+                  selectedTemplateId
+                    ? customizeTemplate
+                      ? "Describe the task to adapt the template to..."
+                      : "Add details for this task (optional)..."
+                    : "Enter a task to break down..."
+                }
                 maxLength={200}
                 className="w-full px-5 py-4 bg-slate-800/50 border border-slate-700 rounded-xl text-slate-100 placeholder-slate-500 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all text-lg pr-20"
                 disabled={creating}
@@ -180,20 +1205,52 @@ export default function DashboardPage() {
                 {newTask.length}/200
               </span>
             </div>
+            <TemplatePicker
+              templates={templates}
+              selectedId={selectedTemplateId}
+              customize={customizeTemplate}
+              disabled={creating}
+              onSelect={(templateId) => {
+                setSelectedTemplateId(templateId);
+                if (!templateId) setCustomizeTemplate(false);
+              }}
+              onCustomizeChange={setCustomizeTemplate}
+              onDelete={handleDeleteTemplate}
+            />
             <button
               type="submit"
-              disabled={!newTask.trim() || creating}
+              disabled={
+                (selectedTemplateId ? customizeTemplate && !newTask.trim() : !newTask.trim()) ||
+                creating
+              }
               className="w-full mt-4 px-6 py-4 bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 disabled:text-slate-500 text-slate-900 font-semibold rounded-xl transition-all duration-200 flex items-center justify-center gap-3 text-lg disabled:cursor-not-allowed"
             >
               {creating ? (
                 <>
                   <span className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin" />
-                  Breaking down...
+                  {selectedTemplateId ? "Creating..." : "Breaking down..."}
                 </>
+              ) : selectedTemplateId ? (
+                "Create from template"
               ) : (
                 "Break it down"
               )}
             </button>
+            {quota && (
+              <p
+                className={`mt-2 text-xs text-center ${
+                  quota.remaining === 0 ? "text-red-400" : "text-slate-500"
+                }`}
+              >
+                {quota.remaining === 0
+                  ? `No AI generations left today. More at ${formatResetTime(quota.resetsAt)}.`
+                  : `${quota.remaining} of ${quota.limit} AI generations left today`}
+                {" · "}
+                <Link href="/dashboard/usage" className="underline hover:text-slate-300">
+                  View usage
+                </Link>
+              </p>
+            )}
           </form>
 
           {/* Error message */}
@@ -209,12 +1266,165 @@ export default function DashboardPage() {
             </div>
           )}
 
+          {draft && (
+            <div className="mb-4">
+              <StreamingTaskCard title={draft.title} subtasks={draft.subtasks} />
+            </div>
+          )}
+
+          <SyncStatusIndicator
+            status={syncStatus}
+            pendingCount={pendingCount}
+            onRetry={flushPendingMutations}
+          />
+
+          {/* Active, archived and trashed tasks */}
+          <div
+            className="flex gap-1 mb-4 p-1 bg-slate-800/50 rounded-lg"
+            role="tablist"
+            aria-label="Task views"
+          >
+            {VIEW_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                role="tab"
+                aria-selected={filters.view === tab.value}
+                onClick={() => handleViewChange(tab.value)}
+                className={`flex-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  filters.view === tab.value
+                    ? "bg-slate-700 text-slate-100"
+                    : "text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Search and sort */}
+          <div className="flex gap-3 mb-4">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              placeholder="Search tasks and subtasks..."
+              maxLength={200}
+              aria-label="Search tasks"
+              className="flex-1 px-4 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+            />
+            <select
+              value={filters.sort}
+              onChange={(e) => handleFiltersChange({ sort: e.target.value as TaskSort })}
+              aria-label="Sort tasks"
+              className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <ExportMenu
+              label="Export all tasks"
+              className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-300 hover:text-slate-100 transition-colors"
+            >
+              Export
+            </ExportMenu>
+            <button
+              onClick={() => setShowImport((open) => !open)}
+              aria-expanded={showImport}
+              className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-300 hover:text-slate-100 transition-colors"
+            >
+              Import
+            </button>
+          </div>
+
+          {showImport && (
+            <ImportPanel
+              today={today}
+              onPreview={handlePreviewImport}
+              onImport={handleImport}
+              onClose={() => setShowImport(false)}
+            />
+          )}
+
+          {/* Due date filter */}
+          {showsTaskCards && (
+            <div className="flex gap-2 mb-6" role="tablist" aria-label="Filter by due date">
+              {DUE_FILTER_TABS.map((tab) => (
+                <button
+                  key={tab.value}
+                  role="tab"
+                  aria-selected={filters.due === tab.value}
+                  onClick={() => handleFiltersChange({ due: tab.value })}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    filters.due === tab.value
+                      ? "bg-slate-700 text-slate-100"
+                      : "text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+              <button
+                aria-pressed={quickWinsOnly}
+                onClick={() => setQuickWinsOnly((on) => !on)}
+                className={`ml-auto px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  quickWinsOnly
+                    ? "bg-emerald-900/40 text-emerald-300"
+                    : "text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+                }`}
+                title="Only show tasks with quick wins left"
+              >
+                Quick wins
+              </button>
+            </div>
+          )}
+
+          {/* Priority and tag filters */}
+          <div
+            className={`flex flex-wrap gap-2 mb-6 ${showsTaskCards ? "-mt-3" : ""}`}
+          >
+            {PRIORITIES.map((priority) => (
+              <button
+                key={priority}
+                aria-pressed={filters.priority === priority}
+                onClick={() =>
+                  handleFiltersChange({
+                    priority: filters.priority === priority ? null : priority,
+                  })
+                }
+                className={`px-2.5 py-1 text-xs rounded-full transition-colors ${
+                  filters.priority === priority
+                    ? "bg-amber-500 text-slate-900"
+                    : "bg-slate-800 text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {PRIORITY_LABELS[priority]}
+              </button>
+            ))}
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                aria-pressed={filters.tag === tag}
+                onClick={() => handleFiltersChange({ tag: filters.tag === tag ? null : tag })}
+                className={`px-2.5 py-1 text-xs rounded-full transition-colors ${
+                  filters.tag === tag
+                    ? "bg-amber-500 text-slate-900"
+                    : "bg-slate-800 text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+
           {/* Tasks list */}
           {loading ? (
             <div className="flex items-center justify-center py-12">
               <span className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
             </div>
-          ) : tasks.length === 0 ? (
+          ) : visibleTasks.length === 0 && !draft ? (
             <div className="text-center py-12">
               <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-slate-800 flex items-center justify-center">
                 <svg
@@ -231,25 +1441,78 @@ export default function DashboardPage() {
                   />
                 </svg>
               </div>
-              <p className="text-slate-400 text-lg">No tasks yet</p>
-              <p className="text-slate-500 text-sm mt-1">
-                Create your first task above to get started
-              </p>
+              {isFiltered || quickWinsOnly ? (
+                <p className="text-slate-400 text-lg">No matching tasks</p>
+              ) : filters.view === "archived" ? (
+                <>
+                  <p className="text-slate-400 text-lg">Nothing archived yet</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    Archive a task once all of its subtasks are done
+                  </p>
+                </>
+              ) : filters.view === "shared" ? (
+                <>
+                  <p className="text-slate-400 text-lg">Nothing shared with you yet</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    Tasks appear here when someone invites your email
+                  </p>
+                </>
+              ) : filters.view === "trash" ? (
+                <>
+                  <p className="text-slate-400 text-lg">Trash is empty</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    Deleted tasks stay here for 30 days
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="text-slate-400 text-lg">No tasks yet</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    Create your first task above to get started
+                  </p>
+                </>
+              )}
             </div>
-          ) : (
-            <div className="space-y-4">
-              {tasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onSubtaskToggle={handleSubtaskToggle}
-                  onDelete={handleDeleteTask}
-                />
+          ) : taskSections ? (
+            <div className="space-y-8">
+              {taskSections.map((section) => (
+                <section key={section.status}>
+                  <h2
+                    className={`text-sm font-medium uppercase tracking-wide mb-3 ${
+                      section.status === "overdue" ? "text-red-400" : "text-slate-500"
+                    }`}
+                  >
+                    {section.label}
+                    <span className="ml-2 text-slate-600">{section.items.length}</span>
+                  </h2>
+                  <div className="space-y-4">{section.items.map(renderTask)}</div>
+                </section>
               ))}
             </div>
+          ) : (
+            <div className="space-y-4">{visibleTasks.map(renderTask)}</div>
+          )}
+
+          {/* Infinite scroll: the next page loads when this comes into view */}
+          {!loading && nextCursor && (
+            <div ref={loadMoreSentinel} className="flex justify-center py-6">
+              {loadingMore ? (
+                <span className="w-6 h-6 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <button
+                  onClick={handleLoadMore}
+                  className="text-sm text-slate-500 hover:text-slate-300"
+                >
+                  Load more
+                </button>
+              )}
+            </div>
           )}
         </div>
       </main>
+      {undo && (
+        <UndoToast message={undo.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+      )}
     </>
   );
 }
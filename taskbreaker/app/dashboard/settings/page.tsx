@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import Link from "next/link";
+import Header from "@/components/Header";
+import logger from "@/lib/logger";
+import {
+  MAX_SUBTASK_COUNT,
+  MIN_SUBTASK_COUNT,
+  TONES,
+  type BreakdownPreferences,
+  type Tone,
+} from "@/lib/schemas";
+
+const TONE_LABELS: Record<Tone, string> = {
+  friendly: "Friendly",
+  professional: "Professional",
+  casual: "Casual",
+  direct: "Direct",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-amber-500";
+
+// How the AI breaks down the signed-in user's new tasks
+export default function SettingsPage() {
+  const [preferences, setPreferences] = useState<BreakdownPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch preferences");
+        }
+
+        setPreferences(data.preferences);
+      } catch (err) {
+        logger.error("Failed to fetch preferences", err as Error);
+        setError(err instanceof Error ? err.message : "Failed to fetch preferences");
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const update = (changes: Partial<BreakdownPreferences>) => {
+    setPreferences((current) => (current ? { ...current, ...changes } : current));
+    setSaved(false);
+  };
+
+  const savePreferences = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save preferences");
+      }
+
+      setPreferences(data.preferences);
+      setSaved(true);
+    } catch (err) {
+      logger.error("Failed to save preferences", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to save preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const counts = Array.from(
+    { length: MAX_SUBTASK_COUNT - MIN_SUBTASK_COUNT + 1 },
+    (_, index) => MIN_SUBTASK_COUNT + index
+  );
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-20 pb-12 px-6">
+        <div className="max-w-xl mx-auto">
+          <div className="mb-8">
+            <Link href="/dashboard" className="text-sm text-slate-400 hover:text-slate-200">
+              ← Back to tasks
+            </Link>
+            <h1 className="text-3xl font-bold text-amber-400 tracking-tight mt-2">
+              Breakdown settings
+            </h1>
+            <p className="text-sm text-slate-400 mt-2">
+              How the AI breaks down new tasks, adapts templates and regenerates breakdowns for you.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/30 border border-red-800 rounded-xl p-4 mb-6">
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          {!preferences && !error && (
+            <div className="flex justify-center py-12">
+              <span className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+
+          {preferences && (
+            <form
+              onSubmit={savePreferences}
+              className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 space-y-5"
+            >
+              <fieldset>
+                <legend className="text-sm font-medium text-slate-300 mb-2">
+                  Number of subtasks
+                </legend>
+                <div className="flex items-center gap-3 text-sm text-slate-400">
+                  <select
+                    value={preferences.minSubtasks}
+                    onChange={(e) => update({ minSubtasks: Number(e.target.value) })}
+                    aria-label="Fewest subtasks"
+                    className={inputClassName}
+                  >
+                    {counts.map((count) => (
+                      <option key={count} value={count}>
+                        {count}
+                      </option>
+                    ))}
+                  </select>
+                  <span>to</span>
+                  <select
+                    value={preferences.maxSubtasks}
+                    onChange={(e) => update({ maxSubtasks: Number(e.target.value) })}
+                    aria-label="Most subtasks"
+                    className={inputClassName}
+                  >
+                    {counts.map((count) => (
+                      <option key={count} value={count}>
+                        {count}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  Fewer for coarse steps, more for fine-grained ones.
+                </p>
+              </fieldset>
+
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-300 mb-2">Tone</span>
+                <select
+                  value={preferences.tone}
+                  onChange={(e) => update({ tone: e.target.value as Tone })}
+                  className={inputClassName}
+                >
+                  {TONES.map((tone) => (
+                    <option key={tone} value={tone}>
+                      {TONE_LABELS[tone]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-300 mb-2">Language</span>
+                <input
+                  type="text"
+                  value={preferences.language}
+                  onChange={(e) => update({ language: e.target.value })}
+                  maxLength={40}
+                  placeholder="Same as the task"
+                  className={inputClassName}
+                />
+              </label>
+
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-300 mb-2">
+                  About you
+                </span>
+                <textarea
+                  value={preferences.context}
+                  onChange={(e) => update({ context: e.target.value })}
+                  maxLength={300}
+                  rows={3}
+                  placeholder="e.g. I'm a software engineer and a parent of two"
+                  className={`${inputClassName} resize-none`}
+                />
+                <span className="block text-xs text-slate-500 mt-1">
+                  Sent to the AI with each breakdown, so leave out anything private.
+                </span>
+              </label>
+
+              <div className="flex items-center gap-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-5 py-2 bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 disabled:text-slate-500 text-slate-900 font-medium rounded-lg transition-colors"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+                {saved && <span className="text-sm text-emerald-400">Saved</span>}
+              </div>
+            </form>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Header from "@/components/Header";
+import logger from "@/lib/logger";
+import type { DailyUsage } from "@/types/usage.types";
+
+const RANGES = [7, 30, 90] as const;
+
+const formatCost = (costUsd: number) =>
+  costUsd.toLocaleString(undefined, {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4,
+  });
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+// Daily totals of the signed-in user's AI generations
+export default function UsagePage() {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(30);
+  const [usage, setUsage] = useState<DailyUsage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const response = await fetch(`/api/usage?days=${days}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch usage");
+        }
+
+        setUsage(data.usage);
+        setError(null);
+      } catch (err) {
+        logger.error("Failed to fetch usage", err as Error);
+        setError(err instanceof Error ? err.message : "Failed to fetch usage");
+      }
+    };
+
+    fetchUsage();
+  }, [days]);
+
+  const totals = (usage || []).reduce(
+    (sum, day) => ({
+      generations: sum.generations + day.generations,
+      tokens: sum.tokens + day.promptTokens + day.completionTokens,
+      costUsd: sum.costUsd + day.costUsd,
+    }),
+    { generations: 0, tokens: 0, costUsd: 0 }
+  );
+  const busiest = Math.max(1, ...(usage || []).map((day) => day.generations));
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-20 pb-12 px-6">
+        <div className="max-w-3xl mx-auto">
+          <div className="mb-8 flex items-end justify-between gap-4">
+            <div>
+              <Link href="/dashboard" className="text-sm text-slate-400 hover:text-slate-200">
+                ← Back to tasks
+              </Link>
+              <h1 className="text-3xl font-bold text-amber-400 tracking-tight mt-2">AI usage</h1>
+            </div>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value) as (typeof RANGES)[number])}
+              aria-label="Date range"
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-amber-500"
+            >
+              {RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} days
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/30 border border-red-800 rounded-xl p-4 mb-6">
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          {!usage && !error && (
+            <div className="flex justify-center py-12">
+              <span className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+
+          {usage && (
+            <>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                {[
+                  { label: "Generations", value: totals.generations.toLocaleString() },
+                  { label: "Tokens", value: totals.tokens.toLocaleString() },
+                  { label: "Estimated cost", value: formatCost(totals.costUsd) },
+                ].map((stat) => (
+                  <div
+                    key={stat.label}
+                    className="bg-slate-800/50 border border-slate-700 rounded-xl p-4"
+                  >
+                    <p className="text-xs text-slate-500 uppercase tracking-wider">{stat.label}</p>
+                    <p className="text-2xl font-semibold text-slate-100 mt-1">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                      <th className="px-4 py-3 font-medium">Day</th>
+                      <th className="px-4 py-3 font-medium">Generations</th>
+                      <th className="px-4 py-3 font-medium text-right">Tokens</th>
+                      <th className="px-4 py-3 font-medium text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.map((day) => (
+                      <tr key={day.day} className="border-t border-slate-700/50 text-slate-300">
+                        <td className="px-4 py-2 whitespace-nowrap">{formatDay(day.day)}</td>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center gap-3">
+                            <span className="w-8 tabular-nums">{day.generations}</span>
+                            <div className="flex-1 h-2 bg-slate-700/50 rounded-full">
+                              <div
+                                className="h-2 bg-amber-500 rounded-full"
+                                style={{ width: `${(day.generations / busiest) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums">
+                          {(day.promptTokens + day.completionTokens).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums">
+                          {formatCost(day.costUsd)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, FormEvent, useEffect } from "react";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import Header from "@/components/Header";
+import { readSseStream } from "@/lib/sse";
 
 interface SubtaskItem {
   text: string;
@@ -29,8 +30,8 @@ export default function Home() {
     checkAuth();
   }, [supabase.auth]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+  // `refresh` asks for a new breakdown instead of a recently cached one
+  const breakDownTask = async (refresh: boolean) => {
     if (!task.trim() || loading) return;
 
     setLoading(true);
@@ -41,18 +42,40 @@ export default function Home() {
       const response = await fetch("/api/breakdown", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ task: task.trim() }),
+        body: JSON.stringify({ task: task.trim(), stream: true, refresh }),
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || "Something went wrong");
       }
 
-      setSubtasks(
-        data.subtasks.map((text: string) => ({ text, checked: false }))
-      );
+      const outcome: { finished: boolean; error: string | null } = {
+        finished: false,
+        error: null,
+      };
+
+      // Show each subtask as soon as it has been parsed from the stream
+      await readSseStream(response, (event, data) => {
+        const payload = data as { text?: string; subtasks?: string[]; error?: string };
+        if (event === "subtask" && payload.text) {
+          const text = payload.text;
+          setSubtasks((prev) => [...prev, { text, checked: false }]);
+        } else if (event === "done" && payload.subtasks) {
+          const finalSubtasks = payload.subtasks;
+          outcome.finished = true;
+          setSubtasks((prev) =>
+            finalSubtasks.map((text, i) => ({ text, checked: prev[i]?.checked ?? false }))
+          );
+        } else if (event === "error") {
+          outcome.error = payload.error || "Something went wrong";
+        }
+      });
+
+      if (!outcome.finished) {
+        setSubtasks([]);
+        throw new Error(outcome.error || "Something went wrong");
+      }
     } catch (err) {
       setError(
         err instanceof Error
@@ -64,6 +87,11 @@ export default function Home() {
     }
   };
 
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    breakDownTask(false);
+  };
+
   const toggleSubtask = (index: number) => {
     setSubtasks((prev) =>
       prev.map((item, i) =>
@@ -74,7 +102,7 @@ export default function Home() {
 
   const handleRetry = () => {
     setError(null);
-    handleSubmit({ preventDefault: () => {} } as FormEvent);
+    breakDownTask(false);
   };
 
   return (
@@ -162,14 +190,24 @@ export default function Home() {
                 <h2 className="text-slate-300 font-medium text-sm uppercase tracking-wider">
                   Subtasks
                 </h2>
-                {isAuthenticated === false && (
-                  <Link
-                    href="/signup"
-                    className="text-xs text-amber-400 hover:text-amber-300"
+                <div className="flex items-center gap-4">
+                  <button
+                    type="button"
+                    onClick={() => breakDownTask(true)}
+                    disabled={loading}
+                    className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50"
                   >
-                    Sign up to save
-                  </Link>
-                )}
+                    Regenerate
+                  </button>
+                  {isAuthenticated === false && (
+                    <Link
+                      href="/signup"
+                      className="text-xs text-amber-400 hover:text-amber-300"
+                    >
+                      Sign up to save
+                    </Link>
+                  )}
+                </div>
               </div>
               <ul className="space-y-3">
                 {subtasks.map((item, index) => (
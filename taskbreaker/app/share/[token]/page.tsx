@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import SharedTaskCard from "@/components/SharedTaskCard";
+import logger from "@/lib/logger";
+import { toSharedTask } from "@/lib/share-links";
+import { toDateString } from "@/lib/due-dates";
+
+// Keep shared breakdowns out of search results; the link is the access control
+export const metadata: Metadata = {
+  title: "Shared task - TaskBreaker",
+  robots: { index: false, follow: false },
+};
+
+// Public, read-only page for a task shared by link. The middleware skips this
+// route, so visitors don't need an account.
+export default async function SharedTaskPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("get_shared_task", { p_token: token });
+
+  if (error) {
+    logger.error("Failed to load shared task", error as Error);
+  }
+
+  // Revoked links, trashed tasks and errors all look the same to visitors
+  const task = error ? null : toSharedTask(data);
+  if (!task) notFound();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-12 px-6">
+      <div className="max-w-3xl mx-auto">
+        <SharedTaskCard task={task} today={toDateString(new Date())} />
+        <p className="text-center text-sm text-slate-500 mt-6">
+          Broken down with{" "}
+          <Link href="/" className="text-amber-400 hover:text-amber-300">
+            TaskBreaker
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import type { Task } from "@/types/task.types";
+import { getSubtaskProgress } from "@/lib/subtasks";
+import { getDaysUntilPurge } from "@/lib/task-list";
+
+interface ArchivedTaskCardProps {
+  task: Task;
+  onRestore: (taskId: string) => Promise<void>;
+  // Only passed in the trash view
+  onDeleteForever?: (taskId: string) => Promise<void>;
+}
+
+// Read-only card for the archive and trash views
+export default function ArchivedTaskCard({
+  task,
+  onRestore,
+  onDeleteForever,
+}: ArchivedTaskCardProps) {
+  const [busy, setBusy] = useState(false);
+
+  const { completed, total } = getSubtaskProgress(task.subtasks);
+
+  const run = async (action: (taskId: string) => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action(task.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const status = task.deleted_at
+    ? (() => {
+        const days = getDaysUntilPurge(task.deleted_at, new Date());
+        return days === 0
+          ? "Deleted soon"
+          : `Deleted forever in ${days} day${days === 1 ? "" : "s"}`;
+      })()
+    : task.archived_at
+      ? `Archived ${new Date(task.archived_at).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+        })}`
+      : null;
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700/60 rounded-xl p-5 flex items-center gap-4">
+      <div className="flex-1 min-w-0">
+        <h3 className="text-base font-medium text-slate-300 truncate">{task.title}</h3>
+        <p className="text-sm text-slate-500 mt-1">
+          {completed}/{total} completed
+          {status && <span className="ml-3">{status}</span>}
+        </p>
+      </div>
+      <button
+        onClick={() => run(onRestore)}
+        disabled={busy}
+        className="px-3 py-1.5 text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+      >
+        Restore
+      </button>
+      {onDeleteForever && (
+        <button
+          onClick={() => run(onDeleteForever)}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm text-red-400 hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Delete forever
+        </button>
+      )}
+    </div>
+  );
+}
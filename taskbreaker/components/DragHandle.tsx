@@ -0,0 +1,52 @@
+"use client";
+
+import type { DragEvent, KeyboardEvent } from "react";
+
+interface DragHandleProps {
+  label: string;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  // Keyboard reordering: -1 moves up, 1 moves down
+  onMove: (direction: -1 | 1) => void;
+}
+
+export default function DragHandle({ label, onDragStart, onDragEnd, onMove }: DragHandleProps) {
+  const handleDragStart = (e: DragEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    // Firefox only starts a drag when data is set
+    e.dataTransfer.setData("text/plain", "");
+    onDragStart();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      e.stopPropagation();
+      onMove(e.key === "ArrowUp" ? -1 : 1);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={`${label}. Use the up and down arrow keys to reorder.`}
+      title="Drag to reorder"
+      className="mt-0.5 text-slate-600 hover:text-slate-400 focus:text-amber-400 focus:outline-none cursor-grab active:cursor-grabbing flex-shrink-0"
+    >
+      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+        <circle cx="9" cy="6" r="1.5" />
+        <circle cx="15" cy="6" r="1.5" />
+        <circle cx="9" cy="12" r="1.5" />
+        <circle cx="15" cy="12" r="1.5" />
+        <circle cx="9" cy="18" r="1.5" />
+        <circle cx="15" cy="18" r="1.5" />
+      </svg>
+    </button>
+  );
+}
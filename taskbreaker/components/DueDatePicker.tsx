@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { formatDueDate, getDueStatus } from "@/lib/due-dates";
+
+interface DueDatePickerProps {
+  dueDate: string | null;
+  today: string;
+  // Completed items are never shown as overdue
+  complete: boolean;
+  // Shown as a plain label for people who can only view the task
+  disabled?: boolean;
+  onChange: (dueDate: string | null) => Promise<void> | void;
+}
+
+export default function DueDatePicker({
+  dueDate,
+  today,
+  complete,
+  disabled = false,
+  onChange,
+}: DueDatePickerProps) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const status = getDueStatus(dueDate, today);
+
+  const handleChange = (value: string) => {
+    setIsEditing(false);
+    if ((value || null) === dueDate) return;
+    onChange(value || null);
+  };
+
+  if (isEditing) {
+    return (
+      <span
+        onClick={(e) => e.stopPropagation()}
+        className="inline-flex items-center gap-1"
+      >
+        <input
+          type="date"
+          defaultValue={dueDate ?? ""}
+          onChange={(e) => handleChange(e.target.value)}
+          onBlur={() => setIsEditing(false)}
+          onKeyDown={(e) => e.key === "Escape" && setIsEditing(false)}
+          autoFocus
+          aria-label="Due date"
+          className="px-2 py-0.5 bg-slate-900/50 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+        />
+        {dueDate && (
+          <button
+            // Fire before the input's blur closes the editor
+            onMouseDown={(e) => {
+              e.preventDefault();
+              handleChange("");
+            }}
+            className="text-xs text-slate-500 hover:text-red-400"
+            title="Clear due date"
+          >
+            Clear
+          </button>
+        )}
+      </span>
+    );
+  }
+
+  if (!dueDate) {
+    if (disabled) return null;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsEditing(true);
+        }}
+        className="text-xs text-slate-500 hover:text-slate-200"
+        title="Set a due date"
+      >
+        Due date
+      </button>
+    );
+  }
+
+  const tone = complete
+    ? "text-slate-500 bg-slate-700/30"
+    : status === "overdue"
+      ? "text-red-300 bg-red-900/40 ring-1 ring-red-800"
+      : status === "today"
+        ? "text-amber-300 bg-amber-900/30"
+        : "text-slate-300 bg-slate-700/50";
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        setIsEditing(true);
+      }}
+      disabled={disabled}
+      className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors flex-shrink-0 ${tone}`}
+      title={disabled ? undefined : "Change due date"}
+    >
+      {status === "overdue" && !complete ? "Overdue · " : "Due "}
+      {formatDueDate(dueDate, today)}
+    </button>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/schemas";
+
+interface ExportMenuProps {
+  // Exports a single task when set, otherwise every task outside the trash
+  taskId?: string;
+  // Leave out formats that would be empty, e.g. calendars without due dates
+  formats?: readonly ExportFormat[];
+  label: string;
+  className: string;
+  children: ReactNode;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown checklist",
+  json: "JSON",
+  csv: "CSV (one row per subtask)",
+  ics: "Calendar (.ics)",
+};
+
+// Download links for GET /api/tasks/export; the browser saves the response
+export default function ExportMenu({
+  taskId,
+  formats = EXPORT_FORMATS,
+  label,
+  className,
+  children,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const getHref = (format: ExportFormat) =>
+    `/api/tasks/export?${new URLSearchParams({ format, ...(taskId && { taskId }) })}`;
+
+  return (
+    <div
+      className="relative"
+      onKeyDown={(e) => e.key === "Escape" && setIsOpen(false)}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        className={className}
+        title={label}
+      >
+        {children}
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-10 mt-1 w-56 py-1 bg-slate-800 border border-slate-700 rounded-lg shadow-lg animate-fade-in"
+        >
+          {formats.map((format) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={getHref(format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-3 py-2 text-sm text-slate-300 hover:bg-slate-700/60 hover:text-slate-100"
+            >
+              {FORMAT_LABELS[format]}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -59,6 +59,12 @@ export default function Header() {
               >
                 Dashboard
               </Link>
+              <Link
+                href="/dashboard/settings"
+                className="text-slate-300 hover:text-white transition-colors"
+              >
+                Settings
+              </Link>
               <button
                 onClick={handleSignOut}
                 className="px-4 py-2 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors"
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import {
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportSubtask,
+  type ImportTask,
+} from "@/lib/schemas";
+import { formatDueDate } from "@/lib/due-dates";
+import { PRIORITY_LABELS } from "@/components/PrioritySelect";
+
+interface ImportPanelProps {
+  today: string;
+  // Both throw with the server's message so it can be shown next to the content
+  onPreview: (format: ImportFormat, content: string) => Promise<ImportTask[]>;
+  onImport: (format: ImportFormat, content: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  markdown: "Markdown checklist",
+  json: "JSON export",
+};
+
+const PLACEHOLDERS: Record<ImportFormat, string> = {
+  markdown: [
+    "# Plan the offsite",
+    "- [ ] Book a venue",
+    "  - [x] Shortlist options",
+    "- [ ] Invite the team",
+  ].join("\n"),
+  json: '{ "tasks": [{ "title": "Plan the offsite", "subtasks": [] }] }',
+};
+
+function PreviewSubtasks({ subtasks, today }: { subtasks: ImportSubtask[]; today: string }) {
+  return (
+    <ul className="space-y-1">
+      {subtasks.map((subtask, index) => (
+        <li key={index}>
+          <div className="flex items-start gap-2 text-sm">
+            <span className={subtask.checked ? "text-amber-400" : "text-slate-500"}>
+              {subtask.checked ? "☑" : "☐"}
+            </span>
+            <span
+              className={`flex-1 ${
+                subtask.checked ? "text-slate-500 line-through" : "text-slate-300"
+              }`}
+            >
+              {subtask.text}
+            </span>
+            {subtask.due_date && (
+              <span className="text-xs text-slate-500">
+                Due {formatDueDate(subtask.due_date, today)}
+              </span>
+            )}
+          </div>
+          {subtask.children.length > 0 && (
+            <div className="ml-5 mt-1">
+              <PreviewSubtasks subtasks={subtask.children} today={today} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Paste or upload a checklist, check the parsed tasks, then create them
+export default function ImportPanel({ today, onPreview, onImport, onClose }: ImportPanelProps) {
+  const [format, setFormat] = useState<ImportFormat>("markdown");
+  const [content, setContent] = useState("");
+  const [preview, setPreview] = useState<ImportTask[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    if (loading) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import tasks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "markdown");
+    setContent(await file.text());
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      setPreview(await onPreview(format, content));
+    });
+
+  const handleImport = () => run(() => onImport(format, content));
+
+  return (
+    <div className="mb-6 p-4 bg-slate-800/50 border border-slate-700 rounded-xl animate-fade-in">
+      {preview ? (
+        <>
+          <p className="text-sm text-slate-400 mb-3">
+            {preview.length === 1 ? "1 task" : `${preview.length} tasks`} will be created:
+          </p>
+          <ul className="space-y-4 max-h-96 overflow-y-auto">
+            {preview.map((task, index) => (
+              <li key={index}>
+                <p className="text-slate-100 font-medium">{task.title}</p>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {[
+                    task.due_date && `Due ${formatDueDate(task.due_date, today)}`,
+                    `${PRIORITY_LABELS[task.priority]} priority`,
+                    ...task.tags.map((tag) => `#${tag}`),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+                {task.description && (
+                  <p className="text-sm text-slate-400 mt-1 whitespace-pre-line">
+                    {task.description}
+                  </p>
+                )}
+                {task.subtasks.length > 0 && (
+                  <div className="mt-2">
+                    <PreviewSubtasks subtasks={task.subtasks} today={today} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-3 mb-3">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat)}
+              disabled={loading}
+              aria-label="Import format"
+              className="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+            >
+              {IMPORT_FORMATS.map((value) => (
+                <option key={value} value={value}>
+                  {FORMAT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <label className="text-sm text-slate-400 hover:text-amber-400 cursor-pointer">
+              Upload a file
+              <input
+                type="file"
+                accept=".md,.markdown,.txt,.json,text/markdown,text/plain,application/json"
+                onChange={handleFileChange}
+                disabled={loading}
+                className="sr-only"
+              />
+            </label>
+          </div>
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder={PLACEHOLDERS[format]}
+            rows={8}
+            maxLength={200_000}
+            disabled={loading}
+            aria-label="Content to import"
+            className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-sm font-mono text-slate-100 placeholder-slate-600 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+          />
+        </>
+      )}
+
+      {error && <p className="text-red-300 text-sm mt-2">{error}</p>}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          onClick={preview ? () => setPreview(null) : onClose}
+          disabled={loading}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          {preview ? "Back" : "Cancel"}
+        </button>
+        <button
+          onClick={preview ? handleImport : handlePreview}
+          disabled={loading || !content.trim()}
+          className="px-4 py-2 text-sm bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 disabled:text-slate-500 text-slate-900 font-medium rounded-lg transition-colors"
+        >
+          {loading
+            ? preview
+              ? "Importing..."
+              : "Reading..."
+            : preview
+              ? `Import ${preview.length === 1 ? "task" : `${preview.length} tasks`}`
+              : "Preview"}
+        </button>
+      </div>
+    </div>
+  );
+}
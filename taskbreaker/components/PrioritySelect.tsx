@@ -0,0 +1,44 @@
+"use client";
+
+import { PRIORITIES, type Priority } from "@/lib/schemas";
+
+interface PrioritySelectProps {
+  priority: Priority;
+  disabled?: boolean;
+  onChange: (priority: Priority) => void;
+}
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const PRIORITY_STYLES: Record<Priority, string> = {
+  low: "text-slate-400 bg-slate-700/40",
+  medium: "text-sky-300 bg-sky-900/30",
+  high: "text-rose-300 bg-rose-900/40",
+};
+
+export default function PrioritySelect({
+  priority,
+  disabled = false,
+  onChange,
+}: PrioritySelectProps) {
+  return (
+    <select
+      value={priority}
+      onChange={(e) => onChange(e.target.value as Priority)}
+      disabled={disabled}
+      aria-label="Priority"
+      title="Priority"
+      className={`px-2 py-0.5 rounded-full text-xs font-medium border-0 cursor-pointer disabled:cursor-default focus:outline-none focus:ring-2 focus:ring-amber-500/40 [color-scheme:dark] ${PRIORITY_STYLES[priority]}`}
+    >
+      {PRIORITIES.map((value) => (
+        <option key={value} value={value}>
+          {PRIORITY_LABELS[value]} priority
+        </option>
+      ))}
+    </select>
+  );
+}
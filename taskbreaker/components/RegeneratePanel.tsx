@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { Subtask } from "@/types/task.types";
+import type { AITaskResponse } from "@/lib/schemas";
+import { hasCheckedSubtask } from "@/lib/subtasks";
+import { formatEstimate } from "@/lib/estimates";
+
+interface RegeneratePanelProps {
+  subtasks: Subtask[];
+  onPreview: (instruction: string) => Promise<AITaskResponse>;
+  onApply: (preview: AITaskResponse) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function RegeneratePanel({
+  subtasks,
+  onPreview,
+  onApply,
+  onClose,
+}: RegeneratePanelProps) {
+  const [instruction, setInstruction] = useState("");
+  const [preview, setPreview] = useState<AITaskResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keptSubtasks = subtasks.filter(hasCheckedSubtask);
+
+  const handlePreview = async (e: FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setPreview(await onPreview(instruction.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to regenerate");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || loading) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onApply(preview);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply changes");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700 animate-fade-in">
+      <form onSubmit={handlePreview} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='e.g. "more detailed" or "assume I have no car"'
+          maxLength={200}
+          disabled={loading}
+          className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-lg transition-colors"
+        >
+          {preview ? "Try again" : "Preview"}
+        </button>
+      </form>
+
+      {error && <p className="text-red-300 text-sm mt-2">{error}</p>}
+
+      {preview && (
+        <div className="mt-3 p-3 bg-slate-900/40 rounded-lg">
+          <p className="text-sm font-medium text-slate-200 mb-2">{preview.title}</p>
+          <ul className="space-y-1 text-sm">
+            {keptSubtasks.map((subtask) => (
+              <li key={subtask.id} className="text-slate-500 line-through">
+                {subtask.text}
+              </li>
+            ))}
+            {preview.subtasks.map((subtask, index) => (
+              <li key={index} className="flex justify-between gap-3 text-slate-300">
+                <span>{subtask.text}</span>
+                {subtask.minutes !== null && (
+                  <span className="text-xs text-slate-500 flex-shrink-0">
+                    {formatEstimate(subtask.minutes)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          onClick={onClose}
+          disabled={loading}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!preview || loading}
+          className="px-4 py-2 text-sm bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 disabled:text-slate-500 text-slate-900 font-medium rounded-lg transition-colors disabled:cursor-not-allowed"
+        >
+          Replace breakdown
+        </button>
+      </div>
+    </div>
+  );
+}
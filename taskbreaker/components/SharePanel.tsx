@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, FormEvent } from "react";
+import type { ShareLink, TaskMember } from "@/types/task.types";
+import { MEMBER_ROLES, type MemberRole } from "@/lib/schemas";
+import { getSharePath } from "@/lib/share-links";
+
+interface SharePanelProps {
+  members: TaskMember[];
+  // Only the owner can invite people or change their roles
+  isOwner: boolean;
+  currentEmail: string | null;
+  onInvite: (email: string, role: MemberRole) => Promise<void>;
+  // Removing your own email leaves the task
+  onRemove: (email: string) => Promise<void>;
+  // Public read-only links, only loaded for the owner
+  onListLinks: () => Promise<ShareLink[]>;
+  onCreateLink: () => Promise<ShareLink>;
+  onRevokeLink: (linkId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+export default function SharePanel({
+  members,
+  isOwner,
+  currentEmail,
+  onInvite,
+  onRemove,
+  onListLinks,
+  onCreateLink,
+  onRevokeLink,
+  onClose,
+}: SharePanelProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("viewer");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+
+  // Load the links when the panel opens; the loader is stable per task
+  useEffect(() => {
+    if (!isOwner) return;
+
+    let cancelled = false;
+    onListLinks()
+      .then((loaded) => {
+        if (!cancelled) setLinks(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load links");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOwner, onListLinks]);
+
+  const run = async (action: () => Promise<void>) => {
+    if (loading) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update sharing");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    run(async () => {
+      await onInvite(email.trim(), role);
+      setEmail("");
+    });
+  };
+
+  const handleCreateLink = () =>
+    run(async () => {
+      const link = await onCreateLink();
+      setLinks((prev) => [...prev, link]);
+    });
+
+  const handleRevokeLink = (linkId: string) =>
+    run(async () => {
+      await onRevokeLink(linkId);
+      setLinks((prev) => prev.filter((link) => link.id !== linkId));
+    });
+
+  const handleCopyLink = async (link: ShareLink) => {
+    const url = `${window.location.origin}${getSharePath(link.token)}`;
+    await navigator.clipboard.writeText(url);
+    setCopiedLinkId(link.id);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700 animate-fade-in">
+      {isOwner && (
+        <form onSubmit={handleInvite} className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Invite by email"
+            maxLength={254}
+            disabled={loading}
+            className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            disabled={loading}
+            aria-label="Role"
+            className="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+          >
+            {MEMBER_ROLES.map((value) => (
+              <option key={value} value={value}>
+                {ROLE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={loading || !email.trim()}
+            className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-lg transition-colors"
+          >
+            Invite
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-red-300 text-sm mt-2">{error}</p>}
+
+      {members.length === 0 ? (
+        <p className="text-sm text-slate-500 mt-3">Not shared with anyone yet.</p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {members.map((member) => {
+            const isYou = member.email === currentEmail;
+            return (
+              <li key={member.email} className="flex items-center gap-3 text-sm">
+                <span className="flex-1 min-w-0 truncate text-slate-300">
+                  {member.email}
+                  {isYou && <span className="text-slate-500"> (you)</span>}
+                  {!member.user_id && (
+                    <span className="text-slate-500" title="They have not signed up yet">
+                      {" "}
+                      · invited
+                    </span>
+                  )}
+                </span>
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) =>
+                      run(() => onInvite(member.email, e.target.value as MemberRole))
+                    }
+                    disabled={loading}
+                    aria-label={`Role for ${member.email}`}
+                    className="px-2 py-0.5 bg-transparent text-xs text-slate-400 focus:outline-none [color-scheme:dark]"
+                  >
+                    {MEMBER_ROLES.map((value) => (
+                      <option key={value} value={value}>
+                        {ROLE_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-slate-500">{ROLE_LABELS[member.role]}</span>
+                )}
+                {(isOwner || isYou) && (
+                  <button
+                    onClick={() => run(() => onRemove(member.email))}
+                    disabled={loading}
+                    className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50"
+                  >
+                    {isYou ? "Leave" : "Remove"}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isOwner && (
+        <div className="mt-4 pt-3 border-t border-slate-700/60">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-400">Public links (view only, no account needed)</p>
+            <button
+              onClick={handleCreateLink}
+              disabled={loading}
+              className="text-xs text-slate-400 hover:text-amber-400 disabled:opacity-50"
+            >
+              + Create link
+            </button>
+          </div>
+          {links.length > 0 && (
+            <ul className="mt-2 space-y-2">
+              {links.map((link) => (
+                <li key={link.id} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 min-w-0 truncate font-mono text-xs text-slate-400">
+                    {getSharePath(link.token)}
+                  </span>
+                  <button
+                    onClick={() => handleCopyLink(link)}
+                    className="text-xs text-slate-500 hover:text-slate-200"
+                  >
+                    {copiedLinkId === link.id ? "Copied" : "Copy"}
+                  </button>
+                  <button
+                    onClick={() => handleRevokeLink(link.id)}
+                    disabled={loading}
+                    className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end mt-3">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import type { SharedTask, Subtask } from "@/types/task.types";
+import { getSubtaskProgress, isSubtaskComplete } from "@/lib/subtasks";
+import { formatDueDate } from "@/lib/due-dates";
+import { formatEstimate, getRemainingMinutes } from "@/lib/estimates";
+
+interface SharedTaskCardProps {
+  task: SharedTask;
+  today: string;
+}
+
+function SharedSubtaskList({ subtasks, today }: { subtasks: Subtask[]; today: string }) {
+  return (
+    <>
+      {subtasks.map((subtask) => {
+        const complete = isSubtaskComplete(subtask);
+        return (
+          <li key={subtask.id}>
+            <div className="flex items-start gap-3 p-2">
+              <span
+                className={`mt-0.5 w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 ${
+                  complete ? "bg-amber-500 border-amber-500" : "border-slate-600"
+                }`}
+              >
+                {complete && (
+                  <svg
+                    className="w-3 h-3 text-slate-900"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={3}
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </span>
+              <span
+                className={`flex-1 text-sm ${
+                  complete ? "text-slate-500 line-through" : "text-slate-300"
+                }`}
+              >
+                {subtask.text}
+              </span>
+              {subtask.estimated_minutes !== null && subtask.children.length === 0 && (
+                <span className="text-xs text-slate-500 flex-shrink-0 mt-0.5">
+                  {formatEstimate(subtask.estimated_minutes)}
+                </span>
+              )}
+              {subtask.due_date && (
+                <span className="text-xs text-slate-400 flex-shrink-0 mt-0.5">
+                  Due {formatDueDate(subtask.due_date, today)}
+                </span>
+              )}
+            </div>
+            {subtask.children.length > 0 && (
+              <ul className="ml-6 mt-1 space-y-1 border-l border-slate-700 pl-2">
+                <SharedSubtaskList subtasks={subtask.children} today={today} />
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </>
+  );
+}
+
+// Read-only card for the public share page; renders on the server, so there
+// are no toggles or menus
+export default function SharedTaskCard({ task, today }: SharedTaskCardProps) {
+  const { completed, total } = getSubtaskProgress(task.subtasks);
+  const progress = total > 0 ? (completed / total) * 100 : 0;
+  const remainingMinutes = getRemainingMinutes(task.subtasks);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
+      <h1 className="text-xl font-medium text-slate-100">{task.title}</h1>
+      {task.description && <p className="text-sm text-slate-400 mt-1">{task.description}</p>}
+      <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-slate-500">
+        <span>
+          {completed}/{total} completed
+        </span>
+        {remainingMinutes > 0 && <span>~{formatEstimate(remainingMinutes)} left</span>}
+        {task.due_date && <span>Due {formatDueDate(task.due_date, today)}</span>}
+        <span className="capitalize">{task.priority} priority</span>
+        {task.tags.map((tag) => (
+          <span
+            key={tag}
+            className="px-2 py-0.5 rounded-full text-xs text-slate-300 bg-slate-700/50"
+          >
+            #{tag}
+          </span>
+        ))}
+      </div>
+
+      <div className="w-full h-1.5 bg-slate-700 rounded-full my-4 overflow-hidden">
+        <div className="h-full bg-amber-500 rounded-full" style={{ width: `${progress}%` }} />
+      </div>
+
+      <ul className="space-y-2">
+        <SharedSubtaskList subtasks={task.subtasks} today={today} />
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+interface StreamingTaskCardProps {
+  title: string | null;
+  subtasks: string[];
+}
+
+// Placeholder card shown while a new task's breakdown is still streaming in
+export default function StreamingTaskCard({ title, subtasks }: StreamingTaskCardProps) {
+  return (
+    <div className="bg-slate-800/50 border border-amber-500/40 rounded-xl p-6 animate-fade-in">
+      <div className="flex items-center gap-3 mb-4">
+        <span className="w-4 h-4 border-2 border-amber-500 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+        {title ? (
+          <h3 className="text-lg font-medium text-slate-100 truncate">{title}</h3>
+        ) : (
+          <div className="h-5 w-40 bg-slate-700 rounded animate-pulse" />
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {subtasks.map((text, index) => (
+          <li key={index} className="flex items-start gap-3 p-2 animate-fade-in">
+            <div className="mt-0.5 w-5 h-5 rounded border-2 border-slate-600 flex-shrink-0" />
+            <span className="text-sm text-slate-300">{text}</span>
+          </li>
+        ))}
+        <li className="p-2">
+          <div className="h-4 w-2/3 bg-slate-700/60 rounded animate-pulse" />
+        </li>
+      </ul>
+    </div>
+  );
+}
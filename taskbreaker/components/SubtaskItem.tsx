@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { Subtask } from "@/types/task.types";
+import {
+  getSubtaskProgress,
+  isSubtaskComplete,
+  MAX_SUBTASK_DEPTH,
+} from "@/lib/subtasks";
+import DragHandle from "@/components/DragHandle";
+import DueDatePicker from "@/components/DueDatePicker";
+import { formatEstimate } from "@/lib/estimates";
+
+interface SubtaskItemProps {
+  subtask: Subtask;
+  index: number;
+  depth: number;
+  today: string;
+  busySubtaskId: string | null;
+  draggedSubtaskId: string | null;
+  // Viewers see the subtasks but cannot check, edit or move them
+  readOnly: boolean;
+  // Who checked the subtask off, shown once a task has collaborators
+  checkedByLabel: (subtask: Subtask) => string | null;
+  onToggle: (subtask: Subtask) => void;
+  onBreakdown: (subtask: Subtask) => void;
+  onRename: (subtask: Subtask, text: string) => void;
+  onDelete: (subtask: Subtask) => void;
+  onDueDateChange: (subtask: Subtask, dueDate: string | null) => void;
+  onDragStart: (subtask: Subtask) => void;
+  onDragEnd: () => void;
+  onDrop: (target: Subtask) => void;
+  onMove: (subtask: Subtask, toIndex: number) => void;
+}
+
+export default function SubtaskItem({
+  subtask,
+  index,
+  depth,
+  today,
+  busySubtaskId,
+  draggedSubtaskId,
+  readOnly,
+  checkedByLabel,
+  onToggle,
+  onBreakdown,
+  onRename,
+  onDelete,
+  onDueDateChange,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+  onMove,
+}: SubtaskItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftText, setDraftText] = useState(subtask.text);
+
+  const hasChildren = subtask.children.length > 0;
+  const complete = isSubtaskComplete(subtask);
+  const isBusy = busySubtaskId === subtask.id;
+  const isDragging = draggedSubtaskId === subtask.id;
+  const canBreakdown = !hasChildren && !subtask.checked && depth < MAX_SUBTASK_DEPTH;
+  const childProgress = hasChildren ? getSubtaskProgress(subtask.children) : null;
+  const checkedBy = subtask.checked ? checkedByLabel(subtask) : null;
+
+  const startEditing = () => {
+    setDraftText(subtask.text);
+    setIsEditing(true);
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    const text = draftText.trim();
+    setIsEditing(false);
+    if (!text || text === subtask.text) return;
+    onRename(subtask, text);
+  };
+
+  return (
+    <li>
+      <div
+        onClick={() => !hasChildren && !isEditing && !readOnly && onToggle(subtask)}
+        onDragOver={(e) => draggedSubtaskId && e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          onDrop(subtask);
+        }}
+        className={`group flex items-start gap-3 p-2 rounded-lg transition-colors ${
+          isBusy || isDragging
+            ? "opacity-50 pointer-events-none"
+            : hasChildren || isEditing || readOnly
+              ? ""
+              : "cursor-pointer hover:bg-slate-700/50"
+        }`}
+      >
+        {!readOnly && (
+          <DragHandle
+            label={`Reorder "${subtask.text}"`}
+            onDragStart={() => onDragStart(subtask)}
+            onDragEnd={onDragEnd}
+            onMove={(direction) => onMove(subtask, index + direction)}
+          />
+        )}
+        <div
+          className={`mt-0.5 w-5 h-5 rounded border-2 flex items-center justify-center transition-all duration-200 flex-shrink-0 ${
+            complete
+              ? "bg-amber-500 border-amber-500"
+              : "border-slate-600"
+          }`}
+        >
+          {complete && (
+            <svg
+              className="w-3 h-3 text-slate-900"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={3}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M5 13l4 4L19 7"
+              />
+            </svg>
+          )}
+        </div>
+
+        {isEditing ? (
+          <form
+            onSubmit={handleRename}
+            onClick={(e) => e.stopPropagation()}
+            className="flex-1"
+          >
+            <input
+              type="text"
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              onBlur={() => setIsEditing(false)}
+              onKeyDown={(e) => e.key === "Escape" && setIsEditing(false)}
+              maxLength={100}
+              autoFocus
+              className="w-full px-2 py-0.5 -my-0.5 bg-slate-900/50 border border-slate-600 rounded text-sm text-slate-100 focus:outline-none focus:border-amber-500"
+            />
+          </form>
+        ) : (
+          <span
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              if (!readOnly) startEditing();
+            }}
+            className={`flex-1 text-sm transition-all duration-200 ${
+              complete ? "text-slate-500 line-through" : "text-slate-300"
+            }`}
+          >
+            {subtask.text}
+          </span>
+        )}
+
+        {checkedBy && !isEditing && (
+          <span className="text-xs text-slate-500 flex-shrink-0 mt-0.5">by {checkedBy}</span>
+        )}
+
+        {!hasChildren && !isEditing && (subtask.effort || subtask.estimated_minutes !== null) && (
+          <span className="flex items-center gap-1.5 flex-shrink-0 mt-0.5 text-xs">
+            {subtask.effort && (
+              <span
+                className={`px-1.5 rounded ${
+                  subtask.effort === "quick"
+                    ? "text-emerald-300 bg-emerald-900/30"
+                    : "text-indigo-300 bg-indigo-900/30"
+                }`}
+              >
+                {subtask.effort === "quick" ? "Quick win" : "Deep work"}
+              </span>
+            )}
+            {subtask.estimated_minutes !== null && (
+              <span className="text-slate-500">{formatEstimate(subtask.estimated_minutes)}</span>
+            )}
+          </span>
+        )}
+
+        {subtask.due_date && !isEditing && (
+          <DueDatePicker
+            dueDate={subtask.due_date}
+            today={today}
+            complete={complete}
+            disabled={readOnly}
+            onChange={(dueDate) => onDueDateChange(subtask, dueDate)}
+          />
+        )}
+
+        {childProgress && (
+          <span className="text-xs text-slate-500 flex-shrink-0">
+            {childProgress.completed}/{childProgress.total}
+          </span>
+        )}
+
+        {!isEditing && !readOnly && (
+          <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity flex-shrink-0">
+            {!subtask.due_date && (
+              <DueDatePicker
+                dueDate={null}
+                today={today}
+                complete={complete}
+                onChange={(dueDate) => onDueDateChange(subtask, dueDate)}
+              />
+            )}
+            {canBreakdown && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onBreakdown(subtask);
+                }}
+                className="text-xs text-slate-500 hover:text-amber-400"
+                title="Break this down further"
+              >
+                Break down
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                startEditing();
+              }}
+              className="text-xs text-slate-500 hover:text-slate-200"
+              title="Edit subtask"
+            >
+              Edit
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(subtask);
+              }}
+              className="text-xs text-slate-500 hover:text-red-400"
+              title="Delete subtask"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {hasChildren && (
+        <ul className="ml-6 mt-1 space-y-1 border-l border-slate-700 pl-2">
+          {subtask.children.map((child, childIndex) => (
+            <SubtaskItem
+              key={child.id}
+              subtask={child}
+              index={childIndex}
+              depth={depth + 1}
+              today={today}
+              busySubtaskId={busySubtaskId}
+              draggedSubtaskId={draggedSubtaskId}
+              readOnly={readOnly}
+              checkedByLabel={checkedByLabel}
+              onToggle={onToggle}
+              onBreakdown={onBreakdown}
+              onRename={onRename}
+              onDelete={onDelete}
+              onDueDateChange={onDueDateChange}
+              onDragStart={onDragStart}
+              onDragEnd={onDragEnd}
+              onDrop={onDrop}
+              onMove={onMove}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
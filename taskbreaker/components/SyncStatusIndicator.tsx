@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import type { SyncStatus } from "@/lib/mutation-queue";
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  pendingCount: number;
+  onRetry: () => void;
+}
+
+const changes = (count: number) => (count === 1 ? "1 change" : `${count} changes`);
+
+// Whether subtask edits have reached the server, shown above the task list
+export default function SyncStatusIndicator({
+  status,
+  pendingCount,
+  onRetry,
+}: SyncStatusIndicatorProps) {
+  return (
+    <div role="status" className="flex items-center justify-end gap-2 h-5 mb-2 text-xs">
+      {status === "saved" && <span className="text-slate-500">All changes saved</span>}
+      {status === "saving" && (
+        <>
+          <span className="w-3 h-3 border-2 border-slate-500 border-t-transparent rounded-full animate-spin" />
+          <span className="text-slate-400">Saving {changes(pendingCount)}...</span>
+        </>
+      )}
+      {status === "offline" && (
+        <>
+          <span className="w-2 h-2 rounded-full bg-slate-500" />
+          <span className="text-slate-400">
+            Offline
+            {pendingCount > 0 && ` · ${changes(pendingCount)} will sync when you reconnect`}
+          </span>
+        </>
+      )}
+      {status === "signed-out" && (
+        <>
+          <span className="w-2 h-2 rounded-full bg-amber-500" />
+          <span className="text-amber-300">
+            Signed out
+            {pendingCount > 0 && ` · ${changes(pendingCount)} will sync when you sign in`}
+          </span>
+          <Link href="/login" className="text-amber-400 hover:text-amber-300 underline">
+            Sign in
+          </Link>
+        </>
+      )}
+      {status === "error" && (
+        <>
+          <span className="w-2 h-2 rounded-full bg-amber-500" />
+          <span className="text-amber-300">Couldn&apos;t save {changes(pendingCount)}</span>
+          <button onClick={onRetry} className="text-amber-400 hover:text-amber-300 underline">
+            Retry now
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
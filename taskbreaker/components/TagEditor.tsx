@@ -0,0 +1,76 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { tagSchema } from "@/lib/schemas";
+
+interface TagEditorProps {
+  tags: string[];
+  // Lists the tags without add or remove controls
+  readOnly?: boolean;
+  onChange: (tags: string[]) => void;
+}
+
+// Matches the limit enforced by the API and the database
+const MAX_TAGS = 10;
+
+export default function TagEditor({ tags, readOnly = false, onChange }: TagEditorProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const result = tagSchema.safeParse(draft);
+    setDraft("");
+    setIsAdding(false);
+    if (!result.success || tags.includes(result.data)) return;
+    onChange([...tags, result.data]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="group/tag inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-slate-300 bg-slate-700/50"
+        >
+          #{tag}
+          {!readOnly && (
+            <button
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="text-slate-500 hover:text-red-400 opacity-0 group-hover/tag:opacity-100 focus:opacity-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+
+      {isAdding ? (
+        <form onSubmit={handleAdd}>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => setIsAdding(false)}
+            onKeyDown={(e) => e.key === "Escape" && setIsAdding(false)}
+            maxLength={30}
+            autoFocus
+            placeholder="tag"
+            aria-label="New tag"
+            className="w-24 px-2 py-0.5 bg-slate-900/50 border border-slate-600 rounded-full text-xs text-slate-200 focus:outline-none focus:border-amber-500"
+          />
+        </form>
+      ) : (
+        !readOnly && tags.length < MAX_TAGS && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="px-2 py-0.5 rounded-full text-xs text-slate-500 hover:text-slate-200 border border-dashed border-slate-700"
+          >
+            + Tag
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,42 +1,179 @@
 "use client";
 
-import { useState } from "react";
-
-interface Subtask {
-  id: string;
-  text: string;
-  checked: boolean;
-  position: number;
-}
-
-interface Task {
-  id: string;
-  title: string;
-  created_at: string;
-  subtasks: Subtask[];
-}
+import { useState, useCallback, FormEvent } from "react";
+import type { ShareLink, Subtask, Task } from "@/types/task.types";
+import { findSubtaskLevel, getSubtaskProgress } from "@/lib/subtasks";
+import { moveItem } from "@/lib/reorder";
+import type { AITaskResponse, MemberRole, UpdateTaskInput } from "@/lib/schemas";
+import SubtaskItem from "@/components/SubtaskItem";
+import RegeneratePanel from "@/components/RegeneratePanel";
+import SharePanel from "@/components/SharePanel";
+import ExportMenu from "@/components/ExportMenu";
+import DragHandle from "@/components/DragHandle";
+import TaskDetailsForm from "@/components/TaskDetailsForm";
+import DueDatePicker from "@/components/DueDatePicker";
+import PrioritySelect from "@/components/PrioritySelect";
+import TagEditor from "@/components/TagEditor";
+import { getDueStatus } from "@/lib/due-dates";
+import { formatEstimate, getRemainingMinutes } from "@/lib/estimates";
 
 interface TaskCardProps {
   task: Task;
-  onSubtaskToggle: (taskId: string, subtaskId: string, checked: boolean) => Promise<void>;
+  // The viewer's local date, used to flag overdue items
+  today: string;
+  // The signed-in user, used to label who checked subtasks off
+  currentUserId: string | null;
+  currentEmail: string | null;
+  onTaskUpdate: (taskId: string, updates: UpdateTaskInput) => Promise<void>;
+  // Inline edits whose errors are reported by the parent
+  onTaskChange: (taskId: string, updates: UpdateTaskInput) => Promise<void>;
+  // Toggles, renames and due dates show immediately and are saved in the background
+  onSubtaskToggle: (taskId: string, subtaskId: string, checked: boolean) => void;
+  onSubtaskBreakdown: (taskId: string, subtaskId: string) => Promise<void>;
+  onSubtaskAdd: (taskId: string, text: string) => Promise<void>;
+  onSubtaskRename: (taskId: string, subtaskId: string, text: string) => void;
+  onSubtaskDelete: (taskId: string, subtaskId: string) => Promise<void>;
+  onSubtaskDueDateChange: (taskId: string, subtaskId: string, dueDate: string | null) => void;
+  onSubtaskReorder: (
+    taskId: string,
+    parentId: string | null,
+    subtaskIds: string[]
+  ) => Promise<void>;
+  onTaskDragStart: (taskId: string) => void;
+  onTaskDragEnd: () => void;
+  onTaskMove: (taskId: string, direction: -1 | 1) => void;
+  onRegeneratePreview: (taskId: string, instruction: string) => Promise<AITaskResponse>;
+  onRegenerateApply: (taskId: string, preview: AITaskResponse) => Promise<void>;
+  onSaveTemplate: (taskId: string) => Promise<void>;
+  onInviteMember: (taskId: string, email: string, role: MemberRole) => Promise<void>;
+  onRemoveMember: (taskId: string, email: string) => Promise<void>;
+  onListShareLinks: (taskId: string) => Promise<ShareLink[]>;
+  onCreateShareLink: (taskId: string) => Promise<ShareLink>;
+  onRevokeShareLink: (taskId: string, linkId: string) => Promise<void>;
+  // Only offered once every subtask is done
+  onArchive: (taskId: string) => Promise<void>;
+  // Moves the task to the trash; the parent offers an undo
   onDelete: (taskId: string) => Promise<void>;
 }
 
-export default function TaskCard({ task, onSubtaskToggle, onDelete }: TaskCardProps) {
+export default function TaskCard({
+  task,
+  today,
+  currentUserId,
+  currentEmail,
+  onTaskUpdate,
+  onTaskChange,
+  onSubtaskToggle,
+  onSubtaskBreakdown,
+  onSubtaskAdd,
+  onSubtaskRename,
+  onSubtaskDelete,
+  onSubtaskDueDateChange,
+  onSubtaskReorder,
+  onTaskDragStart,
+  onTaskDragEnd,
+  onTaskMove,
+  onRegeneratePreview,
+  onRegenerateApply,
+  onSaveTemplate,
+  onInviteMember,
+  onRemoveMember,
+  onListShareLinks,
+  onCreateShareLink,
+  onRevokeShareLink,
+  onArchive,
+  onDelete,
+}: TaskCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
-  const [togglingSubtask, setTogglingSubtask] = useState<string | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [busySubtask, setBusySubtask] = useState<string | null>(null);
+  const [newSubtask, setNewSubtask] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [draggedSubtask, setDraggedSubtask] = useState<string | null>(null);
+
+  const handleToggle = (subtask: Subtask) =>
+    onSubtaskToggle(task.id, subtask.id, !subtask.checked);
+
+  const handleBreakdown = async (subtask: Subtask) => {
+    setBusySubtask(subtask.id);
+    try {
+      await onSubtaskBreakdown(task.id, subtask.id);
+    } finally {
+      setBusySubtask(null);
+    }
+  };
+
+  const handleRename = (subtask: Subtask, text: string) =>
+    onSubtaskRename(task.id, subtask.id, text);
+
+  const handleSubtaskDelete = async (subtask: Subtask) => {
+    setBusySubtask(subtask.id);
+    try {
+      await onSubtaskDelete(task.id, subtask.id);
+    } finally {
+      setBusySubtask(null);
+    }
+  };
+
+  const handleSubtaskDueDateChange = (subtask: Subtask, dueDate: string | null) =>
+    onSubtaskDueDateChange(task.id, subtask.id, dueDate);
 
-  const handleToggle = async (subtask: Subtask) => {
-    setTogglingSubtask(subtask.id);
+  // Move a subtask within its own level; positions are rewritten server-side
+  const handleMove = (subtask: Subtask, toIndex: number) => {
+    const level = findSubtaskLevel(task.subtasks, subtask.id);
+    if (!level) return;
+
+    const fromIndex = level.findIndex((s) => s.id === subtask.id);
+    const reordered = moveItem(level, fromIndex, toIndex);
+    if (reordered === level) return;
+
+    onSubtaskReorder(
+      task.id,
+      subtask.parent_id,
+      reordered.map((s) => s.id)
+    );
+  };
+
+  const handleDrop = (target: Subtask) => {
+    if (!draggedSubtask || draggedSubtask === target.id) return;
+
+    const level = findSubtaskLevel(task.subtasks, draggedSubtask);
+    const targetIndex = level?.findIndex((s) => s.id === target.id) ?? -1;
+    const dragged = level?.find((s) => s.id === draggedSubtask);
+
+    setDraggedSubtask(null);
+    // Subtasks can only be dropped onto a sibling
+    if (dragged && targetIndex !== -1) {
+      handleMove(dragged, targetIndex);
+    }
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim() || isAdding) return;
+
+    setIsAdding(true);
+    try {
+      await onSubtaskAdd(task.id, newSubtask.trim());
+      setNewSubtask("");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    setIsArchiving(true);
     try {
-      await onSubtaskToggle(task.id, subtask.id, !subtask.checked);
+      await onArchive(task.id);
     } finally {
-      setTogglingSubtask(null);
+      setIsArchiving(false);
     }
   };
 
   const handleDelete = async () => {
-    if (!confirm("Are you sure you want to delete this task?")) return;
     setIsDeleting(true);
     try {
       await onDelete(task.id);
@@ -45,47 +182,268 @@ export default function TaskCard({ task, onSubtaskToggle, onDelete }: TaskCardPr
     }
   };
 
-  const completedCount = task.subtasks.filter((s) => s.checked).length;
-  const totalCount = task.subtasks.length;
+  // Progress counts leaf subtasks so nested breakdowns roll up into the task
+  const { completed: completedCount, total: totalCount } = getSubtaskProgress(
+    task.subtasks
+  );
   const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
+  const isComplete = totalCount > 0 && completedCount === totalCount;
+  const remainingMinutes = getRemainingMinutes(task.subtasks);
+  const isOverdue = !isComplete && getDueStatus(task.due_date, today) === "overdue";
+
+  // Editors can change the breakdown; ordering, archiving and deleting stay with the owner
+  const role = task.role ?? "owner";
+  const isOwner = role === "owner";
+  const canEdit = role !== "viewer";
+  const members = task.members ?? [];
 
-  const sortedSubtasks = [...task.subtasks].sort((a, b) => a.position - b.position);
+  const listShareLinks = useCallback(
+    () => onListShareLinks(task.id),
+    [onListShareLinks, task.id]
+  );
+
+  const checkedByLabel = (subtask: Subtask) => {
+    if (!subtask.checked_by || (isOwner && members.length === 0)) return null;
+    if (subtask.checked_by === currentUserId) return "you";
+    return members.find((m) => m.user_id === subtask.checked_by)?.email ?? "the owner";
+  };
 
   return (
-    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 transition-all hover:border-slate-600">
+    <div
+      className={`bg-slate-800/50 border rounded-xl p-6 transition-all ${
+        isOverdue
+          ? "border-red-800 hover:border-red-700"
+          : "border-slate-700 hover:border-slate-600"
+      }`}
+    >
       <div className="flex items-start justify-between gap-4 mb-4">
+        {isOwner && (
+          <div className="pt-1">
+            <DragHandle
+              label={`Reorder task "${task.title}"`}
+              onDragStart={() => onTaskDragStart(task.id)}
+              onDragEnd={onTaskDragEnd}
+              onMove={(direction) => onTaskMove(task.id, direction)}
+            />
+          </div>
+        )}
         <div className="flex-1 min-w-0">
-          <h3 className="text-lg font-medium text-slate-100 truncate">
-            {task.title}
-          </h3>
-          <p className="text-sm text-slate-500 mt-1">
-            {completedCount}/{totalCount} completed
-          </p>
+          {isEditingDetails ? (
+            <TaskDetailsForm
+              task={task}
+              onSave={(updates) => onTaskUpdate(task.id, updates)}
+              onClose={() => setIsEditingDetails(false)}
+            />
+          ) : (
+            <>
+              <h3
+                onDoubleClick={() => canEdit && setIsEditingDetails(true)}
+                className="text-lg font-medium text-slate-100 truncate"
+                title={canEdit ? "Double-click to edit" : undefined}
+              >
+                {task.title}
+              </h3>
+              {task.description && (
+                <p
+                  onDoubleClick={() => canEdit && setIsEditingDetails(true)}
+                  className="text-sm text-slate-400 mt-1 line-clamp-2"
+                >
+                  {task.description}
+                </p>
+              )}
+              <div className="flex items-center gap-3 mt-1">
+                <p className="text-sm text-slate-500">
+                  {completedCount}/{totalCount} completed
+                </p>
+                {remainingMinutes > 0 && (
+                  <p className="text-sm text-slate-500" title="Estimated time remaining">
+                    ~{formatEstimate(remainingMinutes)} left
+                  </p>
+                )}
+                <DueDatePicker
+                  dueDate={task.due_date}
+                  today={today}
+                  complete={isComplete}
+                  disabled={!canEdit}
+                  onChange={(dueDate) => onTaskChange(task.id, { dueDate })}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <PrioritySelect
+                  priority={task.priority}
+                  disabled={!canEdit}
+                  onChange={(priority) => onTaskChange(task.id, { priority })}
+                />
+                <TagEditor
+                  tags={task.tags}
+                  readOnly={!canEdit}
+                  onChange={(tags) => onTaskChange(task.id, { tags })}
+                />
+              </div>
+            </>
+          )}
         </div>
+        {canEdit && (
+          <>
+            <button
+              onClick={() => setIsEditingDetails(true)}
+              disabled={isEditingDetails}
+              className="p-2 text-slate-500 hover:text-slate-200 hover:bg-slate-700/50 rounded-lg transition-colors disabled:opacity-50"
+              title="Edit title and description"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={() => setIsRegenerating((open) => !open)}
+              className={`p-2 rounded-lg transition-colors ${
+                isRegenerating
+                  ? "text-amber-400 bg-slate-700/50"
+                  : "text-slate-500 hover:text-amber-400 hover:bg-slate-700/50"
+              }`}
+              title="Regenerate breakdown"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+            </button>
+          </>
+        )}
         <button
-          onClick={handleDelete}
-          disabled={isDeleting}
-          className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
-          title="Delete task"
+          onClick={() => onSaveTemplate(task.id)}
+          className="p-2 text-slate-500 hover:text-amber-400 hover:bg-slate-700/50 rounded-lg transition-colors"
+          title="Save as template"
         >
-          {isDeleting ? (
-            <span className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin block" />
-          ) : (
-            <svg
-              className="w-5 h-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-          )}
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+            />
+          </svg>
+        </button>
+        <ExportMenu
+          taskId={task.id}
+          formats={task.due_date ? undefined : ["markdown", "json", "csv"]}
+          label="Export task"
+          className="p-2 text-slate-500 hover:text-slate-200 hover:bg-slate-700/50 rounded-lg transition-colors"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+            />
+          </svg>
+        </ExportMenu>
+        <button
+          onClick={() => setIsSharing((open) => !open)}
+          className={`p-2 rounded-lg transition-colors ${
+            isSharing
+              ? "text-amber-400 bg-slate-700/50"
+              : "text-slate-500 hover:text-amber-400 hover:bg-slate-700/50"
+          }`}
+          title={isOwner ? "Share task" : "People with access"}
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+            />
+          </svg>
         </button>
+        {isOwner && isComplete && (
+          <button
+            onClick={handleArchive}
+            disabled={isArchiving}
+            className="p-2 text-slate-500 hover:text-emerald-400 hover:bg-slate-700/50 rounded-lg transition-colors disabled:opacity-50"
+            title="Archive task"
+          >
+            {isArchiving ? (
+              <span className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin block" />
+            ) : (
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+                />
+              </svg>
+            )}
+          </button>
+        )}
+        {isOwner && (
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+            title="Move to trash"
+          >
+            {isDeleting ? (
+              <span className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin block" />
+            ) : (
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            )}
+          </button>
+        )}
       </div>
 
       {/* Progress bar */}
@@ -97,51 +455,69 @@ export default function TaskCard({ task, onSubtaskToggle, onDelete }: TaskCardPr
       </div>
 
       <ul className="space-y-2">
-        {sortedSubtasks.map((subtask) => (
-          <li
+        {task.subtasks.map((subtask, index) => (
+          <SubtaskItem
             key={subtask.id}
-            onClick={() => handleToggle(subtask)}
-            className={`flex items-start gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
-              togglingSubtask === subtask.id
-                ? "opacity-50 pointer-events-none"
-                : "hover:bg-slate-700/50"
-            }`}
-          >
-            <div
-              className={`mt-0.5 w-5 h-5 rounded border-2 flex items-center justify-center transition-all duration-200 flex-shrink-0 ${
-                subtask.checked
-                  ? "bg-amber-500 border-amber-500"
-                  : "border-slate-600"
-              }`}
-            >
-              {subtask.checked && (
-                <svg
-                  className="w-3 h-3 text-slate-900"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={3}
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M5 13l4 4L19 7"
-                  />
-                </svg>
-              )}
-            </div>
-            <span
-              className={`text-sm transition-all duration-200 ${
-                subtask.checked
-                  ? "text-slate-500 line-through"
-                  : "text-slate-300"
-              }`}
-            >
-              {subtask.text}
-            </span>
-          </li>
+            subtask={subtask}
+            index={index}
+            depth={1}
+            today={today}
+            busySubtaskId={busySubtask}
+            draggedSubtaskId={draggedSubtask}
+            readOnly={!canEdit}
+            checkedByLabel={checkedByLabel}
+            onToggle={handleToggle}
+            onBreakdown={handleBreakdown}
+            onRename={handleRename}
+            onDelete={handleSubtaskDelete}
+            onDueDateChange={handleSubtaskDueDateChange}
+            onDragStart={(s) => setDraggedSubtask(s.id)}
+            onDragEnd={() => setDraggedSubtask(null)}
+            onDrop={handleDrop}
+            onMove={handleMove}
+          />
         ))}
       </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="mt-2 flex items-center gap-3 p-2">
+          <span className="w-5 h-5 flex items-center justify-center text-slate-600 flex-shrink-0">
+            +
+          </span>
+          <input
+            type="text"
+            value={newSubtask}
+            onChange={(e) => setNewSubtask(e.target.value)}
+            placeholder="Add a subtask..."
+            maxLength={100}
+            disabled={isAdding}
+            className="flex-1 bg-transparent text-sm text-slate-300 placeholder-slate-600 focus:outline-none disabled:opacity-50"
+          />
+        </form>
+      )}
+
+      {isRegenerating && (
+        <RegeneratePanel
+          subtasks={task.subtasks}
+          onPreview={(instruction) => onRegeneratePreview(task.id, instruction)}
+          onApply={(preview) => onRegenerateApply(task.id, preview)}
+          onClose={() => setIsRegenerating(false)}
+        />
+      )}
+
+      {isSharing && (
+        <SharePanel
+          members={members}
+          isOwner={isOwner}
+          currentEmail={currentEmail}
+          onInvite={(email, memberRole) => onInviteMember(task.id, email, memberRole)}
+          onRemove={(email) => onRemoveMember(task.id, email)}
+          onListLinks={listShareLinks}
+          onCreateLink={() => onCreateShareLink(task.id)}
+          onRevokeLink={(linkId) => onRevokeShareLink(task.id, linkId)}
+          onClose={() => setIsSharing(false)}
+        />
+      )}
     </div>
   );
 }
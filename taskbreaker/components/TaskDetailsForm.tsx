@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { Task } from "@/types/task.types";
+import type { UpdateTaskInput } from "@/lib/schemas";
+
+interface TaskDetailsFormProps {
+  task: Task;
+  onSave: (updates: UpdateTaskInput) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function TaskDetailsForm({
+  task,
+  onSave,
+  onClose,
+}: TaskDetailsFormProps) {
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (saving) return;
+
+    const trimmedTitle = title.trim();
+    const trimmedDescription = description.trim();
+    if (!trimmedTitle) {
+      setError("Title is required");
+      return;
+    }
+
+    // Only send the fields that actually changed
+    const updates: UpdateTaskInput = {};
+    if (trimmedTitle !== task.title) updates.title = trimmedTitle;
+    if (trimmedDescription !== (task.description ?? "")) {
+      updates.description = trimmedDescription || null;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(updates);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update task");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+      className="space-y-2"
+    >
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={200}
+        disabled={saving}
+        autoFocus
+        aria-label="Task title"
+        className="w-full px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={1000}
+        rows={2}
+        disabled={saving}
+        placeholder="What did you originally ask for?"
+        aria-label="Task description"
+        className="w-full px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded-lg text-sm text-slate-300 placeholder-slate-600 resize-y focus:outline-none focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 transition-all"
+      />
+
+      {error && <p className="text-red-300 text-sm">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 text-sm bg-amber-500 hover:bg-amber-400 disabled:opacity-50 text-slate-900 font-medium rounded-lg transition-colors"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+}
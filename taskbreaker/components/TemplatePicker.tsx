@@ -0,0 +1,71 @@
+"use client";
+
+import type { TaskTemplate } from "@/types/template.types";
+import { countTemplateSubtasks } from "@/lib/templates";
+
+interface TemplatePickerProps {
+  templates: TaskTemplate[];
+  selectedId: string | null;
+  // Ask the AI to adapt the template to the text in the task input
+  customize: boolean;
+  disabled: boolean;
+  onSelect: (templateId: string | null) => void;
+  onCustomizeChange: (customize: boolean) => void;
+  onDelete: (templateId: string) => Promise<void>;
+}
+
+// Choose a saved template to start the next task from
+export default function TemplatePicker({
+  templates,
+  selectedId,
+  customize,
+  disabled,
+  onSelect,
+  onCustomizeChange,
+  onDelete,
+}: TemplatePickerProps) {
+  if (templates.length === 0) return null;
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+      <select
+        value={selectedId ?? ""}
+        onChange={(e) => onSelect(e.target.value || null)}
+        disabled={disabled}
+        aria-label="Start from a template"
+        className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-slate-200 focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+      >
+        <option value="">Break down with AI</option>
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            Template: {template.name} ({countTemplateSubtasks(template.subtasks)} subtasks)
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <>
+          <label className="flex items-center gap-2 text-slate-400">
+            <input
+              type="checkbox"
+              checked={customize}
+              onChange={(e) => onCustomizeChange(e.target.checked)}
+              disabled={disabled}
+              className="accent-amber-500"
+            />
+            Customize with AI
+          </label>
+          <button
+            type="button"
+            onClick={() => onDelete(selected.id)}
+            disabled={disabled}
+            className="ml-auto text-slate-500 hover:text-red-400 disabled:opacity-50"
+          >
+            Delete template
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
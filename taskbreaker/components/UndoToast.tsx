@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect } from "react";
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  // How long the toast stays up, in milliseconds
+  duration?: number;
+}
+
+// Bottom-of-screen notice with an Undo button that hides itself after a few seconds
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 6000,
+}: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-5 py-3 bg-slate-800 border border-slate-600 rounded-xl shadow-lg animate-fade-in"
+    >
+      <span className="text-sm text-slate-200">{message}</span>
+      <button
+        onClick={onUndo}
+        className="text-sm font-semibold text-amber-400 hover:text-amber-300"
+      >
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-slate-500 hover:text-slate-300"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import type { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Check that the signed-in user is listed in admins, in a route handler.
+ * Returns the error response to send (403 for everyone else), or null when
+ * access is granted.
+ */
+export async function authorizeAdmin(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string
+): Promise<NextResponse | null> {
+  const { data: admin, error } = await supabase
+    .from("admins")
+    .select("user_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Database error checking admin access", error as Error, {
+      requestId,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+
+  if (!admin) {
+    logger.warn("Non-admin requested an admin report", { requestId, userId });
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  createAICache,
+  getAICacheConfig,
+  hashCacheKey,
+  normalizeCacheInput,
+  type AICacheKey,
+} from "./cache";
+
+const key = (fields: Partial<AICacheKey> = {}): AICacheKey => ({
+  prompt: "task-breakdown",
+  version: 1,
+  provider: "openai",
+  model: "gpt-4o-mini",
+  input: "Plan a birthday party",
+  ...fields,
+});
+
+describe("getAICacheConfig", () => {
+  it("should default to a one-day TTL", () => {
+    expect(getAICacheConfig({}).ttlMs).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it("should read the TTL from the environment", () => {
+    expect(getAICacheConfig({ AI_CACHE_TTL_SECONDS: "0" }).ttlMs).toBe(0);
+    expect(() => getAICacheConfig({ AI_CACHE_TTL_SECONDS: "-1" })).toThrow(
+      "AI_CACHE_TTL_SECONDS must be a whole number"
+    );
+  });
+});
+
+describe("normalizeCacheInput", () => {
+  it("should ignore case, spacing and trailing punctuation", () => {
+    expect(normalizeCacheInput("  Plan a   BIRTHDAY party!! ")).toBe("plan a birthday party");
+  });
+});
+
+describe("hashCacheKey", () => {
+  it("should match near-identical tasks", () => {
+    expect(hashCacheKey(key({ input: "plan a birthday party." }))).toBe(hashCacheKey(key()));
+  });
+
+  it("should separate models and prompt versions", () => {
+    const hash = hashCacheKey(key());
+
+    expect(hashCacheKey(key({ model: "gpt-4o" }))).not.toBe(hash);
+    expect(hashCacheKey(key({ version: 2 }))).not.toBe(hash);
+    expect(hashCacheKey(key({ prompt: "breakdown" }))).not.toBe(hash);
+  });
+});
+
+describe("createAICache", () => {
+  it("should return entries until they expire", () => {
+    const cache = createAICache({ ttlMs: 1_000, maxEntries: 10 });
+    cache.set("a", "content", 0);
+
+    expect(cache.get("a", 999)).toBe("content");
+    expect(cache.get("a", 1_000)).toBeNull();
+  });
+
+  it("should evict the oldest entry once full", () => {
+    const cache = createAICache({ ttlMs: 1_000, maxEntries: 2 });
+    cache.set("a", "1", 0);
+    cache.set("b", "2", 0);
+    cache.set("c", "3", 0);
+
+    expect(cache.get("a", 0)).toBeNull();
+    expect(cache.get("c", 0)).toBe("3");
+  });
+
+  it("should store nothing when the TTL is zero", () => {
+    const cache = createAICache({ ttlMs: 0, maxEntries: 10 });
+    cache.set("a", "content", 0);
+
+    expect(cache.get("a", 0)).toBeNull();
+  });
+});
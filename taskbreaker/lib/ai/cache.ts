@@ -0,0 +1,137 @@
+// Cache of AI responses for prompts that depend only on the task text, so
+// near-identical tasks ("Plan a birthday party", "plan a birthday party!")
+// are answered without calling the model again. Entries live in memory on
+// each server instance.
+import { createHash } from "crypto";
+import logger from "@/lib/logger";
+
+type Env = Record<string, string | undefined>;
+
+export interface AICacheConfig {
+  // How long a response is reused; 0 turns the cache off
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// Everything that changes the model's answer
+export interface AICacheKey {
+  // Which prompt produced the response, e.g. "task-breakdown"
+  prompt: string;
+  // Bumped whenever the prompt changes so old responses aren't reused
+  version: number;
+  provider: string;
+  model: string;
+  input: string;
+  // Anything else the prompt was rendered with, e.g. the user's preferences
+  options?: string;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MAX_ENTRIES = 1000;
+
+/**
+ * Read the TTL from AI_CACHE_TTL_SECONDS, defaulting to one day.
+ */
+export function getAICacheConfig(env: Env = process.env): AICacheConfig {
+  const value = env.AI_CACHE_TTL_SECONDS;
+  const seconds = value === undefined || value === "" ? DEFAULT_TTL_SECONDS : Number(value);
+
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error("AI_CACHE_TTL_SECONDS must be a whole number");
+  }
+  return { ttlMs: seconds * 1000, maxEntries: MAX_ENTRIES };
+}
+
+/**
+ * Reduce task text to what matters to the model: case, surrounding and
+ * repeated whitespace, and trailing punctuation are ignored.
+ */
+export function normalizeCacheInput(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[\s.!?,;:]+$/, "");
+}
+
+export function hashCacheKey({
+  prompt,
+  version,
+  provider,
+  model,
+  input,
+  options = "",
+}: AICacheKey): string {
+  return createHash("sha256")
+    .update(JSON.stringify([prompt, version, provider, model, normalizeCacheInput(input), options]))
+    .digest("hex");
+}
+
+/**
+ * A TTL cache that evicts the oldest entry once full. Reading an entry
+ * doesn't extend its life, so responses are refreshed at least once per TTL.
+ */
+export function createAICache({ ttlMs, maxEntries }: AICacheConfig) {
+  const entries = new Map<string, { content: string; expiresAt: number }>();
+
+  return {
+    get(key: string, now = Date.now()): string | null {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.content;
+    },
+    set(key: string, content: string, now = Date.now()) {
+      if (ttlMs === 0) return;
+      // Re-inserting moves the key to the end, so the first key is the oldest
+      entries.delete(key);
+      entries.set(key, { content, expiresAt: now + ttlMs });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+let cache: ReturnType<typeof createAICache> | null = null;
+
+// Shared cache for route handlers, created on first use
+function getAICache() {
+  if (!cache) {
+    cache = createAICache(getAICacheConfig());
+  }
+  return cache;
+}
+
+/**
+ * Look up a cached response, logging whether it was found.
+ */
+export function getCachedCompletion(key: AICacheKey, requestId: string): string | null {
+  const content = getAICache().get(hashCacheKey(key));
+
+  logger.info(content === null ? "AI cache miss" : "AI cache hit", {
+    requestId,
+    prompt: key.prompt,
+    version: key.version,
+    model: key.model,
+  });
+
+  return content;
+}
+
+/**
+ * Remember a response once it has been validated, so failures aren't replayed.
+ */
+export function cacheCompletion(key: AICacheKey, content: string): void {
+  getAICache().set(hashCacheKey(key), content);
+}
+
+/**
+ * Replay a cached response as a single delta, for routes that stream.
+ */
+export async function* replayCompletion(content: string): AsyncIterable<string> {
+  yield content;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { buildFakeResponse, createFakeProvider } from "./fake-provider";
+import { aiSubtaskBreakdownSchema, aiTaskResponseSchema } from "@/lib/schemas";
+import { buildTaskBreakdownRequest } from "@/lib/prompts";
+import { toCompletionRequest } from "./structured";
+import type { TokenUsage } from "./types";
+
+describe("createFakeProvider", () => {
+  it("should return a valid title and subtasks for the task prompt", async () => {
+    const provider = createFakeProvider();
+    const result = await provider.complete({
+      messages: buildTaskBreakdownRequest("plan a birthday party").messages,
+    });
+
+    const validated = aiTaskResponseSchema.safeParse(JSON.parse(result.content!));
+    expect(validated.success).toBe(true);
+    if (validated.success) {
+      expect(validated.data.title).toBe("Plan A Birthday Party");
+      expect(validated.data.subtasks[0]).toMatchObject({ minutes: 15, effort: "quick" });
+      expect(validated.data.tags).toEqual(["plan"]);
+    }
+  });
+
+  it("should return as many subtasks as the response format asks for", async () => {
+    const provider = createFakeProvider();
+    const request = buildTaskBreakdownRequest("plan a birthday party", undefined, {
+      minSubtasks: 8,
+      maxSubtasks: 10,
+      tone: "friendly",
+      language: "",
+      context: "",
+    });
+    const result = await provider.complete(toCompletionRequest(request));
+
+    const validated = request.schema.safeParse(JSON.parse(result.content!));
+    expect(validated.success).toBe(true);
+    expect(validated.data?.subtasks).toHaveLength(8);
+  });
+
+  it("should be deterministic", () => {
+    const messages = [
+      { role: "system" as const, content: "Return a JSON object" },
+      { role: "user" as const, content: "clean the garage" },
+    ];
+
+    expect(buildFakeResponse(messages)).toBe(buildFakeResponse(messages));
+    const parsed = JSON.parse(buildFakeResponse(messages));
+    expect(aiSubtaskBreakdownSchema.safeParse(parsed).success).toBe(true);
+  });
+
+  it("should return a bare array when the prompt asks for one", () => {
+    const content = buildFakeResponse([
+      { role: "system", content: "Return ONLY a JSON array of strings" },
+      { role: "user", content: "clean the garage" },
+    ]);
+
+    expect(Array.isArray(JSON.parse(content))).toBe(true);
+  });
+
+  it("should stream the same content in chunks", async () => {
+    const provider = createFakeProvider(['{"subtasks": ["One", "Two"]}']);
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ messages: [] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe('{"subtasks": ["One", "Two"]}');
+  });
+
+  it("should report estimated token usage", async () => {
+    const provider = createFakeProvider(['{"subtasks": ["One", "Two"]}']);
+    const reported: TokenUsage[] = [];
+    const stream = provider.stream(
+      { messages: [{ role: "user", content: "Plan a party" }] },
+      (usage) => reported.push(usage)
+    );
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(reported).toEqual([{ promptTokens: 3, completionTokens: 7 }]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { ChatMessage, CompletionRequest, LLMProvider, TokenUsage } from "./types";
+
+/**
+ * Build a deterministic response for the prompts used by the app. The shape
+ * (title object, bare array or subtasks object) is picked from the system prompt.
+ */
+export function buildFakeResponse(messages: ChatMessage[], count = 3): string {
+  const system = messages.find((m) => m.role === "system")?.content ?? "";
+  const user = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+
+  const topic = user.split("\n")[0].replace(/^[^:]*:\s*/, "").replace(/"/g, "").trim() || "task";
+  const subject = topic.slice(0, 60);
+  const subtasks = [
+    `Outline what "${subject}" involves`,
+    `Gather what you need for ${subject}`,
+    `Complete the main work for ${subject}`,
+    ...Array.from(
+      { length: Math.max(0, count - 3) },
+      (_, i) => `Finish part ${i + 2} of ${subject}`
+    ),
+  ]
+    .slice(0, count)
+    .map((text) => text.slice(0, 100));
+
+  if (system.includes("JSON array")) {
+    return JSON.stringify(subtasks);
+  }
+
+  // Object-shaped prompts ask for an estimate alongside each subtask
+  const estimates = [
+    { minutes: 15, effort: "quick" },
+    { minutes: 30, effort: "quick" },
+    { minutes: 90, effort: "deep" },
+  ];
+  const estimated = subtasks.map((text, index) => ({ text, ...estimates[index % 3] }));
+
+  if (system.includes('"title"')) {
+    const title = subject
+      .split(/\s+/)
+      .slice(0, 4)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ")
+      .slice(0, 50);
+    return JSON.stringify({
+      title: title.length >= 2 ? title : "New Task",
+      subtasks: estimated,
+      tags: [subject.split(/\s+/)[0].toLowerCase().slice(0, 30) || "general"],
+    });
+  }
+
+  return JSON.stringify({ subtasks: estimated });
+}
+
+// Three subtasks, unless the response format asks for a different number,
+// e.g. because of the user's preferences
+function getSubtaskCount(request: CompletionRequest): number {
+  const properties = request.responseFormat?.schema.properties as
+    | Record<string, { minItems?: number; maxItems?: number }>
+    | undefined;
+  const { minItems = 3, maxItems = 3 } = properties?.subtasks ?? {};
+  return Math.min(Math.max(3, minItems), Math.max(maxItems, minItems));
+}
+
+// Roughly four characters per token, so usage pages have numbers offline
+function estimateUsage(request: CompletionRequest, content: string): TokenUsage {
+  const prompt = request.messages.reduce((length, m) => length + m.content.length, 0);
+  return {
+    promptTokens: Math.ceil(prompt / 4),
+    completionTokens: Math.ceil(content.length / 4),
+  };
+}
+
+/**
+ * Offline provider for tests and local development. Returns canned JSON
+ * without any network access; `responses` overrides the output in order.
+ */
+export function createFakeProvider(responses: string[] = []): LLMProvider {
+  const queue = [...responses];
+  const next = (request: CompletionRequest) =>
+    queue.length > 0
+      ? queue.shift()!
+      : buildFakeResponse(request.messages, getSubtaskCount(request));
+
+  return {
+    name: "fake",
+    model: "fake",
+    async complete(request) {
+      const content = next(request);
+      return { content, model: "fake", usage: estimateUsage(request, content) };
+    },
+    async *stream(request, onUsage) {
+      const content = next(request);
+      // Emit in small chunks so streaming clients see partial output
+      for (let i = 0; i < content.length; i += 8) {
+        yield content.slice(i, i + 8);
+      }
+      onUsage?.(estimateUsage(request, content));
+    },
+  };
+}
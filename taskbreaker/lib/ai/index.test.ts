@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { createAIProvider } from "./index";
+
+describe("createAIProvider", () => {
+  it("should default to OpenAI with gpt-4o-mini", () => {
+    const provider = createAIProvider({ OPENAI_API_KEY: "test-key" });
+
+    expect(provider.name).toBe("openai");
+    expect(provider.model).toBe("gpt-4o-mini");
+  });
+
+  it("should use AI_MODEL when set", () => {
+    const provider = createAIProvider({ OPENAI_API_KEY: "test-key", AI_MODEL: "gpt-4o" });
+
+    expect(provider.model).toBe("gpt-4o");
+  });
+
+  it("should configure an OpenAI-compatible server", () => {
+    const provider = createAIProvider({
+      AI_PROVIDER: "openai-compatible",
+      AI_BASE_URL: "http://localhost:11434/v1",
+      AI_MODEL: "llama3.1",
+    });
+
+    expect(provider.name).toBe("openai-compatible");
+    expect(provider.model).toBe("llama3.1");
+  });
+
+  it("should require a base URL for OpenAI-compatible servers", () => {
+    expect(() =>
+      createAIProvider({ AI_PROVIDER: "openai-compatible", AI_MODEL: "llama3.1" })
+    ).toThrow("AI_BASE_URL");
+  });
+
+  it("should create the fake provider", () => {
+    expect(createAIProvider({ AI_PROVIDER: "fake" }).name).toBe("fake");
+  });
+
+  it("should reject unknown providers", () => {
+    expect(() => createAIProvider({ AI_PROVIDER: "nope" })).toThrow("Unknown AI_PROVIDER");
+  });
+});
@@ -0,0 +1,85 @@
+import { createOpenAIProvider } from "./openai-provider";
+import { createFakeProvider } from "./fake-provider";
+import type { LLMProvider } from "./types";
+
+export type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  TokenUsage,
+} from "./types";
+export {
+  cacheCompletion,
+  getCachedCompletion,
+  replayCompletion,
+  type AICacheKey,
+} from "./cache";
+export {
+  addUsage,
+  generateStructured,
+  toCompletionRequest,
+  type StructuredRequest,
+  type StructuredResult,
+} from "./structured";
+export {
+  estimateCost,
+  fillUsageDays,
+  getUsageStartDay,
+  recordGeneration,
+  type AIFeature,
+  type Generation,
+} from "./usage";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Create the provider selected by the AI_PROVIDER environment variable:
+ * - "openai" (default): OpenAI with OPENAI_API_KEY
+ * - "openai-compatible": any chat completions server at AI_BASE_URL
+ * - "fake": deterministic offline responses
+ */
+export function createAIProvider(env: Env = process.env): LLMProvider {
+  const providerName = env.AI_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return createOpenAIProvider({
+        name: "openai",
+        model: env.AI_MODEL || DEFAULT_MODEL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case "openai-compatible":
+      if (!env.AI_BASE_URL) {
+        throw new Error("AI_BASE_URL is required for the openai-compatible provider");
+      }
+      if (!env.AI_MODEL) {
+        throw new Error("AI_MODEL is required for the openai-compatible provider");
+      }
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        model: env.AI_MODEL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: env.AI_API_KEY || "not-needed",
+        baseURL: env.AI_BASE_URL,
+      });
+    case "fake":
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${providerName}`);
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Shared provider instance for route handlers, created on first use.
+ */
+export function getAIProvider(): LLMProvider {
+  if (!provider) {
+    provider = createAIProvider();
+  }
+  return provider;
+}
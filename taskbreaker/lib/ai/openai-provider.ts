@@ -0,0 +1,72 @@
+import OpenAI from "openai";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  // Set for OpenAI-compatible servers such as Ollama, vLLM or LM Studio
+  baseURL?: string;
+}
+
+/**
+ * Provider backed by the OpenAI SDK. Works against api.openai.com or any
+ * server that implements the chat completions API.
+ */
+export function createOpenAIProvider({
+  name,
+  model,
+  apiKey,
+  baseURL,
+}: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  const toParams = (request: CompletionRequest) => ({
+    model,
+    messages: request.messages,
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 500,
+    ...(request.responseFormat && {
+      response_format: {
+        type: "json_schema" as const,
+        json_schema: { ...request.responseFormat, strict: true },
+      },
+    }),
+  });
+
+  return {
+    name,
+    model,
+    async complete(request) {
+      const completion = await client.chat.completions.create(toParams(request));
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        model: completion.model,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+            }
+          : null,
+      };
+    },
+    async *stream(request, onUsage) {
+      const completion = await client.chat.completions.create({
+        ...toParams(request),
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true },
+      });
+      for await (const chunk of completion) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+        if (chunk.usage) {
+          onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  generateStructured,
+  getMaxRepairAttempts,
+  parseStructured,
+  stripCodeFences,
+  toResponseFormat,
+  type StructuredRequest,
+} from "./structured";
+import { createFakeProvider } from "./fake-provider";
+import type { CompletionRequest, LLMProvider } from "./types";
+import { aiTaskResponseSchema, type AITaskResponse } from "@/lib/schemas";
+
+const subtask = (text: string) => ({ text, minutes: 10, effort: "quick" });
+
+const breakdown = (count: number) =>
+  JSON.stringify({
+    title: "Birthday Party",
+    subtasks: Array.from({ length: count }, (_, i) => subtask(`Step ${i + 1}`)),
+    tags: ["family"],
+  });
+
+const request: StructuredRequest<AITaskResponse> = {
+  name: "task_breakdown",
+  schema: aiTaskResponseSchema,
+  messages: [{ role: "user", content: "Plan a birthday party" }],
+};
+
+// Returns canned responses and keeps every request it was sent
+const recordingProvider = (responses: string[]) => {
+  const requests: CompletionRequest[] = [];
+  const provider: LLMProvider = {
+    name: "test",
+    model: "test-model",
+    async complete(completionRequest) {
+      requests.push(completionRequest);
+      return {
+        content: responses.shift() ?? null,
+        model: "test-model",
+        usage: { promptTokens: 100, completionTokens: 50 },
+      };
+    },
+    stream: () => {
+      throw new Error("Not used");
+    },
+  };
+  return { provider, requests };
+};
+
+describe("getMaxRepairAttempts", () => {
+  it("should default to two repairs", () => {
+    expect(getMaxRepairAttempts({})).toBe(2);
+    expect(getMaxRepairAttempts({ AI_MAX_REPAIR_ATTEMPTS: "0" })).toBe(0);
+    expect(() => getMaxRepairAttempts({ AI_MAX_REPAIR_ATTEMPTS: "two" })).toThrow();
+  });
+});
+
+describe("stripCodeFences", () => {
+  it("should unwrap fenced JSON and drop text around it", () => {
+    expect(stripCodeFences('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(stripCodeFences('Here you go:\n```\n[1, 2]\n```\nEnjoy!')).toBe("[1, 2]");
+    expect(stripCodeFences('  {"a": 1} ')).toBe('{"a": 1}');
+  });
+});
+
+describe("parseStructured", () => {
+  it("should validate fenced JSON", () => {
+    const result = parseStructured(aiTaskResponseSchema, "```json\n" + breakdown(3) + "\n```");
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.subtasks).toHaveLength(3);
+      expect(result.content).toBe(breakdown(3));
+    }
+  });
+
+  it("should describe invalid JSON and schema errors", () => {
+    const invalid = parseStructured(aiTaskResponseSchema, "{not json");
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.error).toMatch(/^The response is not valid JSON/);
+    }
+
+    const tooMany = parseStructured(aiTaskResponseSchema, breakdown(6));
+    expect(tooMany.success).toBe(false);
+    if (!tooMany.success) {
+      expect(tooMany.error).toContain("subtasks");
+    }
+  });
+});
+
+describe("toResponseFormat", () => {
+  it("should build a strict JSON schema from the zod schema", () => {
+    const { name, schema } = toResponseFormat(
+      "example",
+      z.object({
+        title: z.string().min(2).max(50),
+        tags: z.array(z.unknown().meta({ type: "string" })).catch([]),
+      })
+    );
+
+    expect(name).toBe("example");
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "tags"],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe("generateStructured", () => {
+  it("should return typed data from a valid response", async () => {
+    const provider = createFakeProvider([breakdown(4)]);
+
+    const result = await generateStructured(provider, request, { requestId: "r1" });
+
+    expect(result).toMatchObject({ success: true, attempts: 1 });
+    if (result.success) {
+      expect(result.data.title).toBe("Birthday Party");
+    }
+  });
+
+  it("should send the validation error back and use the repaired response", async () => {
+    const { provider, requests } = recordingProvider([breakdown(6), breakdown(5)]);
+
+    const result = await generateStructured(provider, request, { requestId: "r1" });
+
+    expect(result).toMatchObject({
+      success: true,
+      attempts: 2,
+      usage: { promptTokens: 200, completionTokens: 100 },
+    });
+    expect(requests[0].responseFormat?.name).toBe("task_breakdown");
+    const repair = requests[1].messages;
+    expect(repair[repair.length - 2]).toEqual({ role: "assistant", content: breakdown(6) });
+    expect(repair[repair.length - 1].content).toContain("subtasks");
+  });
+
+  it("should give up after the allowed repairs", async () => {
+    const { provider, requests } = recordingProvider(["nope", "still nope", "no"]);
+
+    const result = await generateStructured(provider, request, {
+      requestId: "r1",
+      maxRepairs: 1,
+    });
+
+    expect(result).toMatchObject({ success: false, attempts: 2, content: "still nope" });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should only call the model to repair a streamed response", async () => {
+    const { provider, requests } = recordingProvider([breakdown(3)]);
+
+    const valid = await generateStructured(provider, request, {
+      requestId: "r1",
+      firstResponse: breakdown(3),
+    });
+    expect(valid).toMatchObject({ success: true, attempts: 0 });
+    expect(requests).toHaveLength(0);
+
+    const repaired = await generateStructured(provider, request, {
+      requestId: "r1",
+      firstResponse: breakdown(2),
+    });
+    expect(repaired).toMatchObject({ success: true, attempts: 1 });
+  });
+});
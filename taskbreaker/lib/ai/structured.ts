@@ -0,0 +1,219 @@
+// JSON output validated against a zod schema. The schema is sent to the model
+// as a response format, and responses that still don't validate are sent back
+// with the validation error so the model can repair them.
+import { z } from "zod";
+import logger from "@/lib/logger";
+import type {
+  ChatMessage,
+  CompletionRequest,
+  LLMProvider,
+  ResponseFormat,
+  TokenUsage,
+} from "./types";
+
+type Env = Record<string, string | undefined>;
+
+export interface StructuredRequest<T> {
+  // Names the response format, e.g. "task_breakdown"
+  name: string;
+  schema: z.ZodType<T>;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type StructuredResult<T> =
+  | {
+      success: true;
+      data: T;
+      // The JSON that validated, without code fences
+      content: string;
+      model: string;
+      // Summed over every call, including repairs
+      usage: TokenUsage | null;
+      attempts: number;
+    }
+  | {
+      success: false;
+      error: string;
+      content: string | null;
+      model: string;
+      usage: TokenUsage | null;
+      attempts: number;
+    };
+
+export interface StructuredOptions {
+  requestId: string;
+  // Content already generated, e.g. by a stream; only repairs call the model
+  firstResponse?: string;
+  maxRepairs?: number;
+}
+
+// Keywords that strict response formats reject. zod still enforces them, and
+// responses that break them are repaired.
+const UNSUPPORTED_KEYWORDS = ["$schema", "default", "minLength", "maxLength"];
+
+/**
+ * Read how many times a response may be repaired from AI_MAX_REPAIR_ATTEMPTS,
+ * defaulting to 2.
+ */
+export function getMaxRepairAttempts(env: Env = process.env): number {
+  const value = env.AI_MAX_REPAIR_ATTEMPTS;
+  if (value === undefined || value === "") return 2;
+
+  const attempts = Number(value);
+  if (!Number.isInteger(attempts) || attempts < 0) {
+    throw new Error("AI_MAX_REPAIR_ATTEMPTS must be a whole number");
+  }
+  return attempts;
+}
+
+function toStrictSchema(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(toStrictSchema);
+  if (typeof node !== "object" || node === null) return node;
+
+  const schema = Object.fromEntries(
+    Object.entries(node)
+      .filter(([key]) => !UNSUPPORTED_KEYWORDS.includes(key))
+      .map(([key, value]) => [key, toStrictSchema(value)])
+  );
+
+  // Strict mode needs every property listed as required and no extras
+  if (schema.type === "object" && schema.properties) {
+    schema.required = Object.keys(schema.properties);
+    schema.additionalProperties = false;
+  }
+  return schema;
+}
+
+/**
+ * Derive the response format from the shape the schema accepts, before any
+ * transforms run.
+ */
+export function toResponseFormat(name: string, schema: z.ZodType): ResponseFormat {
+  const jsonSchema = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+  return { name, schema: toStrictSchema(jsonSchema) as Record<string, unknown> };
+}
+
+/**
+ * The completion request for a structured request, for routes that stream it.
+ */
+export function toCompletionRequest<T>(request: StructuredRequest<T>): CompletionRequest {
+  return {
+    messages: request.messages,
+    temperature: request.temperature ?? 0.7,
+    maxTokens: request.maxTokens ?? 500,
+    responseFormat: toResponseFormat(request.name, request.schema),
+  };
+}
+
+/**
+ * Remove a Markdown code fence around the JSON, which models add even when
+ * asked not to. Text outside the fence is dropped too.
+ */
+export function stripCodeFences(content: string): string {
+  const fenced = /```[\w-]*[^\S\n]*\n?([\s\S]*?)\n?\s*```/.exec(content);
+  return (fenced ? fenced[1] : content).trim();
+}
+
+/**
+ * Parse and validate a response, describing what's wrong when it doesn't fit.
+ */
+export function parseStructured<T>(
+  schema: z.ZodType<T>,
+  content: string
+): { success: true; data: T; content: string } | { success: false; error: string } {
+  const json = stripCodeFences(content);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    const message = (error as Error).message;
+    return { success: false, error: `The response is not valid JSON: ${message}` };
+  }
+
+  const validated = schema.safeParse(parsed);
+  if (!validated.success) {
+    return { success: false, error: z.prettifyError(validated.error) };
+  }
+  return { success: true, data: validated.data, content: json };
+}
+
+export function addUsage(a: TokenUsage | null, b: TokenUsage | null): TokenUsage | null {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+  };
+}
+
+/**
+ * Generate a response that validates against the schema. Invalid responses
+ * are sent back to the model with the validation error, up to `maxRepairs`
+ * times, before giving up.
+ */
+export async function generateStructured<T>(
+  provider: LLMProvider,
+  request: StructuredRequest<T>,
+  {
+    requestId,
+    firstResponse,
+    maxRepairs = getMaxRepairAttempts(),
+  }: StructuredOptions
+): Promise<StructuredResult<T>> {
+  const completionRequest = toCompletionRequest(request);
+  const messages = [...completionRequest.messages];
+  let model = provider.model;
+  let usage: TokenUsage | null = null;
+  let attempts = 0;
+
+  const complete = async () => {
+    attempts++;
+    const completion = await provider.complete({ ...completionRequest, messages });
+    model = completion.model;
+    usage = addUsage(usage, completion.usage);
+    return completion.content;
+  };
+
+  let content = firstResponse ?? (await complete());
+
+  for (let repairs = 0; ; repairs++) {
+    const result = content
+      ? parseStructured(request.schema, content)
+      : { success: false as const, error: "The response was empty." };
+
+    if (result.success) {
+      return { success: true, data: result.data, content: result.content, model, usage, attempts };
+    }
+
+    if (repairs >= maxRepairs) {
+      logger.warn("AI response failed validation", {
+        requestId,
+        format: request.name,
+        attempts,
+        error: result.error,
+      });
+      return { success: false, error: result.error, content, model, usage, attempts };
+    }
+
+    logger.warn("AI response failed validation, asking for a repair", {
+      requestId,
+      format: request.name,
+      repair: repairs + 1,
+      error: result.error,
+    });
+    messages.push(
+      { role: "assistant", content: content ?? "" },
+      {
+        role: "user",
+        content: [
+          "That response doesn't match the required format:",
+          result.error,
+          "Reply with only the corrected JSON.",
+        ].join("\n"),
+      }
+    );
+    content = await complete();
+  }
+}
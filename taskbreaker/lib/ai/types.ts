@@ -0,0 +1,39 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// A JSON schema the response must follow, for backends that can enforce one
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: ResponseFormat;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  model: string;
+  // Null when the backend doesn't report usage
+  usage: TokenUsage | null;
+}
+
+// A chat model backend that the AI routes can call without knowing which vendor serves it
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields content deltas as the model generates them; `onUsage` is called
+  // once the backend reports token usage, if it does
+  stream(request: CompletionRequest, onUsage?: (usage: TokenUsage) => void): AsyncIterable<string>;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { estimateCost, fillUsageDays, getUsageStartDay } from "./usage";
+
+describe("estimateCost", () => {
+  it("should price prompt and completion tokens per million", () => {
+    const cost = estimateCost("gpt-4o-mini", { promptTokens: 1_000, completionTokens: 500 });
+
+    expect(cost).toBeCloseTo(0.00045);
+  });
+
+  it("should match dated snapshots to the longest model prefix", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 0 };
+
+    expect(estimateCost("gpt-4o-mini-2024-07-18", usage)).toBe(0.15);
+    expect(estimateCost("gpt-4o-2024-08-06", usage)).toBe(2.5);
+  });
+
+  it("should return null without pricing or token counts", () => {
+    expect(estimateCost("llama3.1", { promptTokens: 10, completionTokens: 10 })).toBeNull();
+    expect(estimateCost("gpt-4o-mini", null)).toBeNull();
+  });
+});
+
+describe("getUsageStartDay", () => {
+  it("should count today as the first day", () => {
+    const now = Date.parse("2026-10-19T23:30:00Z");
+
+    expect(getUsageStartDay(1, now)).toBe("2026-10-19");
+    expect(getUsageStartDay(30, now)).toBe("2026-09-20");
+  });
+});
+
+describe("fillUsageDays", () => {
+  it("should list every day newest first with zeroes for quiet days", () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    const usage = fillUsageDays(
+      [
+        {
+          day: "2026-10-18",
+          generations: 3,
+          promptTokens: 900,
+          completionTokens: 300,
+          costUsd: 0.0003,
+        },
+      ],
+      3,
+      now
+    );
+
+    expect(usage.map((day) => [day.day, day.generations])).toEqual([
+      ["2026-10-19", 0],
+      ["2026-10-18", 3],
+      ["2026-10-17", 0],
+    ]);
+  });
+});
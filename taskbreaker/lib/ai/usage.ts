@@ -0,0 +1,146 @@
+// Token usage and estimated cost of each AI generation, recorded against the
+// user and task so the bill can be traced back to users and features.
+import logger from "@/lib/logger";
+import { createServiceClient } from "@/lib/supabase/service";
+import type { DailyUsage } from "@/types/usage.types";
+import type { TokenUsage } from "./types";
+
+// The app features that call the model
+export type AIFeature =
+  | "breakdown"
+  | "task"
+  | "template"
+  | "regenerate"
+  | "subtask-breakdown";
+
+// US dollars per million tokens
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Keyed by model name prefix, since responses name dated snapshots such as
+// gpt-4o-mini-2024-07-18. Longer prefixes win, so gpt-4o-mini isn't priced as gpt-4o.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  fake: { input: 0, output: 0 },
+};
+
+export interface Generation {
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+  latencyMs: number;
+  taskId?: string | null;
+  // The prompt version that was rendered, e.g. task-breakdown version 2
+  prompt?: { name: string; version: number } | null;
+}
+
+/**
+ * Estimate what a generation cost in US dollars, or null when the model's
+ * pricing or the token counts aren't known (e.g. local models).
+ */
+export function estimateCost(model: string, usage: TokenUsage | null): number | null {
+  if (!usage) return null;
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return null;
+
+  const { input, output } = MODEL_PRICING[prefix];
+  const cost = (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000;
+  // Matches the precision of ai_generations.cost_usd
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * The first UTC day of a report covering `days` days up to and including today.
+ */
+export function getUsageStartDay(days: number, now = Date.now()): string {
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily totals for each of the last `days` UTC days, newest first, with
+ * zeroes for days without generations.
+ */
+export function fillUsageDays(
+  rows: DailyUsage[],
+  days: number,
+  now = Date.now()
+): DailyUsage[] {
+  const byDay = new Map(rows.map((row) => [row.day, row]));
+  return Array.from({ length: days }, (_, index) => {
+    const day = getUsageStartDay(index + 1, now);
+    return (
+      byDay.get(day) ?? { day, generations: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    );
+  });
+}
+
+/**
+ * Log a generation and, for signed-in users, store it in ai_generations.
+ * Best effort: a failure to record never fails the request.
+ */
+export async function recordGeneration(
+  userId: string | null,
+  generation: Generation,
+  requestId: string
+): Promise<void> {
+  const costUsd = estimateCost(generation.model, generation.usage);
+
+  logger.info("AI usage", {
+    requestId,
+    userId,
+    taskId: generation.taskId ?? null,
+    feature: generation.feature,
+    provider: generation.provider,
+    model: generation.model,
+    promptTokens: generation.usage?.promptTokens ?? null,
+    completionTokens: generation.usage?.completionTokens ?? null,
+    latencyMs: generation.latencyMs,
+    costUsd,
+    prompt: generation.prompt?.name ?? null,
+    promptVersion: generation.prompt?.version ?? null,
+  });
+
+  if (!userId) return;
+
+  // Written with the service role: users can't write ai_generations, so the
+  // token counts and cost can only come from the server
+  const supabase = createServiceClient();
+  if (!supabase) {
+    logger.warn("AI usage not recorded, SUPABASE_SERVICE_ROLE_KEY is not set", { requestId });
+    return;
+  }
+
+  try {
+    const { error } = await supabase.from("ai_generations").insert({
+      user_id: userId,
+      task_id: generation.taskId ?? null,
+      feature: generation.feature,
+      provider: generation.provider,
+      model: generation.model,
+      prompt_tokens: generation.usage?.promptTokens ?? null,
+      completion_tokens: generation.usage?.completionTokens ?? null,
+      latency_ms: generation.latencyMs,
+      cost_usd: costUsd,
+      prompt_name: generation.prompt?.name ?? null,
+      prompt_version: generation.prompt?.version ?? null,
+    });
+
+    if (error) {
+      logger.warn("Failed to record AI usage", { requestId, error: error.message });
+    }
+  } catch (error) {
+    logger.warn("Failed to record AI usage", { requestId, error: (error as Error).message });
+  }
+}
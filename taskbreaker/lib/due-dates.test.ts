@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDays,
+  formatDueDate,
+  getDueFilterRange,
+  getDueStatus,
+  groupByDueDate,
+  toDateString,
+} from "./due-dates";
+
+const today = "2026-10-19";
+
+describe("toDateString", () => {
+  it("should format a local date as YYYY-MM-DD", () => {
+    expect(toDateString(new Date(2026, 0, 5))).toBe("2026-01-05");
+  });
+});
+
+describe("addDays", () => {
+  it("should roll over month and year boundaries", () => {
+    expect(addDays("2026-12-30", 3)).toBe("2027-01-02");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
+
+describe("getDueStatus", () => {
+  it("should classify dates relative to today", () => {
+    expect(getDueStatus(null, today)).toBeNull();
+    expect(getDueStatus("2026-10-18", today)).toBe("overdue");
+    expect(getDueStatus("2026-10-19", today)).toBe("today");
+    expect(getDueStatus("2026-10-25", today)).toBe("week");
+    expect(getDueStatus("2026-10-26", today)).toBe("later");
+  });
+});
+
+describe("getDueFilterRange", () => {
+  it("should include today in the week filter", () => {
+    expect(getDueFilterRange("week", today)).toEqual({
+      from: "2026-10-19",
+      to: "2026-10-25",
+    });
+  });
+
+  it("should only bound overdue from above", () => {
+    expect(getDueFilterRange("overdue", today)).toEqual({ before: today });
+  });
+});
+
+describe("groupByDueDate", () => {
+  it("should group items into non-empty sections in display order", () => {
+    const items = [
+      { id: "a", due_date: null },
+      { id: "b", due_date: "2026-10-19" },
+      { id: "c", due_date: "2026-10-01" },
+      { id: "d", due_date: "2026-10-20" },
+      { id: "e", due_date: "2026-10-02" },
+    ];
+
+    const sections = groupByDueDate(items, today);
+
+    expect(sections.map((s) => s.status)).toEqual(["overdue", "today", "week", "none"]);
+    expect(sections[0].items.map((i) => i.id)).toEqual(["c", "e"]);
+  });
+});
+
+describe("formatDueDate", () => {
+  it("should use relative labels near today", () => {
+    expect(formatDueDate("2026-10-19", today)).toBe("Today");
+    expect(formatDueDate("2026-10-20", today)).toBe("Tomorrow");
+    expect(formatDueDate("2026-10-18", today)).toBe("Yesterday");
+  });
+
+  it("should show the month and day otherwise", () => {
+    expect(formatDueDate("2026-11-03", today)).toBe("Nov 3");
+    expect(formatDueDate("2027-01-03", today)).toBe("Jan 3, 2027");
+  });
+});
@@ -0,0 +1,96 @@
+// Due dates are stored as calendar days (YYYY-MM-DD) with no time zone, so all
+// comparisons are done on date strings against the viewer's local "today".
+
+export const DUE_FILTERS = ["overdue", "today", "week"] as const;
+export type DueFilter = (typeof DUE_FILTERS)[number];
+
+export type DueStatus = "overdue" | "today" | "week" | "later";
+
+// Dashboard sections, in display order; "none" holds tasks without a due date
+export const DUE_SECTIONS: { status: DueStatus | "none"; label: string }[] = [
+  { status: "overdue", label: "Overdue" },
+  { status: "today", label: "Due today" },
+  { status: "week", label: "This week" },
+  { status: "later", label: "Later" },
+  { status: "none", label: "No due date" },
+];
+
+/**
+ * Format a Date as a YYYY-MM-DD string in the local time zone.
+ */
+export function toDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Add whole days to a YYYY-MM-DD string.
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Classify a due date relative to today. "week" covers the six days after today.
+ */
+export function getDueStatus(dueDate: string | null, today: string): DueStatus | null {
+  if (!dueDate) return null;
+  if (dueDate < today) return "overdue";
+  if (dueDate === today) return "today";
+  if (dueDate <= addDays(today, 6)) return "week";
+  return "later";
+}
+
+/**
+ * Inclusive date bounds for an API due filter. "week" includes today.
+ */
+export function getDueFilterRange(
+  filter: DueFilter,
+  today: string
+): { from?: string; to?: string; before?: string } {
+  switch (filter) {
+    case "overdue":
+      return { before: today };
+    case "today":
+      return { from: today, to: today };
+    case "week":
+      return { from: today, to: addDays(today, 6) };
+  }
+}
+
+/**
+ * Group items into dashboard sections by due date, keeping their relative order
+ * and dropping empty sections.
+ */
+export function groupByDueDate<T extends { due_date: string | null }>(
+  items: T[],
+  today: string
+): { status: DueStatus | "none"; label: string; items: T[] }[] {
+  return DUE_SECTIONS.map((section) => ({
+    ...section,
+    items: items.filter(
+      (item) => (getDueStatus(item.due_date, today) ?? "none") === section.status
+    ),
+  })).filter((section) => section.items.length > 0);
+}
+
+/**
+ * Short human-readable label for a due date, e.g. "Today" or "Oct 24".
+ */
+export function formatDueDate(dueDate: string, today: string): string {
+  if (dueDate === today) return "Today";
+  if (dueDate === addDays(today, 1)) return "Tomorrow";
+  if (dueDate === addDays(today, -1)) return "Yesterday";
+
+  const date = new Date(`${dueDate}T00:00:00Z`);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(dueDate.slice(0, 4) !== today.slice(0, 4) && { year: "numeric" }),
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { formatEstimate, getRemainingMinutes, hasQuickWin } from "./estimates";
+import type { Subtask } from "@/types/task.types";
+
+function subtask(overrides: Partial<Subtask>): Subtask {
+  return {
+    id: "s",
+    parent_id: null,
+    text: "Step",
+    checked: false,
+    checked_by: null,
+    checked_at: null,
+    due_date: null,
+    estimated_minutes: null,
+    effort: null,
+    position: 0,
+    children: [],
+    ...overrides,
+  };
+}
+
+describe("formatEstimate", () => {
+  it("should format minutes and hours", () => {
+    expect(formatEstimate(45)).toBe("45m");
+    expect(formatEstimate(120)).toBe("2h");
+    expect(formatEstimate(90)).toBe("1h 30m");
+  });
+});
+
+describe("getRemainingMinutes", () => {
+  it("should sum unchecked leaf estimates and skip unestimated subtasks", () => {
+    const subtasks = [
+      subtask({ estimated_minutes: 30 }),
+      subtask({ estimated_minutes: 15, checked: true }),
+      subtask({ estimated_minutes: null }),
+    ];
+
+    expect(getRemainingMinutes(subtasks)).toBe(30);
+  });
+
+  it("should use children's estimates in place of a broken-down parent's", () => {
+    const subtasks = [
+      subtask({
+        estimated_minutes: 120,
+        children: [
+          subtask({ estimated_minutes: 20 }),
+          subtask({ estimated_minutes: 40, checked: true }),
+        ],
+      }),
+    ];
+
+    expect(getRemainingMinutes(subtasks)).toBe(20);
+  });
+});
+
+describe("hasQuickWin", () => {
+  it("should find unchecked quick wins at any depth", () => {
+    expect(
+      hasQuickWin([subtask({ children: [subtask({ effort: "quick" })] })])
+    ).toBe(true);
+  });
+
+  it("should ignore checked quick wins and deep work", () => {
+    expect(
+      hasQuickWin([
+        subtask({ effort: "quick", checked: true }),
+        subtask({ effort: "deep" }),
+      ])
+    ).toBe(false);
+  });
+});
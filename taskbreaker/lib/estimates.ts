@@ -0,0 +1,35 @@
+import type { Subtask } from "@/types/task.types";
+
+/**
+ * Format a duration in minutes as "45m", "2h" or "1h 30m".
+ */
+export function formatEstimate(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Sum the estimates of unchecked leaf subtasks. Once a subtask is broken down,
+ * its children's estimates replace its own, matching how progress rolls up.
+ */
+export function getRemainingMinutes(subtasks: Subtask[]): number {
+  return subtasks.reduce((total, subtask) => {
+    if (subtask.children.length > 0) {
+      return total + getRemainingMinutes(subtask.children);
+    }
+    return subtask.checked ? total : total + (subtask.estimated_minutes ?? 0);
+  }, 0);
+}
+
+/**
+ * True if any unchecked leaf subtask is marked as a quick win.
+ */
+export function hasQuickWin(subtasks: Subtask[]): boolean {
+  return subtasks.some((subtask) =>
+    subtask.children.length > 0
+      ? hasQuickWin(subtask.children)
+      : !subtask.checked && subtask.effort === "quick"
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { getExportFilename, toCsv, toIcs, toJson, toMarkdown } from "./export";
+import { buildSubtaskTree } from "./subtasks";
+import type { SubtaskRow, Task } from "@/types/task.types";
+
+const row = (
+  fields: Pick<SubtaskRow, "id" | "parent_id" | "text" | "checked" | "position">
+): SubtaskRow => ({
+  checked_by: null,
+  checked_at: null,
+  due_date: null,
+  estimated_minutes: null,
+  effort: null,
+  ...fields,
+});
+
+const task: Task = {
+  id: "t1",
+  title: "Plan party",
+  description: "Saturday, 20 guests",
+  due_date: "2026-10-24",
+  priority: "high",
+  tags: ["home", "fun"],
+  position: null,
+  archived_at: null,
+  deleted_at: null,
+  created_at: "2026-10-19T10:00:00Z",
+  subtasks: buildSubtaskTree([
+    row({ id: "a", parent_id: null, text: "Order cake", checked: true, position: 0 }),
+    row({ id: "b", parent_id: null, text: "Games", checked: false, position: 1 }),
+    row({ id: "b1", parent_id: "b", text: 'Buy "prizes", wrap', checked: false, position: 0 }),
+  ]),
+};
+
+const undated: Task = {
+  ...task,
+  id: "t2",
+  title: "Tidy up",
+  due_date: null,
+  tags: [],
+  subtasks: [],
+};
+
+describe("toMarkdown", () => {
+  it("should render a nested checklist under the task heading", () => {
+    expect(toMarkdown([task])).toBe(
+      [
+        "# Plan party",
+        "",
+        "Saturday, 20 guests",
+        "",
+        "Due: 2026-10-24 · Priority: high · Tags: #home #fun",
+        "",
+        "- [x] Order cake",
+        "- [ ] Games",
+        '  - [ ] Buy "prizes", wrap',
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("toJson", () => {
+  it("should wrap tasks like the task list response", () => {
+    expect(JSON.parse(toJson([task]))).toEqual({ tasks: [task] });
+  });
+});
+
+describe("toCsv", () => {
+  it("should write one row per subtask and quote special characters", () => {
+    const lines = toCsv([task, undated]).split("\r\n");
+
+    expect(lines[0]).toBe(
+      "task,task_due_date,priority,tags,subtask,depth,checked,due_date,estimated_minutes,effort"
+    );
+    expect(lines[1]).toBe("Plan party,2026-10-24,high,home fun,Order cake,1,true,,,");
+    expect(lines[3]).toBe('Plan party,2026-10-24,high,home fun,"Buy ""prizes"", wrap",2,false,,,');
+    expect(lines[4]).toBe("Tidy up,,high,,,,,,,");
+    expect(lines).toHaveLength(6);
+  });
+
+  it("should neutralize values that spreadsheets would run as formulas", () => {
+    const csv = toCsv([{ ...undated, title: "=HYPERLINK(1)" }]);
+
+    expect(csv.split("\r\n")[1].startsWith("'=HYPERLINK(1)")).toBe(true);
+  });
+});
+
+describe("toIcs", () => {
+  const now = new Date("2026-10-19T12:30:00.000Z");
+
+  it("should add an all-day event for tasks with a due date only", () => {
+    const ics = toIcs([task, undated], now);
+
+    expect(ics).toContain("UID:t1@taskbreaker\r\n");
+    expect(ics).toContain("DTSTAMP:20261019T123000Z\r\n");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20261024\r\nDTEND;VALUE=DATE:20261025\r\n");
+    expect(ics).not.toContain("t2@taskbreaker");
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it("should escape text and fold long lines", () => {
+    const ics = toIcs([task], now);
+
+    expect(ics).toContain("DESCRIPTION:- [x] Order cake\\n- [ ] Games\\n  - [ ] Buy \"prizes\"\\,");
+    ics.split("\r\n").forEach((line) => expect(line.length).toBeLessThanOrEqual(75));
+  });
+});
+
+describe("getExportFilename", () => {
+  it("should name single-task exports after the task", () => {
+    expect(getExportFilename("markdown", { title: "Plan Mom's party!" }, "2026-10-19")).toBe(
+      "plan-mom-s-party.md"
+    );
+  });
+
+  it("should fall back to the date for full exports and unnamed tasks", () => {
+    expect(getExportFilename("ics", null, "2026-10-19")).toBe("taskbreaker-2026-10-19.ics");
+    expect(getExportFilename("csv", { title: "???" }, "2026-10-19")).toBe(
+      "taskbreaker-2026-10-19.csv"
+    );
+  });
+});
@@ -0,0 +1,214 @@
+// Formats for getting tasks out of TaskBreaker. Each formatter takes tasks in
+// the same shape GET /api/tasks returns, with subtasks already nested.
+import type { Subtask, Task } from "@/types/task.types";
+import type { ExportFormat } from "@/lib/schemas";
+import { isSubtaskComplete } from "@/lib/subtasks";
+import { addDays } from "@/lib/due-dates";
+
+export const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; contentType: string }
+> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  ics: { extension: "ics", contentType: "text/calendar; charset=utf-8" },
+};
+
+// Nested checklist lines, two spaces of indent per level
+function toChecklist(subtasks: Subtask[], depth = 0): string[] {
+  return subtasks.flatMap((subtask) => {
+    const box = isSubtaskComplete(subtask) ? "[x]" : "[ ]";
+    const due = subtask.due_date ? ` (due ${subtask.due_date})` : "";
+    return [
+      `${"  ".repeat(depth)}- ${box} ${subtask.text}${due}`,
+      ...toChecklist(subtask.children, depth + 1),
+    ];
+  });
+}
+
+/**
+ * One heading per task followed by its details and a `- [x]` checklist.
+ */
+export function toMarkdown(tasks: Task[]): string {
+  return tasks
+    .map((task) => {
+      const details = [
+        task.due_date && `Due: ${task.due_date}`,
+        `Priority: ${task.priority}`,
+        task.tags.length > 0 && `Tags: ${task.tags.map((tag) => `#${tag}`).join(" ")}`,
+      ].filter(Boolean);
+
+      return [
+        `# ${task.title}`,
+        "",
+        ...(task.description ? [task.description, ""] : []),
+        details.join(" · "),
+        "",
+        ...toChecklist(task.subtasks),
+      ].join("\n");
+    })
+    .join("\n\n")
+    .concat("\n");
+}
+
+/**
+ * The tasks wrapped like the GET /api/tasks response, pretty-printed.
+ */
+export function toJson(tasks: Task[]): string {
+  return `${JSON.stringify({ tasks }, null, 2)}\n`;
+}
+
+type CsvValue = string | number | boolean | null;
+
+const CSV_HEADER = [
+  "task",
+  "task_due_date",
+  "priority",
+  "tags",
+  "subtask",
+  "depth",
+  "checked",
+  "due_date",
+  "estimated_minutes",
+  "effort",
+];
+
+// Quote fields per RFC 4180, and keep spreadsheets from running values that
+// look like formulas
+function csvField(value: CsvValue): string {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per subtask at any depth, repeating the task's columns. Tasks without
+ * subtasks get a single row with the subtask columns empty.
+ */
+export function toCsv(tasks: Task[]): string {
+  const rows = tasks.flatMap((task): CsvValue[][] => {
+    const taskColumns = [task.title, task.due_date, task.priority, task.tags.join(" ")];
+
+    const subtaskRows = (subtasks: Subtask[], depth: number): CsvValue[][] =>
+      subtasks.flatMap((subtask) => [
+        [
+          ...taskColumns,
+          subtask.text,
+          depth,
+          isSubtaskComplete(subtask),
+          subtask.due_date,
+          subtask.estimated_minutes,
+          subtask.effort,
+        ],
+        ...subtaskRows(subtask.children, depth + 1),
+      ]);
+
+    return task.subtasks.length > 0
+      ? subtaskRows(task.subtasks, 1)
+      : [[...taskColumns, null, null, null, null, null, null]];
+  });
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 bytes are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > 75) {
+      parts.push(current);
+      current = " ";
+      bytes = 1;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n");
+}
+
+const icsDate = (date: string) => date.replace(/-/g, "");
+
+/**
+ * An iCalendar file with an all-day event on the due date of each task that
+ * has one. The event description holds the checklist.
+ */
+export function toIcs(tasks: Task[], now: Date): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+  const events = tasks
+    .filter((task): task is Task & { due_date: string } => task.due_date !== null)
+    .flatMap((task) => [
+      "BEGIN:VEVENT",
+      `UID:${task.id}@taskbreaker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(task.due_date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(task.due_date, 1))}`,
+      `SUMMARY:${icsText(task.title)}`,
+      ...(task.subtasks.length > 0
+        ? [`DESCRIPTION:${icsText(toChecklist(task.subtasks).join("\n"))}`]
+        : []),
+      "END:VEVENT",
+    ]);
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TaskBreaker//Export//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+/**
+ * Render tasks in an export format.
+ */
+export function formatExport(format: ExportFormat, tasks: Task[], now: Date): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(tasks);
+    case "json":
+      return toJson(tasks);
+    case "csv":
+      return toCsv(tasks);
+    case "ics":
+      return toIcs(tasks, now);
+  }
+}
+
+/**
+ * Download name: the task title for a single task, otherwise the export date.
+ */
+export function getExportFilename(
+  format: ExportFormat,
+  task: Pick<Task, "title"> | null,
+  today: string
+): string {
+  const slug = task
+    ? task.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 50)
+    : "";
+  return `${slug || `taskbreaker-${today}`}.${EXPORT_FILE_TYPES[format].extension}`;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { parseImport, parseMarkdownTasks, toSubtaskSeeds } from "./import";
+import { toJson, toMarkdown } from "./export";
+import { buildSubtaskTree } from "./subtasks";
+import type { Task } from "@/types/task.types";
+
+const exported: Task = {
+  id: "t1",
+  title: "Plan offsite",
+  description: "For the whole team",
+  due_date: "2026-10-30",
+  priority: "high",
+  tags: ["work", "q4"],
+  position: null,
+  archived_at: null,
+  deleted_at: null,
+  created_at: "2026-10-19T10:00:00Z",
+  subtasks: buildSubtaskTree([
+    {
+      id: "s1",
+      parent_id: null,
+      text: "Book venue",
+      checked: false,
+      checked_by: null,
+      checked_at: null,
+      due_date: "2026-10-24",
+      estimated_minutes: 30,
+      effort: "quick",
+      position: 0,
+    },
+    {
+      id: "s2",
+      parent_id: "s1",
+      text: "Shortlist options",
+      checked: true,
+      checked_by: "u1",
+      checked_at: "2026-10-19T11:00:00Z",
+      due_date: null,
+      estimated_minutes: null,
+      effort: null,
+      position: 0,
+    },
+  ]),
+  role: "owner",
+  members: [],
+};
+
+describe("parseMarkdownTasks", () => {
+  it("should turn headings into tasks and nested checklist items into subtasks", () => {
+    const tasks = parseMarkdownTasks(
+      [
+        "# Move house",
+        "Before the lease ends",
+        "- [ ] Pack",
+        "    - [X] Kitchen",
+        "    - [ ] Books",
+        "* [x] Book movers",
+        "",
+        "## Garden",
+        "- [ ] Mow",
+      ].join("\n")
+    );
+
+    expect(tasks.map((task) => task.title)).toEqual(["Move house", "Garden"]);
+    expect(tasks[0].description).toBe("Before the lease ends");
+    expect(tasks[0].subtasks.map((s) => [s.text, s.checked])).toEqual([
+      ["Pack", false],
+      ["Book movers", true],
+    ]);
+    expect(tasks[0].subtasks[0].children.map((s) => [s.text, s.checked])).toEqual([
+      ["Kitchen", true],
+      ["Books", false],
+    ]);
+    expect(tasks[1].subtasks).toHaveLength(1);
+  });
+
+  it("should collect checklist items before the first heading", () => {
+    const [task] = parseMarkdownTasks("- [ ] Call the bank\n- [ ] Pay rent");
+
+    expect(task.title).toBe("Imported checklist");
+    expect(task.subtasks).toHaveLength(2);
+  });
+
+  it("should read back the details and due dates written by the Markdown export", () => {
+    const [task] = parseMarkdownTasks(toMarkdown([exported]));
+
+    expect(task).toMatchObject({
+      title: "Plan offsite",
+      description: "For the whole team",
+      due_date: "2026-10-30",
+      priority: "high",
+      tags: ["work", "q4"],
+    });
+    expect(task.subtasks[0]).toMatchObject({ text: "Book venue", due_date: "2026-10-24" });
+    expect(task.subtasks[0].children[0]).toMatchObject({
+      text: "Shortlist options",
+      checked: true,
+    });
+  });
+});
+
+describe("parseImport", () => {
+  it("should accept JSON in the export shape", () => {
+    const result = parseImport("json", toJson([exported]));
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.tasks[0]).toMatchObject({ title: "Plan offsite", priority: "high" });
+      expect(result.tasks[0].subtasks[0]).toMatchObject({
+        text: "Book venue",
+        estimated_minutes: 30,
+        effort: "quick",
+      });
+      expect(result.tasks[0]).not.toHaveProperty("id");
+    }
+  });
+
+  it("should report invalid JSON and point validation errors at the task", () => {
+    expect(parseImport("json", "{ tasks:")).toEqual({ success: false, error: "Invalid JSON" });
+    expect(parseImport("json", '{ "tasks": [{ "title": "Ok" }, { "title": "" }] }')).toEqual({
+      success: false,
+      error: "Task 2: Title is required",
+    });
+    expect(parseImport("markdown", "Just some notes")).toEqual({
+      success: false,
+      error: "No tasks found to import",
+    });
+  });
+});
+
+describe("toSubtaskSeeds", () => {
+  it("should map imported subtasks to the row builder's shape", () => {
+    const result = parseImport("json", toJson([exported]));
+    if (!result.success) throw new Error(result.error);
+
+    const [seed] = toSubtaskSeeds(result.tasks[0].subtasks);
+
+    expect(seed).toMatchObject({
+      text: "Book venue",
+      minutes: 30,
+      effort: "quick",
+      checked: false,
+      due_date: "2026-10-24",
+    });
+    expect(seed.children[0]).toMatchObject({ text: "Shortlist options", checked: true });
+  });
+});
@@ -0,0 +1,157 @@
+// Parsing for POST /api/tasks/import. Markdown checklists and JSON exports are
+// turned into the same plain objects, then validated by importTaskListSchema.
+import { z } from "zod";
+import {
+  importTaskListSchema,
+  type ImportFormat,
+  type ImportSubtask,
+  type ImportTask,
+} from "@/lib/schemas";
+import type { SubtaskSeed } from "@/lib/templates";
+
+// Parsed Markdown, before validation fills in defaults and normalizes values
+export interface MarkdownSubtask {
+  text: string;
+  checked: boolean;
+  due_date: string | null;
+  children: MarkdownSubtask[];
+}
+
+export interface MarkdownTask {
+  title: string;
+  description?: string;
+  due_date?: string;
+  priority?: string;
+  tags?: string[];
+  subtasks: MarkdownSubtask[];
+}
+
+export type ImportResult =
+  | { success: true; tasks: ImportTask[] }
+  | { success: false; error: string };
+
+const HEADING = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const CHECKLIST_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+// Written by the Markdown export after a subtask, e.g. "Book venue (due 2026-10-24)"
+const ITEM_DUE_DATE = /\s+\(due (\d{4}-\d{2}-\d{2})\)$/;
+// The export's "Due: 2026-10-24 · Priority: high · Tags: #work" line
+const DETAIL = /^(Due|Priority|Tags):\s*(.+)$/;
+
+// Tabs count as four spaces, so mixed indentation still nests sensibly
+const indentWidth = (indent: string) => indent.replace(/\t/g, "    ").length;
+
+/**
+ * Apply the export's task details line, if that's what the line is.
+ * Returns false for any other text so it can become part of the description.
+ */
+function applyDetails(task: MarkdownTask, line: string): boolean {
+  const parts = line.split(/\s+·\s+/).map((part) => DETAIL.exec(part));
+  if (!parts.every((match) => match !== null)) return false;
+
+  for (const [, label, value] of parts) {
+    if (label === "Due") task.due_date = value.trim();
+    if (label === "Priority") task.priority = value.trim().toLowerCase();
+    if (label === "Tags") {
+      task.tags = value
+        .trim()
+        .split(/\s+(?=#)/)
+        .map((tag) => tag.replace(/^#/, ""));
+    }
+  }
+  return true;
+}
+
+/**
+ * Parse Markdown notes into tasks. Each heading starts a task, and `- [ ]` or
+ * `- [x]` items below it become subtasks, nested by indentation. Other text
+ * under a heading becomes the task's description. Checklist items before the
+ * first heading are collected into an "Imported checklist" task.
+ */
+export function parseMarkdownTasks(markdown: string): MarkdownTask[] {
+  const tasks: MarkdownTask[] = [];
+  // Open checklist items of the last task, outermost first, with their indentation
+  let stack: { indent: number; subtask: MarkdownSubtask }[] = [];
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      tasks.push({ title: heading[1], subtasks: [] });
+      stack = [];
+      continue;
+    }
+
+    const item = CHECKLIST_ITEM.exec(line);
+    if (item) {
+      if (tasks.length === 0) tasks.push({ title: "Imported checklist", subtasks: [] });
+      const [, indent, box, rawText] = item;
+      const dueDate = ITEM_DUE_DATE.exec(rawText);
+      const subtask: MarkdownSubtask = {
+        text: dueDate ? rawText.slice(0, dueDate.index) : rawText,
+        checked: box !== " ",
+        due_date: dueDate ? dueDate[1] : null,
+        children: [],
+      };
+
+      const width = indentWidth(indent);
+      while (stack.length > 0 && stack[stack.length - 1].indent >= width) stack.pop();
+      const parent = stack[stack.length - 1]?.subtask;
+      (parent ? parent.children : tasks[tasks.length - 1].subtasks).push(subtask);
+      stack.push({ indent: width, subtask });
+      continue;
+    }
+
+    const task = tasks[tasks.length - 1];
+    const text = line.trim();
+    if (!text || !task) continue;
+    // The details line comes before the checklist in exported Markdown
+    if (task.subtasks.length === 0 && applyDetails(task, text)) continue;
+    task.description = task.description ? `${task.description}\n${text}` : text;
+  }
+
+  return tasks;
+}
+
+// Point validation errors at the task they belong to
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const [field, index] = issue.path;
+  return field === "tasks" && typeof index === "number"
+    ? `Task ${index + 1}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Parse and validate import content. JSON must be shaped like a JSON export,
+ * an object with a `tasks` array; fields like IDs and roles are ignored.
+ */
+export function parseImport(format: ImportFormat, content: string): ImportResult {
+  let data: unknown;
+  if (format === "markdown") {
+    data = { tasks: parseMarkdownTasks(content) };
+  } else {
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { success: false, error: "Invalid JSON" };
+    }
+  }
+
+  const result = importTaskListSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: formatIssue(result.error.issues[0]) };
+  }
+  return { success: true, tasks: result.data.tasks };
+}
+
+/**
+ * Convert imported subtasks to rows for buildSubtaskRows.
+ */
+export function toSubtaskSeeds(subtasks: ImportSubtask[]): SubtaskSeed[] {
+  return subtasks.map((subtask) => ({
+    text: subtask.text,
+    minutes: subtask.estimated_minutes,
+    effort: subtask.effort,
+    checked: subtask.checked,
+    due_date: subtask.due_date,
+    children: toSubtaskSeeds(subtask.children),
+  }));
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPendingMutations,
+  applySubtaskFields,
+  enqueueMutation,
+  getSubtaskFields,
+  isRetryableStatus,
+  loadPendingMutations,
+  savePendingMutations,
+  sendPendingMutations,
+  type PendingMutation,
+} from "./mutation-queue";
+import type { Subtask, Task } from "@/types/task.types";
+
+const subtask = (fields: Partial<Subtask> = {}): Subtask => ({
+  id: "s1",
+  parent_id: null,
+  text: "Order cake",
+  checked: false,
+  checked_by: null,
+  checked_at: null,
+  due_date: null,
+  estimated_minutes: null,
+  effort: null,
+  position: 0,
+  children: [],
+  ...fields,
+});
+
+const mutation = (fields: Partial<PendingMutation> = {}): PendingMutation => ({
+  id: "m1",
+  taskId: "t1",
+  subtaskId: "s1",
+  userId: "me",
+  fields: { checked: true },
+  previous: { checked: false },
+  ...fields,
+});
+
+// In-memory stand-in for localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    items,
+  };
+};
+
+describe("getSubtaskFields", () => {
+  it("should capture only the fields being changed", () => {
+    const current = subtask({ due_date: "2026-10-24" });
+
+    expect(getSubtaskFields(current, { dueDate: null })).toEqual({ dueDate: "2026-10-24" });
+    expect(getSubtaskFields(current, { checked: true, text: "x" })).toEqual({
+      checked: false,
+      text: "Order cake",
+    });
+  });
+});
+
+describe("applySubtaskFields", () => {
+  it("should credit the user when checking off a subtask", () => {
+    const updated = applySubtaskFields(subtask(), { checked: true }, "me");
+
+    expect(updated).toMatchObject({ checked: true, checked_by: "me" });
+    expect(updated.checked_at).not.toBeNull();
+  });
+
+  it("should map the due date to its column", () => {
+    expect(applySubtaskFields(subtask(), { dueDate: "2026-10-24" }, "me").due_date).toBe(
+      "2026-10-24"
+    );
+  });
+});
+
+describe("applyPendingMutations", () => {
+  it("should reapply unsent edits to freshly loaded tasks", () => {
+    const tasks: Task[] = [
+      {
+        id: "t1",
+        title: "Plan party",
+        description: null,
+        due_date: null,
+        priority: "medium",
+        tags: [],
+        position: null,
+        archived_at: null,
+        deleted_at: null,
+        created_at: "2026-10-19T10:00:00Z",
+        subtasks: [subtask()],
+      },
+    ];
+
+    const [task] = applyPendingMutations(tasks, [
+      mutation(),
+      mutation({ id: "m2", fields: { text: "Order a big cake" }, previous: {} }),
+    ]);
+
+    expect(task.subtasks[0]).toMatchObject({ checked: true, text: "Order a big cake" });
+  });
+});
+
+describe("enqueueMutation", () => {
+  it("should merge edits to a subtask that is already queued", () => {
+    const queue = enqueueMutation(
+      [mutation()],
+      mutation({ id: "m2", fields: { text: "Order pie" }, previous: { text: "Order cake" } }),
+      null
+    );
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({
+      id: "m1",
+      fields: { checked: true, text: "Order pie" },
+      previous: { checked: false, text: "Order cake" },
+    });
+  });
+
+  it("should drop a queued edit that is undone", () => {
+    const undo = mutation({ id: "m2", fields: { checked: false }, previous: { checked: true } });
+
+    expect(enqueueMutation([mutation()], undo, null)).toEqual([]);
+  });
+
+  it("should not merge into the edit being sent", () => {
+    const undo = mutation({ id: "m2", fields: { checked: false }, previous: { checked: true } });
+
+    expect(enqueueMutation([mutation()], undo, "m1").map((m) => m.id)).toEqual(["m1", "m2"]);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("should retry server errors and rate limits but not rejections", () => {
+    expect([500, 503, 429, 408].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404].some(isRetryableStatus)).toBe(false);
+  });
+});
+
+describe("sendPendingMutations", () => {
+  // A queue that answers each edit with the given status, recording what happened
+  const sender = (queue: PendingMutation[], statuses: Record<string, number>) => {
+    const saved: string[] = [];
+    const rejected: string[] = [];
+    const state = { queue };
+    return {
+      state,
+      saved,
+      rejected,
+      getQueue: () => state.queue,
+      setQueue: (next: PendingMutation[]) => {
+        state.queue = next;
+      },
+      isOnline: () => true,
+      send: async (m: PendingMutation) => {
+        const status = statuses[m.id];
+        return { ok: status < 400, status, body: status < 400 ? {} : { error: "Nope" } };
+      },
+      onSaved: (m: PendingMutation) => saved.push(m.id),
+      onRejected: (m: PendingMutation) => rejected.push(m.id),
+    };
+  };
+
+  it("should drop an edit to a deleted subtask and send the ones behind it", async () => {
+    const queue = [mutation(), mutation({ id: "m2", subtaskId: "s2" })];
+    const s = sender(queue, { m1: 404, m2: 200 });
+
+    expect(await sendPendingMutations(s)).toBe("saved");
+    expect(s.state.queue).toEqual([]);
+    expect(s.rejected).toEqual(["m1"]);
+    expect(s.saved).toEqual(["m2"]);
+  });
+
+  it("should keep the queue when the server fails", async () => {
+    const queue = [mutation(), mutation({ id: "m2", subtaskId: "s2" })];
+    const s = sender(queue, { m1: 500, m2: 200 });
+
+    expect(await sendPendingMutations(s)).toBe("error");
+    expect(s.state.queue).toEqual(queue);
+    expect(s.saved).toEqual([]);
+  });
+
+  it("should keep the queue and stop when the session has expired", async () => {
+    const queue = [mutation(), mutation({ id: "m2", subtaskId: "s2" })];
+    const s = sender(queue, { m1: 401, m2: 200 });
+
+    expect(await sendPendingMutations(s)).toBe("signed-out");
+    expect(s.state.queue).toEqual(queue);
+    expect(s.rejected).toEqual([]);
+  });
+
+  it("should stop while offline or unreachable", async () => {
+    const offline = { ...sender([mutation()], { m1: 200 }), isOnline: () => false };
+    expect(await sendPendingMutations(offline)).toBe("offline");
+
+    const unreachable = {
+      ...sender([mutation()], { m1: 200 }),
+      send: async () => Promise.reject(new Error("Failed to fetch")),
+    };
+    expect(await sendPendingMutations(unreachable)).toBe("offline");
+    expect(unreachable.state.queue).toHaveLength(1);
+  });
+});
+
+describe("loadPendingMutations", () => {
+  it("should round-trip the queue per user and clear it once empty", () => {
+    const storage = memoryStorage();
+
+    savePendingMutations(storage, "me", [mutation()]);
+    expect(loadPendingMutations(storage, "me")).toEqual([mutation()]);
+    expect(loadPendingMutations(storage, "someone-else")).toEqual([]);
+
+    savePendingMutations(storage, "me", []);
+    expect(storage.items.size).toBe(0);
+  });
+
+  it("should ignore unreadable data", () => {
+    const storage = memoryStorage();
+    storage.setItem("taskbreaker:pending-mutations:me", "{not json");
+
+    expect(loadPendingMutations(storage, "me")).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+// Subtask edits on the dashboard show up right away and are saved through a
+// queue kept in localStorage, so changes made offline are sent once the
+// connection returns, even after a reload.
+import type { Subtask, Task } from "@/types/task.types";
+import type { UpdateSubtaskInput } from "@/lib/schemas";
+import { updateSubtaskInTree } from "@/lib/subtasks";
+import logger from "@/lib/logger";
+
+export interface PendingMutation {
+  id: string;
+  taskId: string;
+  subtaskId: string;
+  // Who made the edit, credited for check-offs until the server's copy arrives
+  userId: string;
+  // Body for PATCH /api/tasks/[taskId]/subtasks/[subtaskId]
+  fields: UpdateSubtaskInput;
+  // The same fields before the change, restored if the server rejects it
+  previous: UpdateSubtaskInput;
+}
+
+// "saved" once the queue is empty, "offline" while requests can't reach the
+// server, and "error" while it is failing with a status worth retrying
+export type SyncStatus = "saved" | "saving" | "offline" | "error" | "signed-out";
+
+const storageKey = (userId: string) => `taskbreaker:pending-mutations:${userId}`;
+
+/**
+ * The current values of the fields a mutation is about to change.
+ */
+export function getSubtaskFields(
+  subtask: Subtask,
+  fields: UpdateSubtaskInput
+): UpdateSubtaskInput {
+  return {
+    ...(fields.checked !== undefined && { checked: subtask.checked }),
+    ...(fields.text !== undefined && { text: subtask.text }),
+    ...(fields.dueDate !== undefined && { dueDate: subtask.due_date }),
+  };
+}
+
+/**
+ * Apply mutation fields to a subtask. Checking it off credits `userId` until
+ * the server's copy arrives.
+ */
+export function applySubtaskFields(
+  subtask: Subtask,
+  fields: UpdateSubtaskInput,
+  userId: string | null
+): Subtask {
+  const checkedNow = fields.checked === true && !subtask.checked;
+  return {
+    ...subtask,
+    ...(fields.checked !== undefined && { checked: fields.checked }),
+    ...(checkedNow && { checked_by: userId, checked_at: new Date().toISOString() }),
+    ...(fields.text !== undefined && { text: fields.text }),
+    ...(fields.dueDate !== undefined && { due_date: fields.dueDate }),
+  };
+}
+
+/**
+ * Apply mutation fields to a subtask wherever it is in the task list.
+ */
+export function applyMutationToTasks(
+  tasks: Task[],
+  mutation: Pick<PendingMutation, "taskId" | "subtaskId">,
+  fields: UpdateSubtaskInput,
+  userId: string | null
+): Task[] {
+  return tasks.map((task) =>
+    task.id === mutation.taskId
+      ? {
+          ...task,
+          subtasks: updateSubtaskInTree(task.subtasks, mutation.subtaskId, (subtask) =>
+            applySubtaskFields(subtask, fields, userId)
+          ),
+        }
+      : task
+  );
+}
+
+/**
+ * Reapply unsent changes on top of tasks loaded from the server.
+ */
+export function applyPendingMutations(tasks: Task[], queue: PendingMutation[]): Task[] {
+  return queue.reduce(
+    (result, mutation) =>
+      applyMutationToTasks(result, mutation, mutation.fields, mutation.userId),
+    tasks
+  );
+}
+
+const isUnchanged = ({ fields, previous }: PendingMutation) =>
+  (Object.keys(fields) as (keyof UpdateSubtaskInput)[]).every(
+    (key) => fields[key] === previous[key]
+  );
+
+/**
+ * Add a mutation to the queue. Changes to a subtask that already has one
+ * waiting are merged into it, and dropped if they undo it, unless that
+ * request is already being sent.
+ */
+export function enqueueMutation(
+  queue: PendingMutation[],
+  mutation: PendingMutation,
+  sendingId: string | null
+): PendingMutation[] {
+  const index = queue.findLastIndex(
+    (queued) => queued.subtaskId === mutation.subtaskId && queued.id !== sendingId
+  );
+  if (index === -1) return [...queue, mutation];
+
+  const queued = queue[index];
+  const merged = {
+    ...queued,
+    fields: { ...queued.fields, ...mutation.fields },
+    previous: { ...mutation.previous, ...queued.previous },
+  };
+  return isUnchanged(merged)
+    ? queue.filter((_, i) => i !== index)
+    : queue.map((item, i) => (i === index ? merged : item));
+}
+
+/**
+ * Whether a failed save should stay queued and be tried again. Anything else
+ * but a 401 means the server rejected the change, so it is rolled back.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// What the server said about one queued edit
+export interface MutationResponse {
+  ok: boolean;
+  status: number;
+  body: { error?: string; subtask?: Pick<Subtask, "checked_by" | "checked_at"> };
+}
+
+export interface MutationSender {
+  // The queue as it is now; edits made while one is in flight are appended
+  getQueue: () => PendingMutation[];
+  setQueue: (queue: PendingMutation[]) => void;
+  isOnline: () => boolean;
+  // Throws when the server can't be reached at all
+  send: (mutation: PendingMutation) => Promise<MutationResponse>;
+  onSaved: (mutation: PendingMutation, response: MutationResponse, rest: PendingMutation[]) => void;
+  onRejected: (mutation: PendingMutation, response: MutationResponse) => void;
+}
+
+/**
+ * Send queued edits one at a time, oldest first. Saved and rejected edits
+ * leave the queue; a retryable failure, a lost connection or an expired
+ * session stops the run with the rest still queued. Returns the sync status
+ * to show.
+ */
+export async function sendPendingMutations({
+  getQueue,
+  setQueue,
+  isOnline,
+  send,
+  onSaved,
+  onRejected,
+}: MutationSender): Promise<Exclude<SyncStatus, "saving">> {
+  while (getQueue().length > 0) {
+    if (!isOnline()) return "offline";
+
+    const mutation = getQueue()[0];
+    let response: MutationResponse;
+    try {
+      response = await send(mutation);
+    } catch (err) {
+      // No response at all; the online event or the retry button sends it again
+      logger.warn("Failed to reach the server, keeping edits queued", {
+        error: (err as Error).message,
+      });
+      return "offline";
+    }
+
+    // Retrying won't help until the user signs in again, which sends them
+    if (response.status === 401) {
+      logger.warn("Session expired, keeping edits queued", { status: response.status });
+      return "signed-out";
+    }
+
+    if (!response.ok && isRetryableStatus(response.status)) {
+      logger.warn("Failed to save subtask, will retry", { status: response.status });
+      return "error";
+    }
+
+    const rest = getQueue().filter((m) => m.id !== mutation.id);
+    setQueue(rest);
+
+    if (response.ok) {
+      onSaved(mutation, response, rest);
+    } else {
+      onRejected(mutation, response);
+    }
+  }
+
+  return "saved";
+}
+
+/**
+ * Read the user's unsent changes; anything unreadable is discarded.
+ */
+export function loadPendingMutations(
+  storage: Pick<Storage, "getItem">,
+  userId: string
+): PendingMutation[] {
+  try {
+    const stored = JSON.parse(storage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the user's unsent changes, clearing the entry once they're all saved.
+ */
+export function savePendingMutations(
+  storage: Pick<Storage, "setItem" | "removeItem">,
+  userId: string,
+  queue: PendingMutation[]
+): void {
+  if (queue.length === 0) {
+    storage.removeItem(storageKey(userId));
+  } else {
+    storage.setItem(storageKey(userId), JSON.stringify(queue));
+  }
+}
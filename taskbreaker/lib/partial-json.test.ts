@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { createPartialBreakdownReader, parsePartialBreakdown } from "./partial-json";
+
+describe("parsePartialBreakdown", () => {
+  it("should extract the title and completed subtasks from a partial object", () => {
+    const result = parsePartialBreakdown(
+      '{"title": "Birthday Party", "subtasks": ["Send invitations", "Order ca'
+    );
+
+    expect(result.title).toBe("Birthday Party");
+    expect(result.subtasks).toEqual(["Send invitations"]);
+  });
+
+  it("should not return a title that is still streaming", () => {
+    const result = parsePartialBreakdown('{"title": "Birthday Pa');
+
+    expect(result.title).toBeNull();
+    expect(result.subtasks).toEqual([]);
+  });
+
+  it("should read a bare JSON array of subtasks", () => {
+    const result = parsePartialBreakdown('["Buy cake", "Buy decorations"');
+
+    expect(result.title).toBeNull();
+    expect(result.subtasks).toEqual(["Buy cake", "Buy decorations"]);
+  });
+
+  it("should read the text of completed subtask objects", () => {
+    const result = parsePartialBreakdown(
+      '{"title": "Garage", "subtasks": [{"text": "Sort {tools}", "minutes": 30}, {"text": "Sweep'
+    );
+
+    expect(result.subtasks).toEqual(["Sort {tools}"]);
+  });
+
+  it("should decode escaped quotes inside strings", () => {
+    const result = parsePartialBreakdown(
+      '{"title": "Say \\"Hi\\"", "subtasks": ["Write \\"hello\\" note"]}'
+    );
+
+    expect(result.title).toBe('Say "Hi"');
+    expect(result.subtasks).toEqual(['Write "hello" note']);
+  });
+});
+
+describe("createPartialBreakdownReader", () => {
+  it("should report each title and subtask only once", () => {
+    const reader = createPartialBreakdownReader();
+
+    expect(reader.push('{"title": "Garage')).toEqual({ title: null, subtasks: [] });
+    expect(reader.push(' Cleanup", "subtasks": ["Sort')).toEqual({
+      title: "Garage Cleanup",
+      subtasks: [],
+    });
+    expect(reader.push(' tools", "Sweep floor"')).toEqual({
+      title: null,
+      subtasks: ["Sort tools", "Sweep floor"],
+    });
+    expect(reader.push("]}")).toEqual({ title: null, subtasks: [] });
+    expect(JSON.parse(reader.content).subtasks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,141 @@
+export interface PartialBreakdown {
+  title: string | null;
+  subtasks: string[];
+}
+
+/**
+ * Read a JSON string literal starting at `start` (the opening quote).
+ * Returns the decoded value and the index after the closing quote,
+ * or null if the literal is not complete yet.
+ */
+function readStringLiteral(
+  text: string,
+  start: number
+): { value: string; end: number } | null {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '"') {
+      try {
+        return { value: JSON.parse(text.slice(start, i + 1)), end: i + 1 };
+      } catch {
+        return null;
+      }
+    }
+    i++;
+  }
+  return null;
+}
+
+/**
+ * Read a JSON object starting at `start` (the opening brace).
+ * Returns the parsed value and the index after the closing brace,
+ * or null if the object is not complete yet.
+ */
+function readObjectLiteral(
+  text: string,
+  start: number
+): { value: unknown; end: number } | null {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      const literal = readStringLiteral(text, i);
+      if (!literal) return null;
+      i = literal.end;
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}" && --depth === 0) {
+      try {
+        return { value: JSON.parse(text.slice(start, i + 1)), end: i + 1 };
+      } catch {
+        return null;
+      }
+    }
+    i++;
+  }
+  return null;
+}
+
+/**
+ * Extract the title and every fully received subtask from a model response
+ * that is still streaming. Accepts both the `{"title", "subtasks"}` object
+ * and a bare JSON array. Subtasks may be strings or `{"text", ...}` objects;
+ * only their text is returned.
+ */
+export function parsePartialBreakdown(text: string): PartialBreakdown {
+  const result: PartialBreakdown = { title: null, subtasks: [] };
+
+  const titleMatch = /"title"\s*:\s*"/.exec(text);
+  if (titleMatch) {
+    const literal = readStringLiteral(text, titleMatch.index + titleMatch[0].length - 1);
+    if (literal) result.title = literal.value;
+  }
+
+  const arrayMatch = /"subtasks"\s*:\s*\[/.exec(text);
+  let i: number;
+  if (arrayMatch) {
+    i = arrayMatch.index + arrayMatch[0].length;
+  } else if (!titleMatch && text.indexOf("[") !== -1) {
+    i = text.indexOf("[") + 1;
+  } else {
+    return result;
+  }
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "]") break;
+    if (char === '"') {
+      const literal = readStringLiteral(text, i);
+      if (!literal) break;
+      result.subtasks.push(literal.value);
+      i = literal.end;
+      continue;
+    }
+    if (char === "{") {
+      const literal = readObjectLiteral(text, i);
+      if (!literal) break;
+      const { text: subtaskText } = (literal.value ?? {}) as { text?: unknown };
+      if (typeof subtaskText === "string") result.subtasks.push(subtaskText);
+      i = literal.end;
+      continue;
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Accumulate streamed model output and report only the title and subtasks
+ * that became complete since the previous chunk.
+ */
+export function createPartialBreakdownReader() {
+  let content = "";
+  let titleSent = false;
+  let subtaskCount = 0;
+
+  return {
+    push(delta: string): PartialBreakdown {
+      content += delta;
+      const parsed = parsePartialBreakdown(content);
+
+      const update: PartialBreakdown = { title: null, subtasks: [] };
+      if (parsed.title !== null && !titleSent) {
+        update.title = parsed.title;
+        titleSent = true;
+      }
+      update.subtasks = parsed.subtasks.slice(subtaskCount);
+      subtaskCount = parsed.subtasks.length;
+      return update;
+    },
+    get content() {
+      return content;
+    },
+  };
+}
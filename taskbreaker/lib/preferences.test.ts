@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { fromPreferencesRow, toPreferencesRow } from "./preferences";
+import { DEFAULT_BREAKDOWN_PREFERENCES } from "@/lib/schemas";
+
+const row = {
+  min_subtasks: 6,
+  max_subtasks: 8,
+  tone: "direct",
+  language: "Spanish",
+  context: "I'm a nurse",
+};
+
+describe("fromPreferencesRow", () => {
+  it("should map stored columns to preferences", () => {
+    expect(fromPreferencesRow(row)).toEqual({
+      minSubtasks: 6,
+      maxSubtasks: 8,
+      tone: "direct",
+      language: "Spanish",
+      context: "I'm a nurse",
+    });
+  });
+
+  it("should fall back to the defaults without a usable row", () => {
+    expect(fromPreferencesRow(null)).toEqual(DEFAULT_BREAKDOWN_PREFERENCES);
+    expect(fromPreferencesRow({ ...row, tone: "retired-tone" })).toEqual(
+      DEFAULT_BREAKDOWN_PREFERENCES
+    );
+  });
+});
+
+describe("toPreferencesRow", () => {
+  it("should round-trip through fromPreferencesRow", () => {
+    const preferences = fromPreferencesRow(row);
+
+    expect(fromPreferencesRow(toPreferencesRow("user-1", preferences))).toEqual(preferences);
+    expect(toPreferencesRow("user-1", preferences).user_id).toBe("user-1");
+  });
+});
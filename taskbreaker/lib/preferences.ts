@@ -0,0 +1,72 @@
+import type { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import {
+  DEFAULT_BREAKDOWN_PREFERENCES,
+  breakdownPreferencesSchema,
+  type BreakdownPreferences,
+} from "@/lib/schemas";
+import type { Database } from "@/types/database.types";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+type PreferencesRow = Pick<
+  Database["public"]["Tables"]["user_preferences"]["Row"],
+  "min_subtasks" | "max_subtasks" | "tone" | "language" | "context"
+>;
+
+// Columns read back from user_preferences
+export const PREFERENCES_COLUMNS = "min_subtasks, max_subtasks, tone, language, context";
+
+/**
+ * Map a stored row to preferences. A missing row, or one the schema no longer
+ * accepts, falls back to the defaults.
+ */
+export function fromPreferencesRow(row: PreferencesRow | null): BreakdownPreferences {
+  if (!row) return DEFAULT_BREAKDOWN_PREFERENCES;
+
+  const result = breakdownPreferencesSchema.safeParse({
+    minSubtasks: row.min_subtasks,
+    maxSubtasks: row.max_subtasks,
+    tone: row.tone,
+    language: row.language,
+    context: row.context,
+  });
+  return result.success ? result.data : DEFAULT_BREAKDOWN_PREFERENCES;
+}
+
+export function toPreferencesRow(userId: string, preferences: BreakdownPreferences) {
+  return {
+    user_id: userId,
+    min_subtasks: preferences.minSubtasks,
+    max_subtasks: preferences.maxSubtasks,
+    tone: preferences.tone,
+    language: preferences.language,
+    context: preferences.context,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load a user's breakdown preferences for a prompt. Best effort: a database
+ * error falls back to the defaults rather than failing the request.
+ */
+export async function getBreakdownPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string
+): Promise<BreakdownPreferences> {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select(PREFERENCES_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn("Failed to load preferences, using defaults", {
+      requestId,
+      error: error.message,
+    });
+    return DEFAULT_BREAKDOWN_PREFERENCES;
+  }
+
+  return fromPreferencesRow(data);
+}
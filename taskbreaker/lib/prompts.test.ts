@@ -0,0 +1,303 @@
+import { describe, it, expect } from "vitest";
+import {
+  PROMPTS,
+  buildRegenerateRequest,
+  buildSubtaskBreakdownRequest,
+  buildTaskBreakdownRequest,
+  buildTemplateCustomizeRequest,
+  getPromptStatus,
+  getRolloutBucket,
+  getTaskBreakdownCacheKey,
+  getTemplateVariables,
+  renderTemplate,
+  selectPrompt,
+  type PromptDefinition,
+  type PromptName,
+} from "./prompts";
+import { createFakeProvider } from "./ai/fake-provider";
+import { DEFAULT_BREAKDOWN_PREFERENCES } from "./schemas";
+
+const userMessage = (request: { messages: { content: string }[] }) =>
+  request.messages[1].content;
+
+const CANDIDATE_VERSION =
+  Math.max(...PROMPTS["task-breakdown"].versions.map((v) => v.version)) + 1;
+
+// The registry with a candidate version of the task breakdown prompt
+const withCandidate = (percent: number): Record<PromptName, PromptDefinition> => ({
+  ...PROMPTS,
+  "task-breakdown": {
+    ...PROMPTS["task-breakdown"],
+    versions: [
+      ...PROMPTS["task-breakdown"].versions,
+      { version: CANDIDATE_VERSION, system: "Break the task down", user: "{{task}}" },
+    ],
+    candidate: { version: CANDIDATE_VERSION, percent },
+  },
+});
+
+describe("PROMPTS", () => {
+  const entries = Object.entries(PROMPTS) as [PromptName, PromptDefinition][];
+
+  it.each(entries)("should only use declared variables in %s", (_, definition) => {
+    definition.versions.forEach(({ system, user }) => {
+      const used = [...getTemplateVariables(system), ...getTemplateVariables(user)];
+      used.forEach((name) => expect(definition.variables).toContain(name));
+    });
+  });
+
+  it.each(entries)("should serve registered versions of %s", (_, definition) => {
+    const versions = definition.versions.map((v) => v.version);
+
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions).toContain(definition.active);
+    if (definition.candidate) {
+      expect(versions).toContain(definition.candidate.version);
+      expect(definition.candidate.version).not.toBe(definition.active);
+      expect(definition.candidate.percent).toBeGreaterThanOrEqual(0);
+      expect(definition.candidate.percent).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should fill in every placeholder", () => {
+    const rendered = renderTemplate('Task: "{{title}}" ({{title}}, {{step}})', {
+      title: "A",
+      step: "B",
+    });
+
+    expect(rendered).toBe('Task: "A" (A, B)');
+  });
+
+  it("should drop lines that only hold an empty placeholder", () => {
+    expect(renderTemplate("One\n{{note}}\nTwo", { note: "" })).toBe("One\nTwo");
+    expect(renderTemplate("One\nNote: {{note}}\nTwo", { note: "" })).toBe("One\nNote: \nTwo");
+  });
+
+  it("should not render placeholders inside values", () => {
+    expect(renderTemplate("{{task}}", { task: "say {{hello}}" })).toBe("say {{hello}}");
+  });
+
+  it("should throw when a variable is missing", () => {
+    expect(() => renderTemplate("Hi {{name}}", {})).toThrow('Missing prompt variable "name"');
+  });
+});
+
+describe("selectPrompt", () => {
+  it("should use the active version without a candidate", () => {
+    expect(selectPrompt("task-breakdown", "user-1")).toEqual({
+      name: "task-breakdown",
+      version: PROMPTS["task-breakdown"].active,
+    });
+  });
+
+  it("should keep each subject on the same version", () => {
+    const registry = withCandidate(50);
+
+    expect(selectPrompt("task-breakdown", "user-1", registry)).toEqual(
+      selectPrompt("task-breakdown", "user-1", registry)
+    );
+  });
+
+  it("should send the candidate its share of subjects", () => {
+    const subjects = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+    const count = (percent: number) =>
+      subjects.filter(
+        (subject) =>
+          selectPrompt("task-breakdown", subject, withCandidate(percent)).version ===
+          CANDIDATE_VERSION
+      ).length;
+
+    expect(count(0)).toBe(0);
+    expect(count(100)).toBe(1000);
+    expect(count(20)).toBeGreaterThan(150);
+    expect(count(20)).toBeLessThan(250);
+  });
+
+  it("should bucket subjects from 0 to 99", () => {
+    const bucket = getRolloutBucket("task-breakdown", "user-1");
+
+    expect(Number.isInteger(bucket)).toBe(true);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+});
+
+describe("getPromptStatus", () => {
+  it("should tell active, candidate and retired versions apart", () => {
+    const registry = withCandidate(10);
+
+    const active = PROMPTS["task-breakdown"].active;
+
+    expect(getPromptStatus("task-breakdown", active, registry)).toBe("active");
+    expect(getPromptStatus("task-breakdown", CANDIDATE_VERSION, registry)).toBe("candidate");
+    expect(getPromptStatus("task-breakdown", CANDIDATE_VERSION + 1, registry)).toBe("retired");
+    expect(getPromptStatus("old-prompt", 1, registry)).toBe("retired");
+  });
+});
+
+describe("buildTaskBreakdownRequest", () => {
+  it("should render the chosen version", () => {
+    const request = buildTaskBreakdownRequest("plan a party", {
+      name: "task-breakdown",
+      version: 1,
+    });
+
+    expect(request.messages[0].content).toContain('"title"');
+    expect(userMessage(request)).toBe("plan a party");
+  });
+
+  it("should ask for the user's subtask count, tone, language and context", () => {
+    const request = buildTaskBreakdownRequest("plan a party", undefined, {
+      minSubtasks: 6,
+      maxSubtasks: 8,
+      tone: "direct",
+      language: "German",
+      context: "I'm a\nsoftware engineer",
+    });
+    const system = request.messages[0].content;
+
+    expect(system).toContain("Return between 6 and 8 subtasks");
+    expect(system).toContain("Use a direct tone");
+    expect(system).toContain("in German");
+    expect(system).toContain('who says: "I\'m a software engineer"');
+    const tooFew = request.schema.safeParse({ title: "Party", subtasks: ["a", "b", "c"] });
+    expect(tooFew.success).toBe(false);
+  });
+
+  it("should leave the defaults' wording to the task", () => {
+    const system = buildTaskBreakdownRequest("plan a party").messages[0].content;
+
+    expect(system).toContain("Return between 3 and 5 subtasks");
+    expect(system).toContain("in the same language as the task");
+    expect(system).not.toContain("who says");
+    expect(system).not.toContain("{{");
+  });
+
+  it("should throw for an unknown version", () => {
+    expect(() =>
+      buildTaskBreakdownRequest("plan a party", { name: "task-breakdown", version: 99 })
+    ).toThrow('Unknown version 99 of prompt "task-breakdown"');
+  });
+
+  it("should key cached breakdowns by prompt version", () => {
+    const provider = createFakeProvider();
+    const key = getTaskBreakdownCacheKey(provider, "plan a party", {
+      name: "task-breakdown",
+      version: 2,
+    });
+
+    expect(key).toMatchObject({ prompt: "task-breakdown", version: 2, input: "plan a party" });
+  });
+
+  it("should key cached breakdowns by preferences", () => {
+    const provider = createFakeProvider();
+    const detailed = { ...DEFAULT_BREAKDOWN_PREFERENCES, minSubtasks: 8, maxSubtasks: 10 };
+
+    expect(getTaskBreakdownCacheKey(provider, "plan a party").options).not.toBe(
+      getTaskBreakdownCacheKey(provider, "plan a party", undefined, detailed).options
+    );
+  });
+});
+
+describe("buildRegenerateRequest", () => {
+  it("should list current subtasks with their checked state", () => {
+    const message = userMessage(
+      buildRegenerateRequest(
+        "Birthday Party Planning",
+        null,
+        [
+          { text: "Order birthday cake", checked: true },
+          { text: "Plan party games", checked: false },
+        ],
+        "assume I have no car"
+      )
+    );
+
+    expect(message).toBe(
+      [
+        'Task: "Birthday Party Planning"',
+        "Current subtasks:",
+        "- [x] Order birthday cake",
+        "- [ ] Plan party games",
+        'Instruction: "assume I have no car"',
+      ].join("\n")
+    );
+  });
+
+  it("should fall back to a default instruction and placeholder list", () => {
+    const message = userMessage(buildRegenerateRequest("Garage Cleanup", null, [], ""));
+
+    expect(message).toContain("(none)");
+    expect(message).toContain('Instruction: "Improve the breakdown"');
+  });
+
+  it("should include the original request when one is stored", () => {
+    const message = userMessage(
+      buildRegenerateRequest("Garage Cleanup", "clean out the garage before winter", [], "")
+    );
+
+    expect(message).toContain(
+      'Original request: "clean out the garage before winter"'
+    );
+  });
+
+  it("should ask for and check the user's subtask count, tone and language", () => {
+    const request = buildRegenerateRequest("Garage Cleanup", null, [], "", undefined, {
+      ...DEFAULT_BREAKDOWN_PREFERENCES,
+      minSubtasks: 6,
+      maxSubtasks: 8,
+      tone: "casual",
+      language: "Spanish",
+    });
+    const system = request.messages[0].content;
+
+    expect(system).toContain("Return between 6 and 8 subtasks");
+    expect(system).toContain("Use a casual tone");
+    expect(system).toContain("in Spanish");
+    expect(system).toContain("You are regenerating the breakdown");
+    const subtasks = Array.from({ length: 7 }, (_, i) => `Step ${i + 1}`);
+    expect(request.schema.safeParse({ title: "Garage", subtasks }).success).toBe(true);
+    const tooFew = request.schema.safeParse({ title: "Garage", subtasks: ["a", "b", "c"] });
+    expect(tooFew.success).toBe(false);
+  });
+});
+
+describe("buildTemplateCustomizeRequest", () => {
+  it("should put the new task first and indent nested template subtasks", () => {
+    const message = userMessage(
+      buildTemplateCustomizeRequest("Onboard Sam to the design team", "New Hire Onboarding", [
+        {
+          text: "Set up accounts",
+          minutes: 30,
+          effort: "quick",
+          children: [{ text: "Create email", minutes: null, effort: null, children: [] }],
+        },
+        { text: "Schedule intro meetings", minutes: null, effort: null, children: [] },
+      ])
+    );
+
+    expect(message).toBe(
+      [
+        'New task: "Onboard Sam to the design team"',
+        'Template: "New Hire Onboarding"',
+        "Template subtasks:",
+        "- Set up accounts",
+        "  - Create email",
+        "- Schedule intro meetings",
+      ].join("\n")
+    );
+  });
+});
+
+describe("buildSubtaskBreakdownRequest", () => {
+  it("should name the larger task and the step", () => {
+    const request = buildSubtaskBreakdownRequest("Birthday Party Planning", "Plan party games");
+
+    expect(request.name).toBe("subtask_breakdown");
+    expect(userMessage(request)).toBe(
+      'Larger task: "Birthday Party Planning"\nStep to break down: "Plan party games"'
+    );
+  });
+});
@@ -0,0 +1,456 @@
+// Registry of the prompts sent to the model. Prompts are templates with
+// {{variable}} placeholders, and every version stays listed once it has been
+// used: tasks record the version that produced them, and cached responses are
+// keyed by it. A candidate version can be tried on a share of users so its
+// completion rate can be compared with the active version's.
+import { createHash } from "crypto";
+import {
+  DEFAULT_BREAKDOWN_PREFERENCES,
+  aiSubtaskBreakdownSchema,
+  createAITaskResponseSchema,
+  type AISubtaskBreakdown,
+  type AITaskResponse,
+  type BreakdownPreferences,
+} from "@/lib/schemas";
+import type { AICacheKey, ChatMessage, LLMProvider, StructuredRequest } from "@/lib/ai";
+import type { TemplateSubtask } from "@/types/template.types";
+
+export type PromptName =
+  | "task-breakdown"
+  | "task-regenerate"
+  | "template-customize"
+  | "subtask-breakdown";
+
+// Which version of which prompt produced a response
+export interface PromptRef {
+  name: PromptName;
+  version: number;
+}
+
+export interface PromptVersion {
+  version: number;
+  system: string;
+  user: string;
+}
+
+export interface PromptDefinition {
+  // Placeholders the templates may use; callers supply all of them
+  variables: readonly string[];
+  versions: PromptVersion[];
+  // The version most traffic gets
+  active: number;
+  // A version tried on `percent` percent of users before it replaces the active one
+  candidate?: { version: number; percent: number };
+}
+
+// System prompt for generating a task title and its subtasks
+const TASK_BREAKDOWN_SYSTEM_V1 = `You are a task organization assistant. Given a task description, you will:
+1. Generate a short, friendly title (2-5 words) that captures the essence of the task
+2. Break down the task into 3-5 specific, actionable subtasks
+3. Suggest 1-3 short tags that categorize the task
+
+Rules for title:
+- Keep it between 2-5 words
+- Use title case (capitalize major words)
+- Make it scannable and memorable
+- Avoid articles (a, an, the) when possible
+- No punctuation at the end
+
+Rules for subtasks:
+- Each subtask should be a clear action item
+- Keep each subtask under 100 characters
+- Return between 3 and 5 subtasks
+- Estimate how many minutes each subtask takes (1-480)
+- Mark each subtask's effort as "quick" (easy, low energy) or "deep" (needs focus)
+
+Rules for tags:
+- Use 1-2 lowercase words per tag, like "home", "work" or "errands"
+- Suggest between 1 and 3 tags
+
+Return a JSON object with this exact structure:
+{
+  "title": "Friendly Title Here",
+  "subtasks": [
+    {"text": "Subtask 1", "minutes": 15, "effort": "quick"},
+    {"text": "Subtask 2", "minutes": 60, "effort": "deep"},
+    {"text": "Subtask 3", "minutes": 30, "effort": "quick"}
+  ],
+  "tags": ["tag one", "tag two"]
+}
+
+Example input: "Plan my daughter's 5th birthday party for Saturday"
+Example output: {"title": "Birthday Party Planning", "subtasks": [{"text": "Send party invitations to friends", "minutes": 20, "effort": "quick"}, {"text": "Order birthday cake and decorations", "minutes": 30, "effort": "quick"}, {"text": "Plan age-appropriate party games", "minutes": 60, "effort": "deep"}, {"text": "Prepare goody bags for guests", "minutes": 45, "effort": "quick"}, {"text": "Set up party area", "minutes": 90, "effort": "deep"}], "tags": ["family", "events"]}`;
+
+// Version 2 follows the user's preferences for subtask count, tone, language
+// and context
+const TASK_BREAKDOWN_SYSTEM_V2 = `You are a task organization assistant. Given a task description, you will:
+1. Generate a short, {{tone}} title (2-5 words) that captures the essence of the task
+2. Break down the task into {{minSubtasks}}-{{maxSubtasks}} specific, actionable subtasks
+3. Suggest 1-3 short tags that categorize the task
+
+Rules for title:
+- Keep it between 2-5 words
+- Use title case (capitalize major words)
+- Make it scannable and memorable
+- Avoid articles (a, an, the) when possible
+- No punctuation at the end
+
+Rules for subtasks:
+- Each subtask should be a clear action item
+- Keep each subtask under 100 characters
+- Return between {{minSubtasks}} and {{maxSubtasks}} subtasks
+- Estimate how many minutes each subtask takes (1-480)
+- Mark each subtask's effort as "quick" (easy, low energy) or "deep" (needs focus)
+
+Rules for tags:
+- Use 1-2 lowercase words per tag, like "home", "work" or "errands"
+- Suggest between 1 and 3 tags
+
+Rules for wording:
+- Use a {{tone}} tone
+- Write the title, subtasks and tags in {{language}}
+{{context}}
+
+Return a JSON object with this exact structure:
+{
+  "title": "Friendly Title Here",
+  "subtasks": [
+    {"text": "Subtask 1", "minutes": 15, "effort": "quick"},
+    {"text": "Subtask 2", "minutes": 60, "effort": "deep"},
+    {"text": "Subtask 3", "minutes": 30, "effort": "quick"}
+  ],
+  "tags": ["tag one", "tag two"]
+}
+
+Example input: "Plan my daughter's 5th birthday party for Saturday"
+Example output: {"title": "Birthday Party Planning", "subtasks": [{"text": "Send party invitations to friends", "minutes": 20, "effort": "quick"}, {"text": "Order birthday cake and decorations", "minutes": 30, "effort": "quick"}, {"text": "Plan age-appropriate party games", "minutes": 60, "effort": "deep"}, {"text": "Prepare goody bags for guests", "minutes": 45, "effort": "quick"}, {"text": "Set up party area", "minutes": 90, "effort": "deep"}], "tags": ["family", "events"]}`;
+
+// Extra rules for regenerating the breakdown of an existing task
+const TASK_REGENERATE_RULES_V1 = `
+
+You are regenerating the breakdown of an existing task. The user message lists the current subtasks and an instruction.
+Rules for regenerating:
+- Completed subtasks ([x]) are kept as they are; do not include them again
+- Replace the incomplete subtasks ([ ]) with a new breakdown of the remaining work
+- Follow the user's instruction when it conflicts with the rules above`;
+
+// Extra rules for adapting a saved template to a new task
+const TEMPLATE_CUSTOMIZE_RULES_V1 = `
+
+You are adapting a saved template to a new task. The user message describes the new task, then lists the template's title and subtasks.
+Rules for customizing:
+- Keep the template's steps and order where they still apply
+- Rewrite subtasks so they are specific to the new task
+- Fold nested steps into their top-level subtask
+- Drop steps that don't apply and add any the new task needs`;
+
+// System prompt for splitting one subtask into smaller actions
+const SUBTASK_BREAKDOWN_SYSTEM_V1 = `You are a task breakdown assistant. Given one step of a larger task, break that step down into 2-5 smaller, concrete actions.
+
+Rules:
+- Each action should be something that can be done in one sitting
+- Keep each action under 100 characters
+- Return between 2 and 5 actions
+- Do not repeat the step itself or the other steps of the larger task
+- Estimate how many minutes each action takes (1-480)
+- Mark each action's effort as "quick" (easy, low energy) or "deep" (needs focus)
+
+Return a JSON object with this exact structure:
+{
+  "subtasks": [
+    {"text": "Action 1", "minutes": 10, "effort": "quick"},
+    {"text": "Action 2", "minutes": 45, "effort": "deep"}
+  ]
+}
+
+Example input:
+Larger task: "Birthday Party Planning"
+Step to break down: "Plan age-appropriate party games"
+Example output: {"subtasks": [{"text": "List 3 games suited to 5-year-olds", "minutes": 20, "effort": "deep"}, {"text": "Buy prizes for game winners", "minutes": 30, "effort": "quick"}, {"text": "Gather props for each game", "minutes": 15, "effort": "quick"}, {"text": "Decide the order of games", "minutes": 5, "effort": "quick"}]}`;
+
+const TASK_REGENERATE_USER_V1 = [
+  'Task: "{{title}}"',
+  "{{originalRequest}}",
+  "Current subtasks:",
+  "{{subtasks}}",
+  'Instruction: "{{instruction}}"',
+].join("\n");
+
+const TEMPLATE_CUSTOMIZE_USER_V1 = [
+  'New task: "{{task}}"',
+  'Template: "{{title}}"',
+  "Template subtasks:",
+  "{{subtasks}}",
+].join("\n");
+
+// Placeholders filled in from the user's breakdown preferences
+const PREFERENCE_VARIABLES = ["minSubtasks", "maxSubtasks", "tone", "language", "context"];
+
+export const PROMPTS: Record<PromptName, PromptDefinition> = {
+  "task-breakdown": {
+    variables: ["task", ...PREFERENCE_VARIABLES],
+    versions: [
+      { version: 1, system: TASK_BREAKDOWN_SYSTEM_V1, user: "{{task}}" },
+      { version: 2, system: TASK_BREAKDOWN_SYSTEM_V2, user: "{{task}}" },
+    ],
+    active: 2,
+  },
+  "task-regenerate": {
+    variables: ["title", "originalRequest", "subtasks", "instruction", ...PREFERENCE_VARIABLES],
+    versions: [
+      {
+        version: 1,
+        system: TASK_BREAKDOWN_SYSTEM_V1 + TASK_REGENERATE_RULES_V1,
+        user: TASK_REGENERATE_USER_V1,
+      },
+      {
+        version: 2,
+        system: TASK_BREAKDOWN_SYSTEM_V2 + TASK_REGENERATE_RULES_V1,
+        user: TASK_REGENERATE_USER_V1,
+      },
+    ],
+    active: 2,
+  },
+  "template-customize": {
+    variables: ["task", "title", "subtasks", ...PREFERENCE_VARIABLES],
+    versions: [
+      {
+        version: 1,
+        system: TASK_BREAKDOWN_SYSTEM_V1 + TEMPLATE_CUSTOMIZE_RULES_V1,
+        user: TEMPLATE_CUSTOMIZE_USER_V1,
+      },
+      {
+        version: 2,
+        system: TASK_BREAKDOWN_SYSTEM_V2 + TEMPLATE_CUSTOMIZE_RULES_V1,
+        user: TEMPLATE_CUSTOMIZE_USER_V1,
+      },
+    ],
+    active: 2,
+  },
+  "subtask-breakdown": {
+    variables: ["task", "step"],
+    versions: [
+      {
+        version: 1,
+        system: SUBTASK_BREAKDOWN_SYSTEM_V1,
+        user: 'Larger task: "{{task}}"\nStep to break down: "{{step}}"',
+      },
+    ],
+    active: 1,
+  },
+};
+
+/**
+ * The placeholders a template uses, in order of first use.
+ */
+export function getTemplateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(/\{\{(\w+)\}\}/g)].map((match) => match[1]))];
+}
+
+/**
+ * Fill in a template's placeholders. A line holding nothing but a placeholder
+ * is dropped when its value is empty, so optional lines leave no gap. Values
+ * are inserted as is, even if they contain braces.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .split("\n")
+    .filter((line) => {
+      const only = /^\{\{(\w+)\}\}$/.exec(line);
+      return !only || variables[only[1]] !== "";
+    })
+    .join("\n")
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        throw new Error(`Missing prompt variable "${name}"`);
+      }
+      return value;
+    });
+}
+
+export function getPromptVersion(
+  { name, version }: PromptRef,
+  registry: Record<PromptName, PromptDefinition> = PROMPTS
+): PromptVersion {
+  const found = registry[name].versions.find((v) => v.version === version);
+  if (!found) {
+    throw new Error(`Unknown version ${version} of prompt "${name}"`);
+  }
+  return found;
+}
+
+/**
+ * Render a version of a prompt into the system and user messages.
+ */
+export function renderPrompt(prompt: PromptRef, variables: Record<string, string>): ChatMessage[] {
+  const { system, user } = getPromptVersion(prompt);
+  return [
+    { role: "system", content: renderTemplate(system, variables) },
+    { role: "user", content: renderTemplate(user, variables) },
+  ];
+}
+
+/**
+ * A stable bucket from 0 to 99 for a prompt and subject, so a user keeps
+ * getting the same version while a candidate is rolled out.
+ */
+export function getRolloutBucket(name: PromptName, subject: string): number {
+  return createHash("sha256").update(`${name}:${subject}`).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * Pick the version of a prompt for a subject (the user's id, or the request's
+ * for anonymous callers): the candidate for its share of subjects, otherwise
+ * the active version.
+ */
+export function selectPrompt(
+  name: PromptName,
+  subject: string,
+  registry: Record<PromptName, PromptDefinition> = PROMPTS
+): PromptRef {
+  const { active, candidate } = registry[name];
+  if (candidate && getRolloutBucket(name, subject) < candidate.percent) {
+    return { name, version: candidate.version };
+  }
+  return { name, version: active };
+}
+
+/**
+ * Where a recorded prompt version stands now. Versions that are no longer
+ * served, or names that are no longer registered, are retired.
+ */
+export function getPromptStatus(
+  name: string,
+  version: number,
+  registry: Record<PromptName, PromptDefinition> = PROMPTS
+): "active" | "candidate" | "retired" {
+  const definition = registry[name as PromptName];
+  if (definition?.active === version) return "active";
+  if (definition?.candidate?.version === version) return "candidate";
+  return "retired";
+}
+
+const activePrompt = (name: PromptName): PromptRef => ({ name, version: PROMPTS[name].active });
+
+function getPreferenceVariables(preferences: BreakdownPreferences): Record<string, string> {
+  const context = preferences.context.replace(/\s+/g, " ");
+  return {
+    minSubtasks: String(preferences.minSubtasks),
+    maxSubtasks: String(preferences.maxSubtasks),
+    tone: preferences.tone,
+    language: preferences.language || "the same language as the task",
+    context: context ? `- Tailor the breakdown to the user, who says: "${context}"` : "",
+  };
+}
+
+// Room for the title and tags plus each subtask; 500 tokens for the default 3-5
+const getBreakdownMaxTokens = (preferences: BreakdownPreferences) =>
+  150 + preferences.maxSubtasks * 70;
+
+/**
+ * Break a new task down into a title, subtasks and tags, following the user's
+ * preferences. Shared by POST /api/breakdown and POST /api/tasks, so they also
+ * share cached answers.
+ */
+export function buildTaskBreakdownRequest(
+  task: string,
+  prompt: PromptRef = activePrompt("task-breakdown"),
+  preferences: BreakdownPreferences = DEFAULT_BREAKDOWN_PREFERENCES
+): StructuredRequest<AITaskResponse> {
+  return {
+    name: "task_breakdown",
+    schema: createAITaskResponseSchema(preferences.minSubtasks, preferences.maxSubtasks),
+    messages: renderPrompt(prompt, { task, ...getPreferenceVariables(preferences) }),
+    temperature: 0.7,
+    maxTokens: getBreakdownMaxTokens(preferences),
+  };
+}
+
+// The breakdown depends only on the task text and preferences, so identical
+// tasks from users with the same preferences can share one
+export function getTaskBreakdownCacheKey(
+  provider: LLMProvider,
+  task: string,
+  prompt: PromptRef = activePrompt("task-breakdown"),
+  preferences: BreakdownPreferences = DEFAULT_BREAKDOWN_PREFERENCES
+): AICacheKey {
+  return {
+    prompt: prompt.name,
+    version: prompt.version,
+    provider: provider.name,
+    model: provider.model,
+    input: task,
+    options: JSON.stringify(getPreferenceVariables(preferences)),
+  };
+}
+
+/**
+ * Regenerate an existing task's breakdown from its current subtasks, keeping
+ * the completed ones and following the user's preferences.
+ */
+export function buildRegenerateRequest(
+  title: string,
+  description: string | null,
+  subtasks: { text: string; checked: boolean }[],
+  instruction: string,
+  prompt: PromptRef = activePrompt("task-regenerate"),
+  preferences: BreakdownPreferences = DEFAULT_BREAKDOWN_PREFERENCES
+): StructuredRequest<AITaskResponse> {
+  const lines = subtasks.map((s) => `- [${s.checked ? "x" : " "}] ${s.text}`);
+  return {
+    name: "task_breakdown",
+    schema: createAITaskResponseSchema(preferences.minSubtasks, preferences.maxSubtasks),
+    messages: renderPrompt(prompt, {
+      title,
+      originalRequest: description ? `Original request: "${description}"` : "",
+      subtasks: lines.length > 0 ? lines.join("\n") : "(none)",
+      instruction: instruction || "Improve the breakdown",
+      ...getPreferenceVariables(preferences),
+    }),
+    maxTokens: getBreakdownMaxTokens(preferences),
+  };
+}
+
+/**
+ * Adapt a saved template to a new task, with nested template subtasks indented.
+ */
+export function buildTemplateCustomizeRequest(
+  task: string,
+  title: string,
+  subtasks: TemplateSubtask[],
+  prompt: PromptRef = activePrompt("template-customize"),
+  preferences: BreakdownPreferences = DEFAULT_BREAKDOWN_PREFERENCES
+): StructuredRequest<AITaskResponse> {
+  const lines = (level: TemplateSubtask[], depth: number): string[] =>
+    level.flatMap((s) => [
+      `${"  ".repeat(depth)}- ${s.text}`,
+      ...lines(s.children, depth + 1),
+    ]);
+  return {
+    name: "task_breakdown",
+    schema: createAITaskResponseSchema(preferences.minSubtasks, preferences.maxSubtasks),
+    messages: renderPrompt(prompt, {
+      task,
+      title,
+      subtasks: subtasks.length > 0 ? lines(subtasks, 0).join("\n") : "(none)",
+      ...getPreferenceVariables(preferences),
+    }),
+    maxTokens: getBreakdownMaxTokens(preferences),
+  };
+}
+
+/**
+ * Split one step of a task into smaller child subtasks.
+ */
+export function buildSubtaskBreakdownRequest(
+  task: string,
+  step: string,
+  prompt: PromptRef = activePrompt("subtask-breakdown")
+): StructuredRequest<AISubtaskBreakdown> {
+  return {
+    name: "subtask_breakdown",
+    schema: aiSubtaskBreakdownSchema,
+    messages: renderPrompt(prompt, { task, step }),
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRateLimiter,
+  getClientIp,
+  getQuotaResetTime,
+  getRateLimitConfig,
+} from "./rate-limit";
+
+describe("getRateLimitConfig", () => {
+  it("should fall back to the default limits", () => {
+    expect(getRateLimitConfig({})).toEqual({
+      perMinute: 10,
+      dailyQuota: 50,
+      anonymousDailyQuota: 5,
+      trustedProxies: 1,
+    });
+  });
+
+  it("should read limits from the environment", () => {
+    const config = getRateLimitConfig({ AI_DAILY_QUOTA: "200", AI_ANONYMOUS_DAILY_QUOTA: "0" });
+
+    expect(config).toMatchObject({ dailyQuota: 200, anonymousDailyQuota: 0 });
+  });
+
+  it("should reject limits that aren't whole numbers", () => {
+    expect(() => getRateLimitConfig({ AI_RATE_LIMIT_PER_MINUTE: "ten" })).toThrow(
+      "AI_RATE_LIMIT_PER_MINUTE must be a whole number"
+    );
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("should allow requests up to the limit in each window", () => {
+    const limit = createRateLimiter(2, 60_000);
+
+    expect(limit("user:1", 0)).toEqual({ allowed: true, remaining: 1, resetAt: 60_000 });
+    expect(limit("user:1", 1_000).allowed).toBe(true);
+    expect(limit("user:1", 2_000)).toEqual({ allowed: false, remaining: 0, resetAt: 60_000 });
+  });
+
+  it("should count each key separately", () => {
+    const limit = createRateLimiter(1, 60_000);
+
+    expect(limit("user:1", 0).allowed).toBe(true);
+    expect(limit("ip:10.0.0.1", 0).allowed).toBe(true);
+  });
+
+  it("should start over in the next window", () => {
+    const limit = createRateLimiter(1, 60_000);
+
+    limit("user:1", 59_000);
+    expect(limit("user:1", 59_999).allowed).toBe(false);
+    expect(limit("user:1", 60_000).allowed).toBe(true);
+  });
+});
+
+describe("getClientIp", () => {
+  it("should use the address added by the trusted proxy", () => {
+    const request = new Request("http://localhost", {
+      headers: { "x-forwarded-for": "198.51.100.1, 203.0.113.7" },
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+
+  it("should ignore addresses the client made up", () => {
+    const spoofed = (forwarded: string) =>
+      getClientIp(new Request("http://localhost", { headers: { "x-forwarded-for": forwarded } }));
+
+    expect(spoofed("1.1.1.1, 203.0.113.7")).toBe(spoofed("2.2.2.2, 203.0.113.7"));
+  });
+
+  it("should count back one address per trusted proxy", () => {
+    const request = new Request("http://localhost", {
+      headers: {
+        "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.1",
+        "x-real-ip": "10.0.0.2",
+      },
+    });
+
+    expect(getClientIp(request, 2)).toBe("203.0.113.7");
+    expect(getClientIp(request, 5)).toBe("198.51.100.1");
+    expect(getClientIp(request, 0)).toBe("10.0.0.2");
+  });
+
+  it("should fall back to x-real-ip", () => {
+    const request = new Request("http://localhost", { headers: { "x-real-ip": "203.0.113.8" } });
+
+    expect(getClientIp(request)).toBe("203.0.113.8");
+    expect(getClientIp(new Request("http://localhost"))).toBe("unknown");
+  });
+});
+
+describe("getQuotaResetTime", () => {
+  it("should return the next UTC midnight", () => {
+    const now = Date.parse("2026-10-19T15:30:00Z");
+
+    expect(new Date(getQuotaResetTime(now)).toISOString()).toBe("2026-10-20T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,234 @@
+// Limits on AI generation, which is paid for per request: a burst limit per
+// user or IP address, and a daily quota. Signed-in users' quotas are counted
+// in the database; anonymous callers of POST /api/breakdown get a smaller
+// per-IP quota counted in memory.
+import { NextResponse } from "next/server";
+import type { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import type { AIQuota } from "@/types/quota.types";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+type Env = Record<string, string | undefined>;
+
+export interface RateLimitConfig {
+  // AI requests per minute for each user or IP address
+  perMinute: number;
+  // Generations per UTC day for each user, unless ai_quotas overrides it
+  dailyQuota: number;
+  // Generations per UTC day for each IP address without an account
+  anonymousDailyQuota: number;
+  // Proxies in front of the app that append to x-forwarded-for
+  trustedProxies: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // When the current window ends, in milliseconds since the epoch
+  resetAt: number;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function readLimit(env: Env, name: string, fallback: number): number {
+  const value = env[name];
+  if (value === undefined || value === "") return fallback;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  return limit;
+}
+
+/**
+ * Read the limits from AI_RATE_LIMIT_PER_MINUTE, AI_DAILY_QUOTA,
+ * AI_ANONYMOUS_DAILY_QUOTA and TRUSTED_PROXY_COUNT, falling back to the defaults.
+ */
+export function getRateLimitConfig(env: Env = process.env): RateLimitConfig {
+  return {
+    perMinute: readLimit(env, "AI_RATE_LIMIT_PER_MINUTE", 10),
+    dailyQuota: readLimit(env, "AI_DAILY_QUOTA", 50),
+    anonymousDailyQuota: readLimit(env, "AI_ANONYMOUS_DAILY_QUOTA", 5),
+    trustedProxies: readLimit(env, "TRUSTED_PROXY_COUNT", 1),
+  };
+}
+
+/**
+ * A fixed-window counter kept in memory. Each server instance counts on its
+ * own, so this guards against bursts rather than enforcing an exact total.
+ * Windows line up with the epoch, so daily windows reset at UTC midnight.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    const start = now - (now % windowMs);
+
+    // Forget finished windows now and then so the map doesn't grow forever
+    if (windows.size > 10_000) {
+      windows.forEach((window, windowKey) => {
+        if (window.start !== start) windows.delete(windowKey);
+      });
+    }
+
+    let window = windows.get(key);
+    if (!window || window.start !== start) {
+      window = { start, count: 0 };
+      windows.set(key, window);
+    }
+
+    const allowed = window.count < limit;
+    if (allowed) window.count += 1;
+
+    return { allowed, remaining: limit - window.count, resetAt: start + windowMs };
+  };
+}
+
+/**
+ * The caller's IP address as reported by the proxies in front of the app.
+ * Clients can send x-forwarded-for themselves, so only the addresses appended
+ * by the trusted proxies count: the one the outermost proxy saw is
+ * `trustedProxies` entries from the end.
+ */
+export function getClientIp(request: Request, trustedProxies = 1): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - trustedProxies)];
+  return (trustedProxies > 0 && forwarded) || request.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * Start of the next UTC day, when daily quotas reset.
+ */
+export function getQuotaResetTime(now: number): number {
+  return now - (now % DAY_MS) + DAY_MS;
+}
+
+function tooManyRequests(error: string, resetAt: number, now: number) {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+  return NextResponse.json(
+    { error, retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+let limiters: {
+  config: RateLimitConfig;
+  burst: ReturnType<typeof createRateLimiter>;
+  anonymousDaily: ReturnType<typeof createRateLimiter>;
+} | null = null;
+
+// Shared limiters for route handlers, created on first use
+function getLimiters() {
+  if (!limiters) {
+    const config = getRateLimitConfig();
+    limiters = {
+      config,
+      burst: createRateLimiter(config.perMinute, MINUTE_MS),
+      anonymousDaily: createRateLimiter(config.anonymousDailyQuota, DAY_MS),
+    };
+  }
+  return limiters;
+}
+
+/**
+ * Check the burst limit and count one AI generation against the caller's
+ * daily quota. Returns a 429 response with Retry-After when either is used up,
+ * or null when the request can go ahead. Requests are counted before the AI is
+ * called, so generations that fail still count.
+ */
+export async function limitAIRequest(
+  supabase: SupabaseClient,
+  userId: string | null,
+  request: Request,
+  requestId: string
+): Promise<NextResponse | null> {
+  const { config, burst, anonymousDaily } = getLimiters();
+  const now = Date.now();
+  const key = userId ? `user:${userId}` : `ip:${getClientIp(request, config.trustedProxies)}`;
+
+  const burstResult = burst(key, now);
+  if (!burstResult.allowed) {
+    logger.warn("AI rate limit exceeded", { requestId, key });
+    return tooManyRequests(
+      "Too many requests. Please wait a moment and try again.",
+      burstResult.resetAt,
+      now
+    );
+  }
+
+  if (!userId) {
+    const daily = anonymousDaily(key, now);
+    if (!daily.allowed) {
+      logger.warn("Anonymous AI quota exceeded", { requestId, key });
+      return tooManyRequests(
+        "Daily limit reached. Sign up to keep breaking down tasks.",
+        daily.resetAt,
+        now
+      );
+    }
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc("consume_ai_quota", {
+    p_default_limit: config.dailyQuota,
+  });
+
+  if (error) {
+    logger.error("Failed to check AI quota", error as Error, { requestId });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+
+  const { allowed, limit } = data as { allowed: boolean; used: number; limit: number };
+  if (!allowed) {
+    logger.warn("Daily AI quota exceeded", { requestId, userId, limit });
+    return tooManyRequests(
+      `You've used all ${limit} AI generations for today. Your quota resets at midnight UTC.`,
+      getQuotaResetTime(now),
+      now
+    );
+  }
+
+  return null;
+}
+
+/**
+ * How much of today's AI quota the user has used.
+ */
+export async function getAIQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  now = Date.now()
+): Promise<AIQuota> {
+  const today = new Date(now).toISOString().slice(0, 10);
+
+  const [{ data: override, error: quotaError }, { data: usage, error: usageError }] =
+    await Promise.all([
+      supabase.from("ai_quotas").select("daily_limit").eq("user_id", userId).maybeSingle(),
+      supabase
+        .from("ai_usage")
+        .select("count")
+        .eq("user_id", userId)
+        .eq("day", today)
+        .maybeSingle(),
+    ]);
+
+  if (quotaError || usageError) {
+    throw quotaError ?? usageError;
+  }
+
+  const limit = override?.daily_limit ?? getLimiters().config.dailyQuota;
+  const used = usage?.count ?? 0;
+
+  return {
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    resetsAt: new Date(getQuotaResetTime(now)).toISOString(),
+  };
+}
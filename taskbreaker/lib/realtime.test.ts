@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  applySubtaskChange,
+  applyTaskChange,
+  belongsInView,
+  type SubtaskChange,
+  type TaskChange,
+} from "./realtime";
+import { buildSubtaskTree } from "./subtasks";
+import type { Task } from "@/types/task.types";
+
+const userId = "me";
+
+type TaskRow = Extract<TaskChange, { eventType: "INSERT" }>["new"];
+type SubtaskRow = Extract<SubtaskChange, { eventType: "INSERT" }>["new"];
+
+const meta = { schema: "public", commit_timestamp: "2026-10-19T12:00:00Z", errors: [] };
+
+// Realtime payloads carry the full new row, or only the primary key on delete
+const taskChange = (eventType: "INSERT" | "UPDATE", row: TaskRow): TaskChange => ({
+  ...meta,
+  table: "tasks",
+  eventType,
+  new: row,
+  old: {},
+});
+
+const subtaskChange = (eventType: "INSERT" | "UPDATE", row: SubtaskRow): SubtaskChange => ({
+  ...meta,
+  table: "subtasks",
+  eventType,
+  new: row,
+  old: {},
+});
+
+const taskRow = (fields: Partial<TaskRow> = {}): TaskRow => ({
+  id: "t1",
+  user_id: userId,
+  title: "Plan party",
+  description: null,
+  due_date: null,
+  priority: "medium",
+  tags: [],
+  position: null,
+  search_vector: null,
+  archived_at: null,
+  deleted_at: null,
+  prompt_name: null,
+  prompt_version: null,
+  created_at: "2026-10-19T10:00:00Z",
+  ...fields,
+});
+
+const subtaskRow = (fields: Partial<SubtaskRow> = {}): SubtaskRow => ({
+  id: "s1",
+  task_id: "t1",
+  parent_id: null,
+  text: "Order cake",
+  checked: false,
+  due_date: null,
+  estimated_minutes: null,
+  effort: null,
+  checked_by: null,
+  checked_at: null,
+  position: 0,
+  created_at: "2026-10-19T10:00:00Z",
+  ...fields,
+});
+
+const task: Task = {
+  ...taskRow(),
+  subtasks: buildSubtaskTree([
+    subtaskRow({ id: "s1", position: 0 }),
+    subtaskRow({ id: "s2", text: "Send invites", position: 1 }),
+  ]),
+  role: "owner",
+  members: [{ email: "sam@example.com", user_id: "u2", role: "editor" }],
+};
+
+const options = { view: "active" as const, userId, addNew: true };
+
+describe("belongsInView", () => {
+  it("should split own, shared, archived and trashed tasks", () => {
+    const archived = taskRow({ archived_at: "2026-10-19T12:00:00Z" });
+    const trashed = taskRow({ deleted_at: "2026-10-19T12:00:00Z" });
+
+    expect(belongsInView(taskRow(), "active", userId)).toBe(true);
+    expect(belongsInView(taskRow({ user_id: "u2" }), "shared", userId)).toBe(true);
+    expect(belongsInView(archived, "active", userId)).toBe(false);
+    expect(belongsInView(archived, "archived", userId)).toBe(true);
+    expect(belongsInView(trashed, "trash", userId)).toBe(true);
+  });
+});
+
+describe("applyTaskChange", () => {
+  it("should merge updated fields and keep subtasks and sharing details", () => {
+    const change = taskChange("UPDATE", taskRow({ title: "Big party" }));
+
+    const [updated] = applyTaskChange([task], change, options);
+
+    expect(updated.title).toBe("Big party");
+    expect(updated.subtasks).toBe(task.subtasks);
+    expect(updated.members).toEqual(task.members);
+  });
+
+  it("should drop a task that was moved out of the view", () => {
+    const change = taskChange("UPDATE", taskRow({ deleted_at: "2026-10-19T12:00:00Z" }));
+
+    expect(applyTaskChange([task], change, options)).toEqual([]);
+  });
+
+  it("should add new own tasks at the top only when allowed", () => {
+    const change = taskChange("INSERT", taskRow({ id: "t2" }));
+
+    const [added, ...rest] = applyTaskChange([task], change, options);
+
+    expect(added).toMatchObject({ id: "t2", subtasks: [], role: "owner" });
+    expect(added).not.toHaveProperty("search_vector");
+    expect(rest).toEqual([task]);
+    expect(applyTaskChange([task], change, { ...options, addNew: false })).toEqual([task]);
+  });
+
+  it("should not add a task that is already listed", () => {
+    expect(applyTaskChange([task], taskChange("INSERT", taskRow()), options)).toHaveLength(1);
+  });
+
+  it("should remove deleted tasks by id", () => {
+    const change: TaskChange = {
+      ...meta,
+      table: "tasks",
+      eventType: "DELETE",
+      new: {},
+      old: { id: "t1" },
+    };
+
+    expect(applyTaskChange([task], change, options)).toEqual([]);
+  });
+});
+
+describe("applySubtaskChange", () => {
+  it("should update a subtask in place", () => {
+    const change = subtaskChange("UPDATE", subtaskRow({ checked: true, checked_by: "u2" }));
+
+    const [updated] = applySubtaskChange([task], change);
+
+    expect(updated.subtasks.map((s) => s.id)).toEqual(["s1", "s2"]);
+    expect(updated.subtasks[0]).toMatchObject({ checked: true, checked_by: "u2" });
+  });
+
+  it("should nest inserted subtasks under their parent", () => {
+    const change = subtaskChange(
+      "INSERT",
+      subtaskRow({ id: "s2a", parent_id: "s2", text: "Write list" })
+    );
+
+    const [updated] = applySubtaskChange([task], change);
+
+    expect(updated.subtasks[1].children.map((s) => s.id)).toEqual(["s2a"]);
+  });
+
+  it("should ignore changes to tasks that are not listed", () => {
+    const change = subtaskChange("INSERT", subtaskRow({ id: "x", task_id: "other" }));
+
+    expect(applySubtaskChange([task], change)).toEqual([task]);
+  });
+
+  it("should remove deleted subtasks", () => {
+    const change: SubtaskChange = {
+      ...meta,
+      table: "subtasks",
+      eventType: "DELETE",
+      new: {},
+      old: { id: "s1" },
+    };
+
+    const [updated] = applySubtaskChange([task], change);
+
+    expect(updated.subtasks.map((s) => s.id)).toEqual(["s2"]);
+    expect(updated.subtasks[0].position).toBe(0);
+  });
+});
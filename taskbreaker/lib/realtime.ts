@@ -0,0 +1,133 @@
+// Merges realtime database changes into the dashboard's task list, so edits
+// made in other tabs and devices show up without a reload. Changes that echo
+// the dashboard's own actions apply cleanly on top of the local update.
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { Database } from "@/types/database.types";
+import type { Subtask, SubtaskRow, Task } from "@/types/task.types";
+import { buildSubtaskTree, removeSubtaskFromTree } from "@/lib/subtasks";
+import type { TaskView } from "@/lib/task-list";
+
+type TaskTableRow = Database["public"]["Tables"]["tasks"]["Row"];
+type SubtaskTableRow = Database["public"]["Tables"]["subtasks"]["Row"];
+
+export type TaskChange = RealtimePostgresChangesPayload<TaskTableRow>;
+export type SubtaskChange = RealtimePostgresChangesPayload<SubtaskTableRow>;
+
+export interface TaskChangeOptions {
+  view: TaskView;
+  userId: string;
+  // New tasks are only added when the list is unfiltered in manual order,
+  // since they may not match the filters or belong further down the list
+  addNew: boolean;
+}
+
+/**
+ * Whether a task row belongs in a dashboard view for the given user.
+ */
+export function belongsInView(
+  row: Pick<TaskTableRow, "user_id" | "archived_at" | "deleted_at">,
+  view: TaskView,
+  userId: string
+): boolean {
+  const isOwn = row.user_id === userId;
+  switch (view) {
+    case "active":
+      return isOwn && !row.archived_at && !row.deleted_at;
+    case "shared":
+      return !isOwn && !row.archived_at && !row.deleted_at;
+    case "archived":
+      return isOwn && !!row.archived_at && !row.deleted_at;
+    case "trash":
+      return isOwn && !!row.deleted_at;
+  }
+}
+
+// Realtime rows include every column, so keep only the ones the list uses
+function toTaskFields(row: TaskTableRow) {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    due_date: row.due_date,
+    priority: row.priority,
+    tags: row.tags,
+    position: row.position,
+    archived_at: row.archived_at,
+    deleted_at: row.deleted_at,
+    created_at: row.created_at,
+  };
+}
+
+function toSubtaskRow(row: SubtaskTableRow): SubtaskRow {
+  return {
+    id: row.id,
+    parent_id: row.parent_id,
+    text: row.text,
+    checked: row.checked,
+    checked_by: row.checked_by,
+    checked_at: row.checked_at,
+    due_date: row.due_date,
+    estimated_minutes: row.estimated_minutes,
+    effort: row.effort,
+    position: row.position,
+  };
+}
+
+function flattenSubtasks(subtasks: Subtask[]): SubtaskRow[] {
+  return subtasks.flatMap(({ children, ...row }) => [row, ...flattenSubtasks(children)]);
+}
+
+/**
+ * Apply a change to the tasks table. Updates keep the task's subtasks and
+ * sharing details, and drop it once it no longer belongs in the view.
+ */
+export function applyTaskChange(
+  tasks: Task[],
+  change: TaskChange,
+  { view, userId, addNew }: TaskChangeOptions
+): Task[] {
+  if (change.eventType === "DELETE") {
+    return tasks.filter((task) => task.id !== change.old.id);
+  }
+
+  const row = change.new;
+  const exists = tasks.some((task) => task.id === row.id);
+
+  if (!belongsInView(row, view, userId)) {
+    return exists ? tasks.filter((task) => task.id !== row.id) : tasks;
+  }
+
+  if (exists) {
+    return tasks.map((task) =>
+      task.id === row.id ? { ...task, ...toTaskFields(row) } : task
+    );
+  }
+
+  // Updates to tasks outside the loaded page are ignored; they appear on reload.
+  // A new task can't have been shared yet, so only the owner's list gains it.
+  if (change.eventType !== "INSERT" || !addNew || row.user_id !== userId) return tasks;
+
+  return [{ ...toTaskFields(row), subtasks: [], role: "owner", members: [] }, ...tasks];
+}
+
+/**
+ * Apply a change to the subtasks table by rebuilding the affected task's tree,
+ * so moves between parents and positions are picked up as well as edits.
+ */
+export function applySubtaskChange(tasks: Task[], change: SubtaskChange): Task[] {
+  if (change.eventType === "DELETE") {
+    const subtaskId = change.old.id;
+    if (!subtaskId) return tasks;
+    return tasks.map((task) => ({
+      ...task,
+      subtasks: removeSubtaskFromTree(task.subtasks, subtaskId),
+    }));
+  }
+
+  const row = change.new;
+  return tasks.map((task) => {
+    if (task.id !== row.task_id) return task;
+    const rows = flattenSubtasks(task.subtasks).filter((subtask) => subtask.id !== row.id);
+    return { ...task, subtasks: buildSubtaskTree([...rows, toSubtaskRow(row)]) };
+  });
+}
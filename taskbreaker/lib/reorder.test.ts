@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { moveItem } from "./reorder";
+
+describe("moveItem", () => {
+  it("should move an item down the list", () => {
+    expect(moveItem(["a", "b", "c", "d"], 0, 2)).toEqual(["b", "c", "a", "d"]);
+  });
+
+  it("should move an item up the list", () => {
+    expect(moveItem(["a", "b", "c", "d"], 3, 1)).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("should not mutate the original list", () => {
+    const items = ["a", "b"];
+    moveItem(items, 0, 1);
+    expect(items).toEqual(["a", "b"]);
+  });
+
+  it("should ignore out-of-range moves", () => {
+    const items = ["a", "b"];
+    expect(moveItem(items, 0, 2)).toBe(items);
+    expect(moveItem(items, -1, 0)).toBe(items);
+    expect(moveItem(items, 1, 1)).toBe(items);
+  });
+});
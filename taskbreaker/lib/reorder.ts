@@ -0,0 +1,20 @@
+/**
+ * Return a copy of `items` with the item at `from` moved to index `to`.
+ * Out-of-range indexes return the list unchanged.
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (
+    from === to ||
+    from < 0 ||
+    to < 0 ||
+    from >= items.length ||
+    to >= items.length
+  ) {
+    return items;
+  }
+
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { exportQuerySchema } from "./export.schema";
+
+describe("exportQuerySchema", () => {
+  it("should accept a format with or without a task ID", () => {
+    expect(exportQuerySchema.safeParse({ format: "csv" }).success).toBe(true);
+    expect(
+      exportQuerySchema.safeParse({
+        format: "ics",
+        taskId: "123e4567-e89b-12d3-a456-426614174000",
+      }).success
+    ).toBe(true);
+  });
+
+  it("should reject unknown formats and task IDs", () => {
+    const result = exportQuerySchema.safeParse({ format: "pdf" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Invalid export format");
+    }
+
+    expect(exportQuerySchema.safeParse({ format: "json", taskId: "nope" }).success).toBe(false);
+  });
+});
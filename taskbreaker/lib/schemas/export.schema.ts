@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const EXPORT_FORMATS = ["markdown", "json", "csv", "ics"] as const;
+
+// Query string for GET /api/tasks/export; without a task ID every task is exported
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS, "Invalid export format"),
+  taskId: z.string().uuid("Invalid task ID").optional(),
+});
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
@@ -1,2 +1,6 @@
 export * from "./auth.schema";
+export * from "./export.schema";
+export * from "./preferences.schema";
 export * from "./task.schema";
+export * from "./template.schema";
+export * from "./usage.schema";
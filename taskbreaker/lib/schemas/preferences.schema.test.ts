@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BREAKDOWN_PREFERENCES,
+  breakdownPreferencesSchema,
+} from "./preferences.schema";
+
+describe("breakdownPreferencesSchema", () => {
+  it("should accept the defaults and trim text", () => {
+    expect(breakdownPreferencesSchema.parse(DEFAULT_BREAKDOWN_PREFERENCES)).toEqual(
+      DEFAULT_BREAKDOWN_PREFERENCES
+    );
+
+    const result = breakdownPreferencesSchema.parse({
+      ...DEFAULT_BREAKDOWN_PREFERENCES,
+      language: "  German ",
+      context: " I'm a software engineer ",
+    });
+    expect(result).toMatchObject({ language: "German", context: "I'm a software engineer" });
+  });
+
+  it("should reject a minimum above the maximum", () => {
+    const result = breakdownPreferencesSchema.safeParse({
+      ...DEFAULT_BREAKDOWN_PREFERENCES,
+      minSubtasks: 8,
+      maxSubtasks: 4,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Minimum subtasks can't be more than the maximum"
+      );
+      expect(result.error.issues[0].path).toEqual(["maxSubtasks"]);
+    }
+  });
+
+  it("should reject counts outside 2-10 and unknown tones", () => {
+    const parse = (changes: object) =>
+      breakdownPreferencesSchema.safeParse({ ...DEFAULT_BREAKDOWN_PREFERENCES, ...changes });
+
+    expect(parse({ minSubtasks: 1 }).success).toBe(false);
+    expect(parse({ maxSubtasks: 11 }).success).toBe(false);
+    expect(parse({ minSubtasks: 2.5 }).success).toBe(false);
+    expect(parse({ tone: "sarcastic" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+export const TONES = ["friendly", "professional", "casual", "direct"] as const;
+
+// Bounds on how many subtasks a user can ask the AI for
+export const MIN_SUBTASK_COUNT = 2;
+export const MAX_SUBTASK_COUNT = 10;
+
+const subtaskCountSchema = z
+  .number("Subtask count must be a number")
+  .int("Subtask count must be a whole number")
+  .min(MIN_SUBTASK_COUNT, `Subtask count must be at least ${MIN_SUBTASK_COUNT}`)
+  .max(MAX_SUBTASK_COUNT, `Subtask count must be ${MAX_SUBTASK_COUNT} or less`);
+
+// How the AI breaks down new tasks for a user, from the settings page
+export const breakdownPreferencesSchema = z
+  .object({
+    minSubtasks: subtaskCountSchema,
+    maxSubtasks: subtaskCountSchema,
+    tone: z.enum(TONES, "Invalid tone"),
+    // Empty to answer in the language of the task
+    language: z.string().trim().max(40, "Language must be 40 characters or less"),
+    // What the user wants the AI to know, e.g. "I'm a software engineer"
+    context: z.string().trim().max(300, "Context must be 300 characters or less"),
+  })
+  .refine((preferences) => preferences.minSubtasks <= preferences.maxSubtasks, {
+    message: "Minimum subtasks can't be more than the maximum",
+    path: ["maxSubtasks"],
+  });
+
+export type Tone = (typeof TONES)[number];
+export type BreakdownPreferences = z.infer<typeof breakdownPreferencesSchema>;
+
+// What users get until they save their own, matching the original prompt
+export const DEFAULT_BREAKDOWN_PREFERENCES: BreakdownPreferences = {
+  minSubtasks: 3,
+  maxSubtasks: 5,
+  tone: "friendly",
+  language: "",
+  context: "",
+};
@@ -1,5 +1,35 @@
 import { describe, it, expect } from "vitest";
-import { aiTaskResponseSchema } from "./task.schema";
+import {
+  aiSubtaskBreakdownSchema,
+  aiTaskResponseSchema,
+  createAITaskResponseSchema,
+  createSubtaskSchema,
+  createTaskSchema,
+  importTaskListSchema,
+  importTasksSchema,
+  inviteMemberSchema,
+  listTasksQuerySchema,
+  regenerateTaskSchema,
+  reorderSubtasksSchema,
+  reorderTasksSchema,
+  updateSubtaskSchema,
+  updateTaskSchema,
+} from "./task.schema";
+
+describe("createAITaskResponseSchema", () => {
+  it("should accept the number of subtasks it was created with", () => {
+    const schema = createAITaskResponseSchema(6, 8);
+    const response = (count: number) => ({
+      title: "Garage Cleanup",
+      subtasks: Array.from({ length: count }, (_, i) => `Step ${i + 1}`),
+    });
+
+    expect(schema.safeParse(response(5)).success).toBe(false);
+    expect(schema.safeParse(response(6)).success).toBe(true);
+    expect(schema.safeParse(response(8)).success).toBe(true);
+    expect(schema.safeParse(response(9)).success).toBe(false);
+  });
+});
 
 describe("aiTaskResponseSchema", () => {
   it("should validate a correct AI response", () => {
@@ -126,6 +156,73 @@ describe("aiTaskResponseSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should accept subtasks with estimates and normalize plain strings", () => {
+    const result = aiTaskResponseSchema.safeParse({
+      title: "Garage Cleanup",
+      subtasks: [
+        { text: "Sort tools into bins", minutes: 30, effort: "quick" },
+        { text: "Haul junk to the dump", minutes: 120, effort: "deep" },
+        "Sweep the floor",
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.subtasks[0]).toEqual({
+        text: "Sort tools into bins",
+        minutes: 30,
+        effort: "quick",
+      });
+      expect(result.data.subtasks[2]).toEqual({
+        text: "Sweep the floor",
+        minutes: null,
+        effort: null,
+      });
+    }
+  });
+
+  it("should drop invalid estimates instead of rejecting the subtask", () => {
+    const result = aiTaskResponseSchema.safeParse({
+      title: "Garage Cleanup",
+      subtasks: [
+        { text: "Sort tools", minutes: -5, effort: "someday" },
+        { text: "Haul junk" },
+        "Sweep the floor",
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.subtasks[0]).toMatchObject({ minutes: null, effort: null });
+      expect(result.data.subtasks[1]).toMatchObject({ minutes: null, effort: null });
+    }
+  });
+
+  it("should normalize suggested tags and drop unusable ones", () => {
+    const result = aiTaskResponseSchema.safeParse({
+      title: "Garage Cleanup",
+      subtasks: ["Sort tools", "Haul junk", "Sweep the floor"],
+      tags: ["Home", "home", "", 42, "Weekend  Chores"],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tags).toEqual(["home", "weekend chores"]);
+    }
+  });
+
+  it("should default to no tags", () => {
+    const result = aiTaskResponseSchema.safeParse({
+      title: "Garage Cleanup",
+      subtasks: ["Sort tools", "Haul junk", "Sweep the floor"],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tags).toEqual([]);
+    }
+  });
+
   it("should reject missing title", () => {
     const invalidResponse = {
       subtasks: ["Task 1", "Task 2", "Task 3"],
@@ -144,3 +241,348 @@ describe("aiTaskResponseSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("aiSubtaskBreakdownSchema", () => {
+  it("should validate 2-5 child subtasks", () => {
+    expect(
+      aiSubtaskBreakdownSchema.safeParse({ subtasks: ["Step 1", "Step 2"] }).success
+    ).toBe(true);
+    expect(
+      aiSubtaskBreakdownSchema.safeParse({
+        subtasks: ["Step 1", "Step 2", "Step 3", "Step 4", "Step 5"],
+      }).success
+    ).toBe(true);
+  });
+
+  it("should reject fewer than 2 child subtasks", () => {
+    const result = aiSubtaskBreakdownSchema.safeParse({ subtasks: ["Step 1"] });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject empty child subtasks", () => {
+    const result = aiSubtaskBreakdownSchema.safeParse({ subtasks: ["Step 1", ""] });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("regenerateTaskSchema", () => {
+  it("should trim the instruction", () => {
+    const result = regenerateTaskSchema.safeParse({ instruction: "  only 3 steps  " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.instruction).toBe("only 3 steps");
+    }
+  });
+
+  it("should default to an empty instruction", () => {
+    const result = regenerateTaskSchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.instruction).toBe("");
+    }
+  });
+
+  it("should reject instructions longer than 200 characters", () => {
+    const result = regenerateTaskSchema.safeParse({ instruction: "a".repeat(201) });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("createSubtaskSchema", () => {
+  it("should accept a top-level subtask and trim its text", () => {
+    const result = createSubtaskSchema.safeParse({ text: "  Buy balloons  " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.text).toBe("Buy balloons");
+    }
+  });
+
+  it("should accept a parent subtask ID", () => {
+    const result = createSubtaskSchema.safeParse({
+      text: "Buy balloons",
+      parentId: "0b5c9a3e-8f0e-4a0b-9a4e-2d8f1c6b7e51",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an invalid parent subtask ID", () => {
+    const result = createSubtaskSchema.safeParse({ text: "Buy balloons", parentId: "abc" });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject empty or overly long text", () => {
+    expect(createSubtaskSchema.safeParse({ text: "   " }).success).toBe(false);
+    expect(createSubtaskSchema.safeParse({ text: "a".repeat(101) }).success).toBe(false);
+  });
+});
+
+describe("updateTaskSchema", () => {
+  it("should accept a trimmed title", () => {
+    const result = updateTaskSchema.safeParse({ title: "  Garage Cleanup " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.title).toBe("Garage Cleanup");
+    }
+  });
+
+  it("should clear the description when given an empty string", () => {
+    const result = updateTaskSchema.safeParse({ description: "   " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.description).toBeNull();
+    }
+  });
+
+  it("should accept setting and clearing a due date", () => {
+    expect(updateTaskSchema.safeParse({ dueDate: "2026-10-24" }).success).toBe(true);
+    expect(updateTaskSchema.safeParse({ dueDate: null }).success).toBe(true);
+  });
+
+  it("should reject a due date with a time", () => {
+    expect(
+      updateTaskSchema.safeParse({ dueDate: "2026-10-24T10:00:00Z" }).success
+    ).toBe(false);
+  });
+
+  it("should normalize and dedupe tags", () => {
+    const result = updateTaskSchema.safeParse({ tags: [" Work ", "work", "Q4 Planning"] });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tags).toEqual(["work", "q4 planning"]);
+    }
+  });
+
+  it("should reject more than 10 tags", () => {
+    const tags = Array.from({ length: 11 }, (_, i) => `tag${i}`);
+    expect(updateTaskSchema.safeParse({ tags }).success).toBe(false);
+  });
+
+  it("should reject an unknown priority", () => {
+    expect(updateTaskSchema.safeParse({ priority: "critical" }).success).toBe(false);
+  });
+
+  it("should reject an empty title", () => {
+    expect(updateTaskSchema.safeParse({ title: " " }).success).toBe(false);
+  });
+
+  it("should reject an empty update", () => {
+    expect(updateTaskSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("listTasksQuerySchema", () => {
+  it("should accept a due filter with the client's date", () => {
+    const result = listTasksQuerySchema.safeParse({ due: "week", today: "2026-10-19" });
+    expect(result.success).toBe(true);
+  });
+
+  it("should accept an empty query", () => {
+    expect(listTasksQuerySchema.safeParse({}).success).toBe(true);
+  });
+
+  it("should default to the active view and reject unknown views", () => {
+    const result = listTasksQuerySchema.safeParse({});
+    expect(result.success && result.data.view).toBe("active");
+    expect(listTasksQuerySchema.safeParse({ view: "trash" }).success).toBe(true);
+    expect(listTasksQuerySchema.safeParse({ view: "deleted" }).success).toBe(false);
+  });
+
+  it("should normalize the tag filter", () => {
+    const result = listTasksQuerySchema.safeParse({ tag: " Home ", priority: "high" });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tag).toBe("home");
+    }
+  });
+
+  it("should default to manual order with a page of 20", () => {
+    const result = listTasksQuerySchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.sort).toBe("manual");
+      expect(result.data.limit).toBe(20);
+    }
+  });
+
+  it("should coerce the limit from the query string", () => {
+    const result = listTasksQuerySchema.safeParse({ limit: "50", sort: "progress" });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.limit).toBe(50);
+    }
+  });
+
+  it("should reject a limit above 100", () => {
+    expect(listTasksQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+  });
+
+  it("should reject an unknown due filter", () => {
+    expect(listTasksQuerySchema.safeParse({ due: "someday" }).success).toBe(false);
+  });
+});
+
+describe("updateSubtaskSchema", () => {
+  it("should accept a checked update", () => {
+    expect(updateSubtaskSchema.safeParse({ checked: true }).success).toBe(true);
+  });
+
+  it("should accept a text update", () => {
+    const result = updateSubtaskSchema.safeParse({ text: " Fix typo " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.text).toBe("Fix typo");
+    }
+  });
+
+  it("should reject an empty update", () => {
+    expect(updateSubtaskSchema.safeParse({}).success).toBe(false);
+  });
+
+  it("should accept a due date update", () => {
+    expect(updateSubtaskSchema.safeParse({ dueDate: "2026-10-24" }).success).toBe(true);
+  });
+
+  it("should reject empty text", () => {
+    expect(updateSubtaskSchema.safeParse({ text: "" }).success).toBe(false);
+  });
+});
+
+describe("reorderTasksSchema", () => {
+  const ids = ["0b5c9a3e-8f0e-4a0b-9a4e-2d8f1c6b7e51", "7d3f2a10-1c2b-4e5f-8a9b-0c1d2e3f4a5b"];
+
+  it("should accept a list of unique task IDs", () => {
+    expect(reorderTasksSchema.safeParse({ taskIds: ids }).success).toBe(true);
+  });
+
+  it("should reject duplicate task IDs", () => {
+    expect(reorderTasksSchema.safeParse({ taskIds: [ids[0], ids[0]] }).success).toBe(false);
+  });
+
+  it("should reject an empty list", () => {
+    expect(reorderTasksSchema.safeParse({ taskIds: [] }).success).toBe(false);
+  });
+});
+
+describe("reorderSubtasksSchema", () => {
+  const ids = ["0b5c9a3e-8f0e-4a0b-9a4e-2d8f1c6b7e51", "7d3f2a10-1c2b-4e5f-8a9b-0c1d2e3f4a5b"];
+
+  it("should accept a top-level order without a parent", () => {
+    expect(reorderSubtasksSchema.safeParse({ subtaskIds: ids }).success).toBe(true);
+    expect(reorderSubtasksSchema.safeParse({ parentId: null, subtaskIds: ids }).success).toBe(
+      true
+    );
+  });
+
+  it("should reject invalid subtask IDs", () => {
+    expect(reorderSubtasksSchema.safeParse({ subtaskIds: ["nope"] }).success).toBe(false);
+  });
+});
+
+describe("createTaskSchema", () => {
+  const templateId = "123e4567-e89b-12d3-a456-426614174000";
+
+  it("should require a task unless a template is given", () => {
+    expect(createTaskSchema.safeParse({}).success).toBe(false);
+    expect(createTaskSchema.safeParse({ templateId }).success).toBe(true);
+  });
+
+  it("should require a task description to customize a template", () => {
+    const result = createTaskSchema.safeParse({ templateId, customize: true });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Describe the task to customize the template for"
+      );
+    }
+    expect(
+      createTaskSchema.safeParse({ templateId, customize: true, task: "Onboard Sam" }).success
+    ).toBe(true);
+  });
+});
+
+describe("importTasksSchema", () => {
+  it("should require a known format and some content", () => {
+    expect(importTasksSchema.safeParse({ format: "markdown", content: "# Plan" }).success).toBe(
+      true
+    );
+    expect(importTasksSchema.safeParse({ format: "csv", content: "a,b" }).success).toBe(false);
+    expect(importTasksSchema.safeParse({ format: "json", content: "" }).success).toBe(false);
+  });
+});
+
+describe("importTaskListSchema", () => {
+  it("should fill in defaults and ignore fields that are assigned on save", () => {
+    const result = importTaskListSchema.safeParse({
+      tasks: [
+        {
+          id: "t1",
+          title: " Plan offsite ",
+          tags: ["Work"],
+          role: "owner",
+          subtasks: [{ id: "s1", text: "Book venue", checked: true, checked_by: "u1" }],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.tasks[0]).toEqual({
+        title: "Plan offsite",
+        description: null,
+        due_date: null,
+        priority: "medium",
+        tags: ["work"],
+        subtasks: [
+          {
+            text: "Book venue",
+            checked: true,
+            due_date: null,
+            estimated_minutes: null,
+            effort: null,
+            children: [],
+          },
+        ],
+      });
+    }
+  });
+
+  it("should reject subtasks nested deeper than the app allows", () => {
+    const nest = (depth: number): { text: string; children: unknown[] } => ({
+      text: `Level ${depth}`,
+      children: depth < 4 ? [nest(depth + 1)] : [],
+    });
+
+    const result = importTaskListSchema.safeParse({
+      tasks: [{ title: "Deep", subtasks: [nest(1)] }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Subtasks can be nested at most 3 levels deep");
+    }
+  });
+
+  it("should require at least one task", () => {
+    const result = importTaskListSchema.safeParse({ tasks: [] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("No tasks found to import");
+    }
+  });
+});
+
+describe("inviteMemberSchema", () => {
+  it("should lowercase the email and default to viewer", () => {
+    const result = inviteMemberSchema.safeParse({ email: " Sam@Example.com " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ email: "sam@example.com", role: "viewer" });
+    }
+  });
+
+  it("should reject invalid emails and roles", () => {
+    expect(inviteMemberSchema.safeParse({ email: "sam" }).success).toBe(false);
+    expect(
+      inviteMemberSchema.safeParse({ email: "sam@example.com", role: "owner" }).success
+    ).toBe(false);
+  });
+});
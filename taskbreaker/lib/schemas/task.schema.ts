@@ -1,27 +1,312 @@
 import { z } from "zod";
+import { DUE_FILTERS } from "@/lib/due-dates";
+import { MAX_SUBTASK_DEPTH } from "@/lib/subtasks";
+import { DEFAULT_PAGE_SIZE, SORT_ORDERS, TASK_SORTS, TASK_VIEWS } from "@/lib/task-list";
 
-export const createTaskSchema = z.object({
-  task: z
+export const PRIORITIES = ["low", "medium", "high"] as const;
+
+export const EFFORT_LEVELS = ["quick", "deep"] as const;
+
+// Tags are stored lowercase with single spaces so filtering is case-insensitive
+export const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((tag) => tag.replace(/\s+/g, " "))
+  .pipe(
+    z
+      .string()
+      .min(1, "Tags cannot be empty")
+      .max(30, "Tags must be 30 characters or less")
+  );
+
+export const tagsSchema = z
+  .array(tagSchema)
+  .max(10, "A task can have at most 10 tags")
+  .transform((tags) => [...new Set(tags)]);
+
+// Calendar day without a time, e.g. "2026-10-24"; null clears the due date
+const dueDateSchema = z.iso.date("Invalid due date").nullable();
+
+export const taskTitleSchema = z
+  .string()
+  .trim()
+  .min(1, "Title is required")
+  .max(200, "Title must be 200 characters or less");
+
+// The original request text; an empty string clears it
+export const taskDescriptionSchema = z
+  .string()
+  .trim()
+  .max(1000, "Description must be 1000 characters or less")
+  .transform((value) => value || null)
+  .nullable();
+
+const subtaskTextSchema = z
+  .string()
+  .trim()
+  .min(1, "Subtask text is required")
+  .max(100, "Subtask must be 100 characters or less");
+
+export const createTaskSchema = z
+  .object({
+    task: z
+      .string()
+      .min(1, "Task is required")
+      .max(200, "Task must be 200 characters or less")
+      .trim()
+      .optional(),
+    // Stream the breakdown as Server-Sent Events instead of a single JSON response
+    stream: z.boolean().optional(),
+    // Ask the AI for a new breakdown even if an identical task was answered recently
+    refresh: z.boolean().optional(),
+    // Copy a saved template instead of asking the AI for a breakdown
+    templateId: z.string().uuid("Invalid template ID").optional(),
+    // Have the AI adapt the template to `task`
+    customize: z.boolean().optional(),
+  })
+  .refine((data) => data.task !== undefined || data.templateId !== undefined, {
+    message: "Task is required",
+  })
+  .refine((data) => !data.customize || (data.templateId && data.task), {
+    message: "Describe the task to customize the template for",
+  });
+
+export const IMPORT_FORMATS = ["markdown", "json"] as const;
+
+export const MAX_IMPORT_TASKS = 50;
+
+// Body for POST /api/tasks/import; the content is parsed on the server
+export const importTasksSchema = z.object({
+  format: z.enum(IMPORT_FORMATS, "Invalid import format"),
+  content: z
     .string()
-    .min(1, "Task is required")
-    .max(200, "Task must be 200 characters or less")
-    .trim(),
+    .min(1, "Nothing to import")
+    .max(200_000, "Imports must be 200,000 characters or less"),
+  // Parse and validate without saving, to preview what will be created
+  preview: z.boolean().optional(),
+});
+
+// One imported subtask, in the shape tasks are exported as JSON. Completion
+// and due dates are kept; IDs and positions are assigned when saving.
+export const importSubtaskSchema = z.object({
+  text: subtaskTextSchema,
+  checked: z.boolean().default(false),
+  due_date: dueDateSchema.default(null),
+  estimated_minutes: z.number().int().min(1).max(480).nullable().default(null),
+  effort: z.enum(EFFORT_LEVELS, "Invalid effort").nullable().default(null),
+  get children(): z.ZodDefault<z.ZodArray<typeof importSubtaskSchema>> {
+    return z.array(importSubtaskSchema).default([]);
+  },
+});
+
+interface SubtaskTreeNode {
+  children: SubtaskTreeNode[];
+}
+
+const subtaskTreeDepth = (subtasks: SubtaskTreeNode[]): number =>
+  subtasks.reduce(
+    (depth, subtask) => Math.max(depth, 1 + subtaskTreeDepth(subtask.children)),
+    0
+  );
+
+const subtaskTreeSize = (subtasks: SubtaskTreeNode[]): number =>
+  subtasks.reduce((count, subtask) => count + 1 + subtaskTreeSize(subtask.children), 0);
+
+export const importTaskSchema = z
+  .object({
+    title: taskTitleSchema,
+    description: taskDescriptionSchema.default(null),
+    due_date: dueDateSchema.default(null),
+    priority: z.enum(PRIORITIES, "Invalid priority").default("medium"),
+    tags: tagsSchema.default([]),
+    subtasks: z.array(importSubtaskSchema).default([]),
+  })
+  .refine((task) => subtaskTreeDepth(task.subtasks) <= MAX_SUBTASK_DEPTH, {
+    message: `Subtasks can be nested at most ${MAX_SUBTASK_DEPTH} levels deep`,
+  })
+  .refine((task) => subtaskTreeSize(task.subtasks) <= 100, {
+    message: "A task can have at most 100 subtasks",
+  });
+
+// Parsed import content; JSON imports use the same shape as JSON exports
+export const importTaskListSchema = z.object({
+  tasks: z
+    .array(importTaskSchema, "Expected a list of tasks")
+    .min(1, "No tasks found to import")
+    .max(MAX_IMPORT_TASKS, `You can import up to ${MAX_IMPORT_TASKS} tasks at a time`),
+});
+
+export const updateTaskSchema = z
+  .object({
+    title: taskTitleSchema.optional(),
+    description: taskDescriptionSchema.optional(),
+    dueDate: dueDateSchema.optional(),
+    priority: z.enum(PRIORITIES, "Invalid priority").optional(),
+    tags: tagsSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+// Query string for GET /api/tasks
+export const listTasksQuerySchema = z.object({
+  view: z.enum(TASK_VIEWS, "Invalid view").default("active"),
+  due: z.enum(DUE_FILTERS, "Invalid due filter").optional(),
+  // The client's local date, so "today" matches the user's calendar
+  today: z.iso.date("Invalid date").optional(),
+  priority: z.enum(PRIORITIES, "Invalid priority").optional(),
+  tag: tagSchema.optional(),
+  // Full-text search across titles, descriptions and subtask text
+  q: z.string().trim().max(200, "Search must be 200 characters or less").optional(),
+  sort: z.enum(TASK_SORTS, "Invalid sort").default("manual"),
+  order: z.enum(SORT_ORDERS, "Invalid sort order").optional(),
+  cursor: z.string().max(1000, "Invalid cursor").optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, "Limit must be between 1 and 100")
+    .max(100, "Limit must be between 1 and 100")
+    .default(DEFAULT_PAGE_SIZE),
+});
+
+export const createSubtaskSchema = z.object({
+  text: subtaskTextSchema,
+  // Omit to add a top-level subtask
+  parentId: z.string().uuid("Invalid parent subtask ID").nullable().optional(),
+});
+
+export const updateSubtaskSchema = z
+  .object({
+    checked: z.boolean().optional(),
+    text: subtaskTextSchema.optional(),
+    dueDate: dueDateSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.checked !== undefined ||
+      data.text !== undefined ||
+      data.dueDate !== undefined,
+    { message: "Nothing to update" }
+  );
+
+const uniqueIds = (ids: string[]) => new Set(ids).size === ids.length;
+
+export const reorderTasksSchema = z.object({
+  taskIds: z
+    .array(z.string().uuid("Invalid task ID"))
+    .min(1, "At least one task is required")
+    .max(500, "Too many tasks")
+    .refine(uniqueIds, "Task IDs must be unique"),
+});
+
+export const reorderSubtasksSchema = z.object({
+  // The sibling level being reordered; omit for top-level subtasks
+  parentId: z.string().uuid("Invalid parent subtask ID").nullable().optional(),
+  subtaskIds: z
+    .array(z.string().uuid("Invalid subtask ID"))
+    .min(1, "At least one subtask is required")
+    .max(100, "Too many subtasks")
+    .refine(uniqueIds, "Subtask IDs must be unique"),
 });
 
-export const updateSubtaskSchema = z.object({
-  checked: z.boolean(),
+export const regenerateTaskSchema = z.object({
+  instruction: z
+    .string()
+    .max(200, "Instruction must be 200 characters or less")
+    .trim()
+    .default(""),
 });
 
 export const subtaskIdSchema = z.object({
   subtaskId: z.string().uuid("Invalid subtask ID"),
 });
 
-// Schema for validating AI-generated response with title and subtasks
-export const aiTaskResponseSchema = z.object({
-  title: z.string().min(2).max(50),
-  subtasks: z.array(z.string().min(1).max(100)).min(3).max(5),
+// One AI-generated subtask. Plain strings are still accepted, and a bad estimate
+// is dropped rather than failing the whole breakdown.
+export const aiSubtaskSchema = z
+  .union([
+    z.string().min(1).max(100),
+    z.object({
+      text: z.string().min(1).max(100),
+      minutes: z.number().int().min(1).max(480).nullable().catch(null),
+      effort: z.enum(EFFORT_LEVELS).nullable().catch(null),
+    }),
+  ])
+  .transform((subtask) =>
+    typeof subtask === "string"
+      ? { text: subtask, minutes: null, effort: null }
+      : subtask
+  );
+
+/**
+ * Schema for validating an AI-generated title and subtasks, with as many
+ * subtasks as the user's preferences ask for.
+ */
+export function createAITaskResponseSchema(minSubtasks = 3, maxSubtasks = 5) {
+  return z.object({
+    title: z.string().min(2).max(50),
+    subtasks: z.array(aiSubtaskSchema).min(minSubtasks).max(maxSubtasks),
+    // Suggested tags are optional; unusable ones are dropped. The model is
+    // asked for strings, which the meta adds to the generated JSON schema.
+    tags: z
+      .array(z.unknown().meta({ type: "string" }))
+      .catch([])
+      .transform((values) => [
+        ...new Set(
+          values.flatMap((value) => {
+            const tag = tagSchema.safeParse(value);
+            return tag.success ? [tag.data] : [];
+          })
+        ),
+      ].slice(0, 3)),
+  });
+}
+
+// The default 3-5 subtasks, e.g. for regenerated breakdowns
+export const aiTaskResponseSchema = createAITaskResponseSchema();
+
+// Schema for validating AI-generated child subtasks of an existing subtask
+export const aiSubtaskBreakdownSchema = z.object({
+  subtasks: z.array(aiSubtaskSchema).min(2).max(5),
+});
+
+export const MEMBER_ROLES = ["editor", "viewer"] as const;
+
+// Members are matched to accounts by lowercase email
+const memberEmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .pipe(z.email("Invalid email address"));
+
+// Invite a collaborator by email; inviting an existing member changes their role
+export const inviteMemberSchema = z.object({
+  email: memberEmailSchema,
+  role: z.enum(MEMBER_ROLES, "Invalid role").default("viewer"),
+});
+
+// Query string for DELETE /api/tasks/[taskId]/members
+export const removeMemberQuerySchema = z.object({
+  email: memberEmailSchema,
 });
 
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+export type ImportTasksInput = z.infer<typeof importTasksSchema>;
+export type ImportSubtask = z.infer<typeof importSubtaskSchema>;
+export type ImportTask = z.infer<typeof importTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type ListTasksQuery = z.infer<typeof listTasksQuerySchema>;
+export type CreateSubtaskInput = z.infer<typeof createSubtaskSchema>;
 export type UpdateSubtaskInput = z.infer<typeof updateSubtaskSchema>;
+export type ReorderTasksInput = z.infer<typeof reorderTasksSchema>;
+export type ReorderSubtasksInput = z.infer<typeof reorderSubtasksSchema>;
+export type RegenerateTaskInput = z.infer<typeof regenerateTaskSchema>;
+export type Priority = (typeof PRIORITIES)[number];
+export type Effort = (typeof EFFORT_LEVELS)[number];
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+export type AISubtask = z.infer<typeof aiSubtaskSchema>;
 export type AITaskResponse = z.infer<typeof aiTaskResponseSchema>;
+export type AISubtaskBreakdown = z.infer<typeof aiSubtaskBreakdownSchema>;
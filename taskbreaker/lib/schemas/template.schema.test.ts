@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { createTemplateSchema, updateTemplateSchema } from "./template.schema";
+
+describe("createTemplateSchema", () => {
+  it("should trim the name and require a task ID", () => {
+    const result = createTemplateSchema.safeParse({
+      taskId: "123e4567-e89b-12d3-a456-426614174000",
+      name: "  New hire onboarding ",
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.name).toBe("New hire onboarding");
+    }
+
+    expect(createTemplateSchema.safeParse({ taskId: "nope", name: "x" }).success).toBe(false);
+  });
+
+  it("should reject blank names", () => {
+    const result = createTemplateSchema.safeParse({
+      taskId: "123e4567-e89b-12d3-a456-426614174000",
+      name: "   ",
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("updateTemplateSchema", () => {
+  it("should normalize tags and reject empty updates", () => {
+    const result = updateTemplateSchema.safeParse({ tags: ["Work", "work"] });
+    expect(result.success && result.data.tags).toEqual(["work"]);
+    expect(updateTemplateSchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { tagsSchema, taskDescriptionSchema, taskTitleSchema } from "./task.schema";
+
+const templateNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Template name is required")
+  .max(100, "Template name must be 100 characters or less");
+
+// Templates are saved from an existing task and its subtasks
+export const createTemplateSchema = z.object({
+  taskId: z.string().uuid("Invalid task ID"),
+  name: templateNameSchema,
+});
+
+export const updateTemplateSchema = z
+  .object({
+    name: templateNameSchema.optional(),
+    title: taskTitleSchema.optional(),
+    description: taskDescriptionSchema.optional(),
+    tags: tagsSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { usageQuerySchema } from "./usage.schema";
+
+describe("usageQuerySchema", () => {
+  it("should default to 30 days and read numbers from the query string", () => {
+    expect(usageQuerySchema.parse({})).toEqual({ days: 30 });
+    expect(usageQuerySchema.parse({ days: "7" })).toEqual({ days: 7 });
+  });
+
+  it("should reject ranges outside 1-90 days", () => {
+    const result = usageQuerySchema.safeParse({ days: "365" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Days must be 90 or less");
+    }
+
+    expect(usageQuerySchema.safeParse({ days: "0" }).success).toBe(false);
+  });
+});
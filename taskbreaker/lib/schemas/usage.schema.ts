@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const MAX_USAGE_DAYS = 90;
+
+// Query string for GET /api/usage and GET /api/admin/usage: how many UTC days
+// back to report, including today
+export const usageQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int("Days must be a whole number")
+    .min(1, "Days must be at least 1")
+    .max(MAX_USAGE_DAYS, `Days must be ${MAX_USAGE_DAYS} or less`)
+    .default(30),
+});
+
+export type UsageQuery = z.infer<typeof usageQuerySchema>;
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { generateShareToken, getSharePath, toSharedTask } from "./share-links";
+
+describe("generateShareToken", () => {
+  it("should produce 32 URL-safe characters", () => {
+    const token = generateShareToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(getSharePath(token)).toBe(`/share/${token}`);
+  });
+
+  it("should not repeat tokens", () => {
+    expect(generateShareToken()).not.toBe(generateShareToken());
+  });
+});
+
+describe("toSharedTask", () => {
+  const row = (id: string, parentId: string | null, checked: boolean, position: number) => ({
+    id,
+    parent_id: parentId,
+    text: `Step ${id}`,
+    checked,
+    due_date: null,
+    estimated_minutes: null,
+    effort: null,
+    position,
+  });
+
+  it("should return null for unknown or revoked links", () => {
+    expect(toSharedTask(null)).toBeNull();
+  });
+
+  it("should nest subtasks and leave out who checked them", () => {
+    const task = toSharedTask({
+      title: "Plan party",
+      description: null,
+      due_date: null,
+      priority: "medium",
+      tags: ["home"],
+      subtasks: [row("b", null, false, 1), row("a", null, true, 0), row("a1", "a", true, 0)],
+    });
+
+    expect(task?.subtasks.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(task?.subtasks[0].children.map((s) => s.id)).toEqual(["a1"]);
+    expect(task?.subtasks[0].checked_by).toBeNull();
+  });
+});
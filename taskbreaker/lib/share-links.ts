@@ -0,0 +1,41 @@
+import type { Json } from "@/types/database.types";
+import type { SharedTask, SubtaskRow } from "@/types/task.types";
+import { buildSubtaskTree } from "@/lib/subtasks";
+
+// Columns returned for every share link in API responses
+export const SHARE_LINK_COLUMNS = "id, token, created_at";
+
+/**
+ * Generate an unguessable share token: 24 random bytes as 32 URL-safe characters.
+ */
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  // 24 bytes encode to 32 characters with no padding
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+/**
+ * Public page path for a share token.
+ */
+export function getSharePath(token: string): string {
+  return `/share/${token}`;
+}
+
+/**
+ * Turn the result of `get_shared_task` into a task with nested subtasks, or
+ * null if the link does not exist.
+ */
+export function toSharedTask(data: Json | null): SharedTask | null {
+  if (!data) return null;
+
+  const { subtasks, ...task } = data as unknown as Omit<SharedTask, "subtasks"> & {
+    subtasks: Omit<SubtaskRow, "checked_by" | "checked_at">[];
+  };
+
+  return {
+    ...task,
+    subtasks: buildSubtaskTree(
+      subtasks.map((row) => ({ ...row, checked_by: null, checked_at: null }))
+    ),
+  };
+}
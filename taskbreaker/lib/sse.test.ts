@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createSseWriter, encodeSseEvent, readSseStream } from "./sse";
+
+function streamOf(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe("encodeSseEvent", () => {
+  it("should encode an event frame with JSON data", () => {
+    const frame = new TextDecoder().decode(encodeSseEvent("subtask", { text: "Buy cake" }));
+    expect(frame).toBe('event: subtask\ndata: {"text":"Buy cake"}\n\n');
+  });
+});
+
+describe("createSseWriter", () => {
+  it("should drop events and the close once the client has gone", async () => {
+    let sse: ReturnType<typeof createSseWriter> | null = null;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        sse = createSseWriter(controller);
+      },
+    });
+    await body.cancel();
+
+    expect(() => {
+      sse!.send("subtask", { text: "Buy cake" });
+      sse!.close();
+    }).not.toThrow();
+  });
+});
+
+describe("readSseStream", () => {
+  it("should emit events split across chunks", async () => {
+    const events: [string, unknown][] = [];
+
+    await readSseStream(
+      streamOf([
+        'event: title\ndata: {"title":"Par',
+        'ty"}\n\nevent: subtask\ndata: {"text":"Buy cake"}\n\n',
+        'event: done\ndata: {"ok":true}\n\n',
+      ]),
+      (event, data) => events.push([event, data])
+    );
+
+    expect(events).toEqual([
+      ["title", { title: "Party" }],
+      ["subtask", { text: "Buy cake" }],
+      ["done", { ok: true }],
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single Server-Sent Event frame.
+ */
+export function encodeSseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Send events on a stream the client may abandon. Once the client disconnects
+ * the controller throws on every call, so later events and the final close are
+ * dropped instead, letting the route finish its own work.
+ */
+export function createSseWriter(controller: ReadableStreamDefaultController<Uint8Array>) {
+  let open = true;
+
+  return {
+    send(event: string, data: unknown) {
+      if (!open) return;
+      try {
+        controller.enqueue(encodeSseEvent(event, data));
+      } catch {
+        open = false;
+      }
+    },
+    close() {
+      if (!open) return;
+      open = false;
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the client
+      }
+    },
+  };
+}
+
+/**
+ * Read a Server-Sent Events response body, calling `onEvent` for each
+ * complete event. Resolves once the stream has ended.
+ */
+export async function readSseStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (frame: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    frame.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    });
+    if (dataLines.length > 0) {
+      onEvent(event, JSON.parse(dataLines.join("\n")));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSubtaskTree,
+  findSubtaskLevel,
+  getSubtaskDepth,
+  getSubtaskProgress,
+  hasCheckedSubtask,
+  isSubtaskComplete,
+  removeSubtaskFromTree,
+  reorderSubtaskLevel,
+  updateSubtaskInTree,
+} from "./subtasks";
+import type { SubtaskRow } from "@/types/task.types";
+
+// Optional columns default to empty so fixtures only spell out the tree shape
+const row = (
+  fields: Pick<SubtaskRow, "id" | "parent_id" | "text" | "checked" | "position">
+): SubtaskRow => ({
+  checked_by: null,
+  checked_at: null,
+  due_date: null,
+  estimated_minutes: null,
+  effort: null,
+  ...fields,
+});
+
+const rows: SubtaskRow[] = [
+  row({ id: "b", parent_id: null, text: "Order cake", checked: true, position: 1 }),
+  row({ id: "a", parent_id: null, text: "Plan games", checked: false, position: 0 }),
+  row({ id: "a2", parent_id: "a", text: "Buy prizes", checked: false, position: 1 }),
+  row({ id: "a1", parent_id: "a", text: "List games", checked: true, position: 0 }),
+  row({ id: "a1x", parent_id: "a1", text: "Search online", checked: true, position: 0 }),
+];
+
+describe("buildSubtaskTree", () => {
+  it("should nest children under their parents sorted by position", () => {
+    const tree = buildSubtaskTree(rows);
+
+    expect(tree.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(tree[0].children.map((s) => s.id)).toEqual(["a1", "a2"]);
+    expect(tree[0].children[0].children.map((s) => s.id)).toEqual(["a1x"]);
+    expect(tree[1].children).toEqual([]);
+  });
+
+  it("should treat rows with a missing parent as top-level", () => {
+    const tree = buildSubtaskTree([
+      row({ id: "x", parent_id: "gone", text: "Orphan", checked: false, position: 0 }),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].id).toBe("x");
+  });
+});
+
+describe("getSubtaskProgress", () => {
+  it("should count leaf subtasks across all levels", () => {
+    const tree = buildSubtaskTree(rows);
+
+    // Leaves: a1x (checked), a2, b (checked)
+    expect(getSubtaskProgress(tree)).toEqual({ completed: 2, total: 3 });
+  });
+
+  it("should handle an empty list", () => {
+    expect(getSubtaskProgress([])).toEqual({ completed: 0, total: 0 });
+  });
+});
+
+describe("isSubtaskComplete", () => {
+  it("should derive completion from children when present", () => {
+    const [plan, cake] = buildSubtaskTree(rows);
+
+    expect(isSubtaskComplete(plan)).toBe(false);
+    expect(isSubtaskComplete(plan.children[0])).toBe(true);
+    expect(isSubtaskComplete(cake)).toBe(true);
+  });
+});
+
+describe("hasCheckedSubtask", () => {
+  it("should detect checked descendants", () => {
+    const [plan] = buildSubtaskTree(rows);
+    const [, unchecked] = plan.children;
+
+    expect(hasCheckedSubtask(plan)).toBe(true);
+    expect(hasCheckedSubtask(unchecked)).toBe(false);
+  });
+});
+
+describe("updateSubtaskInTree", () => {
+  it("should update a nested subtask without mutating the original", () => {
+    const tree = buildSubtaskTree(rows);
+    const updated = updateSubtaskInTree(tree, "a2", (s) => ({ ...s, checked: true }));
+
+    expect(updated[0].children[1].checked).toBe(true);
+    expect(tree[0].children[1].checked).toBe(false);
+  });
+});
+
+describe("removeSubtaskFromTree", () => {
+  it("should remove a subtask and renumber its siblings", () => {
+    const tree = buildSubtaskTree(rows);
+    const updated = removeSubtaskFromTree(tree, "a");
+
+    expect(updated.map((s) => [s.id, s.position])).toEqual([["b", 0]]);
+  });
+
+  it("should remove nested subtasks", () => {
+    const tree = buildSubtaskTree(rows);
+    const updated = removeSubtaskFromTree(tree, "a1");
+
+    expect(updated[0].children.map((s) => [s.id, s.position])).toEqual([["a2", 0]]);
+    expect(updated[1].position).toBe(1);
+  });
+});
+
+describe("findSubtaskLevel", () => {
+  it("should return the sibling list containing the subtask", () => {
+    const tree = buildSubtaskTree(rows);
+
+    expect(findSubtaskLevel(tree, "b")).toBe(tree);
+    expect(findSubtaskLevel(tree, "a2")).toBe(tree[0].children);
+    expect(findSubtaskLevel(tree, "missing")).toBeNull();
+  });
+});
+
+describe("reorderSubtaskLevel", () => {
+  it("should reorder top-level subtasks and rewrite positions", () => {
+    const tree = buildSubtaskTree(rows);
+    const updated = reorderSubtaskLevel(tree, null, ["b", "a"]);
+
+    expect(updated.map((s) => [s.id, s.position])).toEqual([
+      ["b", 0],
+      ["a", 1],
+    ]);
+    expect(updated[1].children).toHaveLength(2);
+  });
+
+  it("should reorder a nested level", () => {
+    const tree = buildSubtaskTree(rows);
+    const updated = reorderSubtaskLevel(tree, "a", ["a2", "a1"]);
+
+    expect(updated[0].children.map((s) => [s.id, s.position])).toEqual([
+      ["a2", 0],
+      ["a1", 1],
+    ]);
+  });
+});
+
+describe("getSubtaskDepth", () => {
+  it("should return the nesting level of a subtask", () => {
+    expect(getSubtaskDepth(rows, "a")).toBe(1);
+    expect(getSubtaskDepth(rows, "a1")).toBe(2);
+    expect(getSubtaskDepth(rows, "a1x")).toBe(3);
+  });
+
+  it("should return 0 for an unknown subtask", () => {
+    expect(getSubtaskDepth(rows, "missing")).toBe(0);
+  });
+});
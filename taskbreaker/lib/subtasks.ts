@@ -0,0 +1,166 @@
+import type { Subtask, SubtaskRow } from "@/types/task.types";
+
+// Top-level subtasks are depth 1; a subtask at this depth cannot be split further
+export const MAX_SUBTASK_DEPTH = 3;
+
+/**
+ * Nest flat subtask rows under their parents, sorting each level by position.
+ * Rows whose parent is missing are treated as top-level so nothing is dropped.
+ */
+export function buildSubtaskTree(rows: SubtaskRow[]): Subtask[] {
+  const nodes = new Map<string, Subtask>();
+  rows.forEach((row) => nodes.set(row.id, { ...row, children: [] }));
+
+  const roots: Subtask[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortLevel = (level: Subtask[]) => {
+    level.sort((a, b) => a.position - b.position);
+    level.forEach((node) => sortLevel(node.children));
+  };
+  sortLevel(roots);
+
+  return roots;
+}
+
+/**
+ * A subtask with children is complete once all of its children are complete;
+ * a leaf uses its own checked state.
+ */
+export function isSubtaskComplete(subtask: Subtask): boolean {
+  if (subtask.children.length === 0) return subtask.checked;
+  return subtask.children.every(isSubtaskComplete);
+}
+
+/**
+ * True if the subtask or any of its descendants has been checked.
+ */
+export function hasCheckedSubtask(subtask: Subtask): boolean {
+  return subtask.checked || subtask.children.some(hasCheckedSubtask);
+}
+
+/**
+ * Count completed and total leaf subtasks so progress rolls up across levels.
+ */
+export function getSubtaskProgress(subtasks: Subtask[]): {
+  completed: number;
+  total: number;
+} {
+  return subtasks.reduce(
+    (acc, subtask) => {
+      if (subtask.children.length === 0) {
+        return {
+          completed: acc.completed + (subtask.checked ? 1 : 0),
+          total: acc.total + 1,
+        };
+      }
+      const child = getSubtaskProgress(subtask.children);
+      return {
+        completed: acc.completed + child.completed,
+        total: acc.total + child.total,
+      };
+    },
+    { completed: 0, total: 0 }
+  );
+}
+
+/**
+ * Return a copy of the tree with the matching subtask replaced by `update`.
+ */
+export function updateSubtaskInTree(
+  subtasks: Subtask[],
+  subtaskId: string,
+  update: (subtask: Subtask) => Subtask
+): Subtask[] {
+  return subtasks.map((subtask) =>
+    subtask.id === subtaskId
+      ? update(subtask)
+      : {
+          ...subtask,
+          children: updateSubtaskInTree(subtask.children, subtaskId, update),
+        }
+  );
+}
+
+/**
+ * Return a copy of the tree without the matching subtask (and its children),
+ * renumbering the remaining siblings so positions stay contiguous.
+ */
+export function removeSubtaskFromTree(
+  subtasks: Subtask[],
+  subtaskId: string
+): Subtask[] {
+  const remaining = subtasks.filter((subtask) => subtask.id !== subtaskId);
+  const renumber = remaining.length !== subtasks.length;
+
+  return remaining.map((subtask, index) => ({
+    ...subtask,
+    position: renumber ? index : subtask.position,
+    children: removeSubtaskFromTree(subtask.children, subtaskId),
+  }));
+}
+
+/**
+ * Find the sibling list (one level of the tree) that contains the subtask.
+ */
+export function findSubtaskLevel(
+  subtasks: Subtask[],
+  subtaskId: string
+): Subtask[] | null {
+  if (subtasks.some((subtask) => subtask.id === subtaskId)) return subtasks;
+  for (const subtask of subtasks) {
+    const level = findSubtaskLevel(subtask.children, subtaskId);
+    if (level) return level;
+  }
+  return null;
+}
+
+/**
+ * Return a copy of the tree with one level put into `orderedIds` order and
+ * its positions rewritten to match.
+ */
+export function reorderSubtaskLevel(
+  subtasks: Subtask[],
+  parentId: string | null,
+  orderedIds: string[]
+): Subtask[] {
+  const reorder = (level: Subtask[]) =>
+    orderedIds
+      .map((id) => level.find((subtask) => subtask.id === id))
+      .filter((subtask): subtask is Subtask => subtask !== undefined)
+      .map((subtask, index) => ({ ...subtask, position: index }));
+
+  if (parentId === null) return reorder(subtasks);
+
+  return subtasks.map((subtask) => ({
+    ...subtask,
+    children:
+      subtask.id === parentId
+        ? reorder(subtask.children)
+        : reorderSubtaskLevel(subtask.children, parentId, orderedIds),
+  }));
+}
+
+/**
+ * Depth of a subtask within its task (top-level = 1), or 0 if not found.
+ */
+export function getSubtaskDepth(
+  rows: Pick<SubtaskRow, "id" | "parent_id">[],
+  subtaskId: string
+): number {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  let depth = 0;
+  let current = byId.get(subtaskId);
+  while (current && depth <= rows.length) {
+    depth++;
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return depth;
+}
@@ -0,0 +1,14 @@
+import { createClient } from "@supabase/supabase-js";
+import { Database } from "@/types/database.types";
+
+// Bypasses row level security, so only server code may use it, and only for
+// rows users must not be able to write themselves. Null when the service role
+// key isn't configured.
+export function createServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { hasTaskAccess } from "./task-access";
+
+describe("hasTaskAccess", () => {
+  it("should let every collaborator view a task", () => {
+    expect(hasTaskAccess("viewer", "view")).toBe(true);
+    expect(hasTaskAccess(null, "view")).toBe(false);
+  });
+
+  it("should only let owners and editors edit", () => {
+    expect(hasTaskAccess("editor", "edit")).toBe(true);
+    expect(hasTaskAccess("viewer", "edit")).toBe(false);
+  });
+
+  it("should keep owner actions to the owner", () => {
+    expect(hasTaskAccess("owner", "owner")).toBe(true);
+    expect(hasTaskAccess("editor", "owner")).toBe(false);
+  });
+});
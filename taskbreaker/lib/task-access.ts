@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import type { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import type { MemberRole } from "@/lib/schemas";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export type TaskRole = "owner" | MemberRole;
+
+// "view" covers every collaborator, "edit" owners and editors, "owner" the owner only
+export type TaskAccess = "view" | "edit" | "owner";
+
+const ACCESS_ROLES: Record<TaskAccess, TaskRole[]> = {
+  view: ["owner", "editor", "viewer"],
+  edit: ["owner", "editor"],
+  owner: ["owner"],
+};
+
+/**
+ * Whether a role on a task grants the requested access.
+ */
+export function hasTaskAccess(role: TaskRole | null, access: TaskAccess): boolean {
+  return role !== null && ACCESS_ROLES[access].includes(role);
+}
+
+/**
+ * The current user's role on a task, or null if they cannot see it.
+ */
+export async function getTaskRole(
+  supabase: SupabaseClient,
+  taskId: string
+): Promise<TaskRole | null> {
+  const { data } = await supabase.rpc("task_role_for", { p_task_id: taskId });
+  return (data as TaskRole | null) ?? null;
+}
+
+/**
+ * Check the current user's access to a task in a route handler. Returns the
+ * error response to send (404 if they cannot see the task, 403 if their role
+ * is not enough), or null when access is granted.
+ */
+export async function authorizeTask(
+  supabase: SupabaseClient,
+  taskId: string,
+  access: TaskAccess,
+  requestId: string
+): Promise<NextResponse | null> {
+  const role = await getTaskRole(supabase, taskId);
+
+  if (!role) {
+    logger.warn("Task not found or unauthorized", { requestId, taskId });
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  if (!hasTaskAccess(role, access)) {
+    logger.warn("Insufficient task permissions", { requestId, taskId, role, access });
+    return NextResponse.json(
+      {
+        error:
+          access === "owner"
+            ? "Only the task owner can do this"
+            : "You only have view access to this task",
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
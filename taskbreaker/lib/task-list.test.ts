@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  getDaysUntilPurge,
+  getSortKeys,
+  getTrashCutoff,
+} from "./task-list";
+
+describe("getSortKeys", () => {
+  it("should list unpositioned tasks first, newest on top, for manual order", () => {
+    expect(getSortKeys("manual")).toEqual([
+      { column: "sort_position", ascending: true },
+      { column: "created_at", ascending: false },
+      { column: "id", ascending: true },
+    ]);
+  });
+
+  it("should apply the requested order and keep the id tie-breaker ascending", () => {
+    expect(getSortKeys("title", "desc")).toEqual([
+      { column: "sort_title", ascending: false },
+      { column: "id", ascending: true },
+    ]);
+  });
+
+  it("should default to newest first when sorting by creation date", () => {
+    expect(getSortKeys("created")[0]).toEqual({ column: "created_at", ascending: false });
+  });
+});
+
+describe("encodeCursor / decodeCursor", () => {
+  const keys = getSortKeys("progress");
+
+  it("should round-trip sort values", () => {
+    const values = [40, "2026-10-19T03:31:46.123456+00:00", "a1b2"];
+    expect(decodeCursor(encodeCursor(values), keys)).toEqual(values);
+  });
+
+  it("should reject cursors issued for a different sort", () => {
+    expect(decodeCursor(encodeCursor(["garage", "a1b2"]), keys)).toBeNull();
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor", keys)).toBeNull();
+  });
+});
+
+describe("buildCursorFilter", () => {
+  it("should select rows after the cursor across every key", () => {
+    const filter = buildCursorFilter(getSortKeys("progress"), [40, "2026-10-19", "a1"]);
+
+    expect(filter).toBe(
+      [
+        'progress.lt."40"',
+        'and(progress.eq."40",created_at.lt."2026-10-19")',
+        'and(progress.eq."40",created_at.eq."2026-10-19",id.gt."a1")',
+      ].join(",")
+    );
+  });
+
+  it("should quote values containing reserved characters", () => {
+    const filter = buildCursorFilter(getSortKeys("title"), ['tea, "cake" (later)', "a1"]);
+
+    expect(filter).toContain('sort_title.gt."tea, \\"cake\\" (later)"');
+  });
+});
+
+describe("trash retention", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("should keep tasks deleted in the last 30 days", () => {
+    expect(getTrashCutoff(now)).toBe("2026-09-19T12:00:00.000Z");
+  });
+
+  it("should count the days left before a trashed task is purged", () => {
+    expect(getDaysUntilPurge("2026-10-19T11:00:00Z", now)).toBe(30);
+    expect(getDaysUntilPurge("2026-09-20T13:00:00Z", now)).toBe(2);
+    expect(getDaysUntilPurge("2026-09-01T00:00:00Z", now)).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+// Sorting and cursor pagination for GET /api/tasks, which reads from the
+// task_list view so progress and title can be sorted in the database.
+
+export const TASK_SORTS = ["manual", "created", "progress", "title"] as const;
+export type TaskSort = (typeof TASK_SORTS)[number];
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// "active" lists the user's own tasks that are not archived or trashed,
+// "shared" the same for tasks other people have shared with them
+export const TASK_VIEWS = ["active", "shared", "archived", "trash"] as const;
+export type TaskView = (typeof TASK_VIEWS)[number];
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SortKey {
+  column: "sort_position" | "created_at" | "progress" | "sort_title" | "id";
+  ascending: boolean;
+}
+
+export type CursorValue = string | number;
+
+const DEFAULT_ORDERS: Record<TaskSort, SortOrder> = {
+  manual: "asc",
+  created: "desc",
+  progress: "desc",
+  title: "asc",
+};
+
+/**
+ * Columns to order by for a sort option, ending with the id so every row has
+ * a unique position. Manual order matches the unsorted list: tasks without a
+ * position first, newest on top. `order` does not apply to manual sorting.
+ */
+export function getSortKeys(sort: TaskSort, order?: SortOrder): SortKey[] {
+  const ascending = (order ?? DEFAULT_ORDERS[sort]) === "asc";
+  const keys: SortKey[] =
+    sort === "manual"
+      ? [
+          { column: "sort_position", ascending: true },
+          { column: "created_at", ascending: false },
+        ]
+      : sort === "created"
+        ? [{ column: "created_at", ascending }]
+        : sort === "progress"
+          ? [
+              { column: "progress", ascending },
+              { column: "created_at", ascending: false },
+            ]
+          : [{ column: "sort_title", ascending }];
+
+  return [...keys, { column: "id", ascending: true }];
+}
+
+/**
+ * Encode the sort values of the last row on a page as an opaque cursor.
+ */
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * Decode a cursor for the given sort keys, or return null if it is malformed
+ * or was issued for a different sort.
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorValue[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      !Array.isArray(values) ||
+      values.length !== keys.length ||
+      !values.every((v) => typeof v === "string" || typeof v === "number")
+    ) {
+      return null;
+    }
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+// Quote a value for a PostgREST filter so commas and parentheses are literal
+function quote(value: CursorValue): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build a PostgREST `or` filter selecting rows that sort after the cursor:
+ * (k1 > v1) or (k1 = v1 and k2 > v2) or ..., flipping > to < for descending keys.
+ */
+export function buildCursorFilter(keys: SortKey[], values: CursorValue[]): string {
+  const branches = keys.map((key, index) => {
+    const equal = keys
+      .slice(0, index)
+      .map((prev, i) => `${prev.column}.eq.${quote(values[i])}`);
+    const after = `${key.column}.${key.ascending ? "gt" : "lt"}.${quote(values[index])}`;
+    const conditions = [...equal, after];
+    return conditions.length === 1 ? conditions[0] : `and(${conditions.join(",")})`;
+  });
+  return branches.join(",");
+}
+
+/**
+ * Oldest deletion time still inside the trash retention window, as an ISO string.
+ */
+export function getTrashCutoff(now: Date): string {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+}
+
+/**
+ * Whole days left before a trashed task is permanently deleted, never below 0.
+ */
+export function getDaysUntilPurge(deletedAt: string, now: Date): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
@@ -0,0 +1,94 @@
+import type { createClient } from "@/lib/supabase/server";
+import logger from "@/lib/logger";
+import type { Priority } from "@/lib/schemas";
+import { buildSubtaskTree } from "@/lib/subtasks";
+import { buildSubtaskRows, type SubtaskSeed } from "@/lib/templates";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// Columns returned for every subtask in API responses
+export const SUBTASK_COLUMNS = "id, parent_id, text, checked, checked_by, checked_at, due_date, estimated_minutes, effort, position";
+
+// Task columns with nested subtasks, shared by the task routes
+export const TASK_SELECT = `
+  id,
+  title,
+  description,
+  due_date,
+  priority,
+  tags,
+  position,
+  archived_at,
+  deleted_at,
+  created_at,
+  subtasks (
+    id,
+    parent_id,
+    text,
+    checked,
+    checked_by,
+    checked_at,
+    due_date,
+    estimated_minutes,
+    effort,
+    position
+  )
+`;
+
+/**
+ * Insert a task and its subtasks, removing the task again if the subtasks fail.
+ * Returns the created task with nested subtasks, or null on failure.
+ */
+export async function insertTaskWithSubtasks(
+  supabase: SupabaseClient,
+  userId: string,
+  fields: {
+    title: string;
+    description: string | null;
+    tags: string[];
+    due_date?: string | null;
+    priority?: Priority;
+    // The prompt version that generated the task, if the AI did
+    prompt_name?: string | null;
+    prompt_version?: number | null;
+  },
+  subtasks: SubtaskSeed[],
+  requestId: string
+) {
+  const { data: newTask, error: taskError } = await supabase
+    .from("tasks")
+    .insert({
+      user_id: userId,
+      ...fields,
+    })
+    .select(
+      "id, title, description, due_date, priority, tags, position, archived_at, deleted_at, created_at"
+    )
+    .single();
+
+  if (taskError || !newTask) {
+    logger.error("Failed to create task", taskError as Error, { requestId });
+    return null;
+  }
+
+  const taskId = newTask.id as string;
+
+  const { data: insertedSubtasks, error: subtasksError } = await supabase
+    .from("subtasks")
+    .insert(buildSubtaskRows(taskId, subtasks))
+    .select(SUBTASK_COLUMNS);
+
+  if (subtasksError) {
+    logger.error("Failed to create subtasks", subtasksError as Error, {
+      requestId,
+    });
+    // Clean up the task if subtasks failed
+    await supabase.from("tasks").delete().eq("id", taskId);
+    return null;
+  }
+
+  return {
+    ...newTask,
+    subtasks: buildSubtaskTree(insertedSubtasks || []),
+  };
+}
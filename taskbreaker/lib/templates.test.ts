@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { buildSubtaskRows, countTemplateSubtasks, toTemplateSubtasks } from "./templates";
+import type { Subtask } from "@/types/task.types";
+import type { TemplateSubtask } from "@/types/template.types";
+
+const subtask = (fields: Partial<Subtask> & Pick<Subtask, "id" | "text">): Subtask => ({
+  parent_id: null,
+  checked: false,
+  checked_by: null,
+  checked_at: null,
+  due_date: null,
+  estimated_minutes: null,
+  effort: null,
+  position: 0,
+  children: [],
+  ...fields,
+});
+
+const template: TemplateSubtask[] = [
+  {
+    text: "Set up accounts",
+    minutes: 30,
+    effort: "quick",
+    children: [
+      { text: "Email", minutes: null, effort: null, children: [] },
+      { text: "Payroll", minutes: 15, effort: "quick", children: [] },
+    ],
+  },
+  { text: "Schedule intro meetings", minutes: 60, effort: "deep", children: [] },
+];
+
+describe("toTemplateSubtasks", () => {
+  it("should keep text, estimates and nesting but drop per-task state", () => {
+    const tree = [
+      subtask({
+        id: "a",
+        text: "Set up accounts",
+        checked: true,
+        due_date: "2026-10-20",
+        estimated_minutes: 30,
+        effort: "quick",
+        children: [subtask({ id: "a1", parent_id: "a", text: "Email" })],
+      }),
+    ];
+
+    expect(toTemplateSubtasks(tree)).toEqual([
+      {
+        text: "Set up accounts",
+        minutes: 30,
+        effort: "quick",
+        children: [{ text: "Email", minutes: null, effort: null, children: [] }],
+      },
+    ]);
+  });
+});
+
+describe("countTemplateSubtasks", () => {
+  it("should count nested subtasks", () => {
+    expect(countTemplateSubtasks(template)).toBe(4);
+  });
+});
+
+describe("buildSubtaskRows", () => {
+  it("should link children to generated parent IDs with per-level positions", () => {
+    let next = 0;
+    const rows = buildSubtaskRows("task-1", template, () => `id-${next++}`);
+
+    expect(rows.map((r) => [r.id, r.parent_id, r.text, r.position])).toEqual([
+      ["id-0", null, "Set up accounts", 0],
+      ["id-1", null, "Schedule intro meetings", 1],
+      ["id-2", "id-0", "Email", 0],
+      ["id-3", "id-0", "Payroll", 1],
+    ]);
+    expect(rows.every((r) => r.task_id === "task-1" && !r.checked)).toBe(true);
+    expect(rows[0]).toMatchObject({ estimated_minutes: 30, effort: "quick" });
+  });
+
+  it("should keep the completion and due dates of imported subtasks", () => {
+    const [row] = buildSubtaskRows("task-1", [
+      { ...template[1], checked: true, due_date: "2026-10-24" },
+    ]);
+
+    expect(row).toMatchObject({ checked: true, due_date: "2026-10-24" });
+  });
+});
@@ -0,0 +1,79 @@
+import type { Subtask } from "@/types/task.types";
+import type { TemplateSubtask } from "@/types/template.types";
+
+// Columns returned for every template in API responses
+export const TEMPLATE_COLUMNS = "id, name, title, description, tags, subtasks, created_at";
+
+/**
+ * Snapshot a subtask tree for a template, keeping the text, estimates and
+ * nesting but not completion or due dates.
+ */
+export function toTemplateSubtasks(subtasks: Subtask[]): TemplateSubtask[] {
+  return subtasks.map((subtask) => ({
+    text: subtask.text,
+    minutes: subtask.estimated_minutes,
+    effort: subtask.effort,
+    children: toTemplateSubtasks(subtask.children),
+  }));
+}
+
+/**
+ * Count every subtask in a template tree, including nested ones.
+ */
+export function countTemplateSubtasks(subtasks: TemplateSubtask[]): number {
+  return subtasks.reduce(
+    (count, subtask) => count + 1 + countTemplateSubtasks(subtask.children),
+    0
+  );
+}
+
+// Template subtasks start unchecked without due dates; imported ones keep theirs
+export interface SubtaskSeed extends TemplateSubtask {
+  checked?: boolean;
+  due_date?: string | null;
+  children: SubtaskSeed[];
+}
+
+/**
+ * Flatten a subtask tree into rows for a single insert. IDs are generated up
+ * front so children can reference their parents; parents come first.
+ */
+export function buildSubtaskRows(
+  taskId: string,
+  subtasks: SubtaskSeed[],
+  newId: () => string = () => crypto.randomUUID()
+) {
+  const rows: {
+    id: string;
+    task_id: string;
+    parent_id: string | null;
+    text: string;
+    checked: boolean;
+    due_date: string | null;
+    estimated_minutes: number | null;
+    effort: TemplateSubtask["effort"];
+    position: number;
+  }[] = [];
+
+  const addLevel = (level: SubtaskSeed[], parentId: string | null) => {
+    const ids = level.map((subtask, index) => {
+      const id = newId();
+      rows.push({
+        id,
+        task_id: taskId,
+        parent_id: parentId,
+        text: subtask.text.trim(),
+        checked: subtask.checked ?? false,
+        due_date: subtask.due_date ?? null,
+        estimated_minutes: subtask.minutes,
+        effort: subtask.effort,
+        position: index,
+      });
+      return id;
+    });
+    level.forEach((subtask, index) => addLevel(subtask.children, ids[index]));
+  };
+
+  addLevel(subtasks, null);
+  return rows;
+}
@@ -0,0 +1,5 @@
+-- Allow subtasks to be broken down into nested child subtasks
+alter table subtasks
+  add column parent_id uuid references subtasks(id) on delete cascade;
+
+create index subtasks_parent_id_idx on subtasks(parent_id);
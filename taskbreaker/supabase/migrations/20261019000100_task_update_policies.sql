@@ -0,0 +1,8 @@
+-- Regenerating a breakdown renames the task and removes replaced subtasks
+create policy "Users can update own tasks"
+  on tasks for update using (auth.uid() = user_id);
+
+create policy "Users can delete own subtasks"
+  on subtasks for delete using (
+    task_id in (select id from tasks where user_id = auth.uid())
+  );
@@ -0,0 +1,38 @@
+-- Manual sort order for tasks. Tasks without a position (never reordered,
+-- or created since the last reorder) are listed first, newest on top.
+alter table tasks add column position int;
+
+create index tasks_user_id_position_idx on tasks(user_id, position);
+
+-- Rewrite the positions of one level of subtasks in a single statement.
+-- Runs as the caller, so row-level security still applies.
+create or replace function reorder_subtasks(p_task_id uuid, p_subtask_ids uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if not exists (select 1 from tasks where id = p_task_id and user_id = auth.uid()) then
+    raise exception 'Task not found';
+  end if;
+
+  update subtasks s
+  set position = o.ord - 1
+  from unnest(p_subtask_ids) with ordinality as o(id, ord)
+  where s.id = o.id and s.task_id = p_task_id;
+end;
+$$;
+
+-- Rewrite the manual order of the caller's tasks in a single statement.
+create or replace function reorder_tasks(p_task_ids uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  update tasks t
+  set position = o.ord - 1
+  from unnest(p_task_ids) with ordinality as o(id, ord)
+  where t.id = o.id and t.user_id = auth.uid();
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Keep the user's original request text alongside the AI-generated title
+alter table tasks
+  add column description text
+  constraint tasks_description_length check (char_length(description) <= 1000);
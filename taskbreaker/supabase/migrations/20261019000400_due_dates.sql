@@ -0,0 +1,7 @@
+-- Optional due dates on tasks and subtasks (calendar days, no time of day)
+alter table tasks add column due_date date;
+alter table subtasks add column due_date date;
+
+-- Supports the overdue / today / this week filters
+create index tasks_user_id_due_date_idx on tasks(user_id, due_date)
+  where due_date is not null;
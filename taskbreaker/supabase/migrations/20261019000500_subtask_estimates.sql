@@ -0,0 +1,7 @@
+-- AI-estimated duration and effort level for each subtask
+create type subtask_effort as enum ('quick', 'deep');
+
+alter table subtasks
+  add column estimated_minutes integer
+    constraint subtasks_estimated_minutes_range check (estimated_minutes between 1 and 480),
+  add column effort subtask_effort;
@@ -0,0 +1,10 @@
+-- Priority level and free-form tags on tasks
+create type task_priority as enum ('low', 'medium', 'high');
+
+alter table tasks
+  add column priority task_priority not null default 'medium',
+  add column tags text[] not null default '{}'
+    constraint tasks_tags_limit check (cardinality(tags) <= 10);
+
+create index tasks_user_id_priority_idx on tasks(user_id, priority);
+create index tasks_tags_idx on tasks using gin (tags);
@@ -0,0 +1,100 @@
+-- Full-text search over task titles, descriptions and subtask text
+alter table tasks add column search_vector tsvector not null default ''::tsvector;
+
+create index tasks_search_vector_idx on tasks using gin (search_vector);
+
+create or replace function task_search_document(p_task_id uuid, p_title text, p_description text)
+returns tsvector
+language sql
+stable
+as $$
+  select setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(p_description, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(string_agg(s.text, ' '), '')), 'C')
+  from subtasks s
+  where s.task_id = p_task_id;
+$$;
+
+create or replace function tasks_refresh_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := task_search_document(new.id, new.title, new.description);
+  return new;
+end;
+$$;
+
+create trigger tasks_search_vector
+  before insert or update of title, description on tasks
+  for each row execute function tasks_refresh_search_vector();
+
+-- Subtask edits change the parent task's document
+create or replace function subtasks_refresh_task_search_vector()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_task_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    v_task_id := old.task_id;
+  else
+    v_task_id := new.task_id;
+  end if;
+
+  update tasks t
+  set search_vector = task_search_document(t.id, t.title, t.description)
+  where t.id = v_task_id;
+
+  return null;
+end;
+$$;
+
+create trigger subtasks_task_search_vector
+  after insert or update of text or delete on subtasks
+  for each row execute function subtasks_refresh_task_search_vector();
+
+update tasks set search_vector = task_search_document(id, title, description);
+
+-- Tasks with the keys used for sorting and cursor pagination. Progress is the
+-- percentage of checked leaf subtasks, matching the dashboard's progress bar.
+create view task_list with (security_invoker = true) as
+select
+  t.*,
+  coalesce(p.progress, 0) as progress,
+  coalesce(t.position, -1) as sort_position,
+  lower(t.title) as sort_title
+from tasks t
+left join lateral (
+  select (100 * count(*) filter (where s.checked) / nullif(count(*), 0))::int as progress
+  from subtasks s
+  where s.task_id = t.id
+    and not exists (select 1 from subtasks c where c.parent_id = s.id)
+) p on true;
+
+-- The dashboard now only holds the first pages of tasks, so the listed tasks
+-- take the first positions and every other task keeps its order after them.
+create or replace function reorder_tasks(p_task_ids uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  with ordered as (
+    select
+      t.id,
+      row_number() over (
+        order by o.ord nulls last, t.position nulls first, t.created_at desc
+      ) - 1 as new_position
+    from tasks t
+    left join unnest(p_task_ids) with ordinality as o(id, ord) on o.id = t.id
+    where t.user_id = auth.uid()
+  )
+  update tasks t
+  set position = ordered.new_position
+  from ordered
+  where t.id = ordered.id
+    and t.position is distinct from ordered.new_position;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- Completed tasks can be archived out of the main list, and deleted tasks are
+-- kept in a trash for 30 days so they can be restored
+alter table tasks add column archived_at timestamptz;
+alter table tasks add column deleted_at timestamptz;
+
+create index tasks_deleted_at_idx on tasks (deleted_at) where deleted_at is not null;
+
+-- t.* is expanded when a view is created, so task_list has to be recreated to
+-- pick up the new columns
+drop view task_list;
+
+create view task_list with (security_invoker = true) as
+select
+  t.*,
+  coalesce(p.progress, 0) as progress,
+  coalesce(t.position, -1) as sort_position,
+  lower(t.title) as sort_title
+from tasks t
+left join lateral (
+  select (100 * count(*) filter (where s.checked) / nullif(count(*), 0))::int as progress
+  from subtasks s
+  where s.task_id = t.id
+    and not exists (select 1 from subtasks c where c.parent_id = s.id)
+) p on true;
+
+-- Permanently delete the caller's tasks that have been in the trash for more
+-- than 30 days. Returns the number of tasks removed.
+create or replace function purge_trashed_tasks()
+returns integer
+language sql
+security invoker
+as $$
+  with purged as (
+    delete from tasks
+    where user_id = auth.uid()
+      and deleted_at < now() - interval '30 days'
+    returning 1
+  )
+  select count(*)::int from purged;
+$$;
@@ -0,0 +1,28 @@
+-- Saved breakdowns that new tasks can be created from without calling the AI
+create table task_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  title text not null,
+  description text,
+  tags text[] not null default '{}',
+  -- Subtask tree as [{"text", "minutes", "effort", "children": [...]}]
+  subtasks jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index task_templates_user_id_idx on task_templates(user_id);
+
+alter table task_templates enable row level security;
+
+create policy "Users can view own templates"
+  on task_templates for select using (auth.uid() = user_id);
+
+create policy "Users can create own templates"
+  on task_templates for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own templates"
+  on task_templates for update using (auth.uid() = user_id);
+
+create policy "Users can delete own templates"
+  on task_templates for delete using (auth.uid() = user_id);
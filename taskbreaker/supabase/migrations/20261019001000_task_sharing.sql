@@ -0,0 +1,146 @@
+-- Tasks can be shared by email with editors (who can change the breakdown) and
+-- viewers (read-only). Only the owner can share, archive or delete a task.
+create type task_role as enum ('editor', 'viewer');
+
+create table task_members (
+  task_id uuid not null references tasks(id) on delete cascade,
+  email text not null check (email = lower(email)),
+  -- Linked to the invitee's account now, or when they sign up
+  user_id uuid references auth.users(id) on delete cascade,
+  role task_role not null default 'viewer',
+  invited_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, email)
+);
+
+create index task_members_user_id_idx on task_members(user_id);
+
+create or replace function task_members_link_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select u.id into new.user_id from auth.users u where lower(u.email) = new.email;
+  return new;
+end;
+$$;
+
+create trigger task_members_link_user
+  before insert on task_members
+  for each row execute function task_members_link_user();
+
+create or replace function link_task_invites()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update task_members set user_id = new.id
+  where email = lower(new.email) and user_id is null;
+  return new;
+end;
+$$;
+
+create trigger link_task_invites
+  after insert on auth.users
+  for each row execute function link_task_invites();
+
+-- The caller's role on a task: 'owner', 'editor', 'viewer' or null. Security
+-- definer so policies on tasks and task_members can use it without recursing.
+create or replace function task_role_for(p_task_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from tasks where id = p_task_id and user_id = auth.uid()) then 'owner'
+    else (
+      select role::text from task_members
+      where task_id = p_task_id and user_id = auth.uid()
+    )
+  end;
+$$;
+
+alter table task_members enable row level security;
+
+create policy "Collaborators can view task members"
+  on task_members for select using (task_role_for(task_id) is not null);
+
+create policy "Owners can invite task members"
+  on task_members for insert with check (task_role_for(task_id) = 'owner');
+
+create policy "Owners can change task member roles"
+  on task_members for update using (task_role_for(task_id) = 'owner');
+
+create policy "Owners can remove members and members can leave"
+  on task_members for delete using (
+    task_role_for(task_id) = 'owner' or user_id = auth.uid()
+  );
+
+create policy "Members can view shared tasks"
+  on tasks for select using (task_role_for(id) in ('editor', 'viewer'));
+
+create policy "Editors can update shared tasks"
+  on tasks for update using (task_role_for(id) = 'editor');
+
+-- Editors may change the task's details, but not its owner or where it is filed
+create or replace function tasks_guard_editor_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.user_id <> auth.uid() and (
+    new.user_id is distinct from old.user_id
+    or new.position is distinct from old.position
+    or new.archived_at is distinct from old.archived_at
+    or new.deleted_at is distinct from old.deleted_at
+  ) then
+    raise exception 'Only the task owner can make this change';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_guard_editor_update
+  before update on tasks
+  for each row execute function tasks_guard_editor_update();
+
+create policy "Members can view shared subtasks"
+  on subtasks for select using (task_role_for(task_id) in ('editor', 'viewer'));
+
+create policy "Editors can add shared subtasks"
+  on subtasks for insert with check (task_role_for(task_id) = 'editor');
+
+create policy "Editors can update shared subtasks"
+  on subtasks for update using (task_role_for(task_id) = 'editor');
+
+create policy "Editors can delete shared subtasks"
+  on subtasks for delete using (task_role_for(task_id) = 'editor');
+
+-- Editors can reorder subtasks too
+create or replace function reorder_subtasks(p_task_id uuid, p_subtask_ids uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if coalesce(task_role_for(p_task_id), 'viewer') = 'viewer' then
+    raise exception 'Task not found';
+  end if;
+
+  update subtasks s
+  set position = o.ord - 1
+  from unnest(p_subtask_ids) with ordinality as o(id, ord)
+  where s.id = o.id and s.task_id = p_task_id;
+end;
+$$;
+
+-- Who checked each subtask, so collaborators can see who did what
+alter table subtasks
+  add column checked_by uuid references auth.users(id) on delete set null,
+  add column checked_at timestamptz;
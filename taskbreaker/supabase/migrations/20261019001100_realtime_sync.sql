@@ -0,0 +1,5 @@
+-- Stream task and subtask changes to open dashboards. Realtime checks each
+-- row against the select policies, so owners and collaborators only receive
+-- changes to tasks they can see. Deletes carry just the primary key, which is
+-- all the client needs to drop the row.
+alter publication supabase_realtime add table tasks, subtasks;
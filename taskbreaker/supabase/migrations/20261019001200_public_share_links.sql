@@ -0,0 +1,66 @@
+-- Read-only public links to a task for people without an account. The token
+-- is the only secret, so it is random and revoking a link deletes the row.
+create table task_share_links (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  -- 24 random bytes, base64url encoded by the API
+  token text not null unique check (token ~ '^[A-Za-z0-9_-]{32}$'),
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index task_share_links_task_id_idx on task_share_links(task_id);
+
+alter table task_share_links enable row level security;
+
+create policy "Owners can view share links"
+  on task_share_links for select using (task_role_for(task_id) = 'owner');
+
+create policy "Owners can create share links"
+  on task_share_links for insert with check (
+    task_role_for(task_id) = 'owner' and created_by = auth.uid()
+  );
+
+create policy "Owners can revoke share links"
+  on task_share_links for delete using (task_role_for(task_id) = 'owner');
+
+-- The task behind a share token, or null if the link was revoked or the task
+-- is in the trash. Security definer so anonymous visitors can read exactly
+-- this task; who checked what is left out since it identifies collaborators.
+create or replace function get_shared_task(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'title', t.title,
+    'description', t.description,
+    'due_date', t.due_date,
+    'priority', t.priority,
+    'tags', t.tags,
+    'subtasks', coalesce(
+      (
+        select jsonb_agg(jsonb_build_object(
+          'id', s.id,
+          'parent_id', s.parent_id,
+          'text', s.text,
+          'checked', s.checked,
+          'due_date', s.due_date,
+          'estimated_minutes', s.estimated_minutes,
+          'effort', s.effort,
+          'position', s.position
+        ))
+        from subtasks s
+        where s.task_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  from task_share_links l
+  join tasks t on t.id = l.task_id
+  where l.token = p_token and t.deleted_at is null;
+$$;
+
+grant execute on function get_shared_task(text) to anon, authenticated;
@@ -0,0 +1,71 @@
+-- Daily limits on AI generations (breakdowns, regenerations, customized
+-- templates) per user. The default limit comes from the app's configuration;
+-- a row in ai_quotas overrides it for one user and is managed by admins, so
+-- users can read their own row but not change it.
+create table ai_quotas (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  daily_limit int not null check (daily_limit >= 0),
+  updated_at timestamptz not null default now()
+);
+
+-- One counter per user per UTC day
+create table ai_usage (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  day date not null,
+  count int not null default 0 check (count >= 0),
+  primary key (user_id, day)
+);
+
+alter table ai_quotas enable row level security;
+alter table ai_usage enable row level security;
+
+create policy "Users can view their own AI quota"
+  on ai_quotas for select using (user_id = auth.uid());
+
+create policy "Users can view their own AI usage"
+  on ai_usage for select using (user_id = auth.uid());
+
+-- Count one generation for the current user if they are under their limit.
+-- Security definer because usage can't be written directly; the counter is
+-- incremented with a conditional update so concurrent requests can't overshoot.
+create or replace function consume_ai_quota(p_default_limit int)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_day date := (now() at time zone 'utc')::date;
+  v_limit int;
+  v_used int;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select coalesce(
+    (select daily_limit from ai_quotas where user_id = v_user_id),
+    p_default_limit
+  ) into v_limit;
+
+  insert into ai_usage (user_id, day)
+  values (v_user_id, v_day)
+  on conflict (user_id, day) do nothing;
+
+  update ai_usage
+  set count = count + 1
+  where user_id = v_user_id and day = v_day and count < v_limit
+  returning count into v_used;
+
+  if v_used is null then
+    select count into v_used from ai_usage where user_id = v_user_id and day = v_day;
+    return jsonb_build_object('allowed', false, 'used', v_used, 'limit', v_limit);
+  end if;
+
+  return jsonb_build_object('allowed', true, 'used', v_used, 'limit', v_limit);
+end;
+$$;
+
+grant execute on function consume_ai_quota(int) to authenticated;
+
@@ -0,0 +1,98 @@
+-- One row per AI generation by a signed-in user: which feature called the
+-- model, how many tokens it used, how long it took and what it cost. Cached
+-- responses don't call the model and aren't recorded. Anonymous breakdowns
+-- are only logged, since rows here are written with the caller's session.
+create table ai_generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- The task the generation was for; kept when the task is deleted so the
+  -- cost still counts
+  task_id uuid references tasks(id) on delete set null,
+  feature text not null,
+  provider text not null,
+  model text not null,
+  -- Null when the provider doesn't report usage
+  prompt_tokens int check (prompt_tokens >= 0),
+  completion_tokens int check (completion_tokens >= 0),
+  latency_ms int not null check (latency_ms >= 0),
+  -- Estimated in US dollars; null for models without known pricing
+  cost_usd numeric(12, 6),
+  created_at timestamptz not null default now()
+);
+
+create index ai_generations_user_id_created_at_idx on ai_generations (user_id, created_at);
+create index ai_generations_created_at_idx on ai_generations (created_at);
+
+alter table ai_generations enable row level security;
+
+create policy "Users can record their own AI generations"
+  on ai_generations for insert with check (user_id = auth.uid());
+
+create policy "Users can view their own AI generations"
+  on ai_generations for select using (user_id = auth.uid());
+
+-- Daily totals for the usage page; security_invoker applies the row policies
+-- above, so each user only sees their own days
+create view ai_usage_daily with (security_invoker = true) as
+select
+  user_id,
+  (created_at at time zone 'utc')::date as day,
+  count(*) as generations,
+  coalesce(sum(prompt_tokens), 0) as prompt_tokens,
+  coalesce(sum(completion_tokens), 0) as completion_tokens,
+  coalesce(sum(cost_usd), 0) as cost_usd
+from ai_generations
+group by user_id, (created_at at time zone 'utc')::date;
+
+-- Users who can see usage across all accounts. Managed in the database;
+-- users can only check whether they are listed themselves.
+create table admins (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table admins enable row level security;
+
+create policy "Users can see whether they are an admin"
+  on admins for select using (user_id = auth.uid());
+
+-- Usage across all users per day, feature and model, for admins only.
+-- Security definer so it can read every user's rows.
+create or replace function ai_usage_summary(p_since date)
+returns table (
+  day date,
+  feature text,
+  model text,
+  users bigint,
+  generations bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from admins where admins.user_id = auth.uid()) then
+    raise exception 'Forbidden';
+  end if;
+
+  return query
+  select
+    (g.created_at at time zone 'utc')::date,
+    g.feature,
+    g.model,
+    count(distinct g.user_id),
+    count(*),
+    coalesce(sum(g.prompt_tokens), 0)::bigint,
+    coalesce(sum(g.completion_tokens), 0)::bigint,
+    coalesce(sum(g.cost_usd), 0)
+  from ai_generations g
+  where g.created_at >= p_since
+  group by 1, 2, 3
+  order by 1 desc, 8 desc;
+end;
+$$;
+
+grant execute on function ai_usage_summary(date) to authenticated;
@@ -0,0 +1,62 @@
+-- Which version of which prompt (see lib/prompts.ts) produced each task and
+-- each AI generation, so a candidate prompt version can be compared with the
+-- active one. Null for tasks written by hand, imported or copied from a
+-- template without the AI.
+alter table tasks
+  add column prompt_name text,
+  add column prompt_version int,
+  add constraint tasks_prompt_version_check
+    check ((prompt_name is null) = (prompt_version is null));
+
+alter table ai_generations
+  add column prompt_name text,
+  add column prompt_version int;
+
+create index tasks_prompt_name_version_idx on tasks (prompt_name, prompt_version)
+  where prompt_name is not null;
+
+-- How far users got with the tasks each prompt version produced, for admins
+-- only. Progress is the percentage of checked leaf subtasks, as in task_list,
+-- and a task counts as completed at 100. Security definer so it can read
+-- every user's tasks.
+create or replace function prompt_version_stats(p_since date)
+returns table (
+  prompt_name text,
+  prompt_version int,
+  users bigint,
+  tasks bigint,
+  completed_tasks bigint,
+  average_progress numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from admins where admins.user_id = auth.uid()) then
+    raise exception 'Forbidden';
+  end if;
+
+  return query
+  select
+    t.prompt_name,
+    t.prompt_version,
+    count(distinct t.user_id),
+    count(*),
+    count(*) filter (where p.progress = 100),
+    round(avg(coalesce(p.progress, 0)), 1)
+  from tasks t
+  left join lateral (
+    select (100 * count(*) filter (where s.checked) / nullif(count(*), 0))::int as progress
+    from subtasks s
+    where s.task_id = t.id
+      and not exists (select 1 from subtasks c where c.parent_id = s.id)
+  ) p on true
+  where t.prompt_name is not null
+    and t.created_at >= p_since
+  group by 1, 2
+  order by 1, 2;
+end;
+$$;
+
+grant execute on function prompt_version_stats(date) to authenticated;
@@ -0,0 +1,28 @@
+-- How the AI breaks down new tasks for each user: how many subtasks, in what
+-- tone and language, and what it should know about them. Users without a row
+-- get the defaults in lib/schemas/preferences.schema.ts.
+create table user_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  min_subtasks int not null default 3 check (min_subtasks between 2 and 10),
+  max_subtasks int not null default 5 check (max_subtasks between 2 and 10),
+  tone text not null default 'friendly'
+    check (tone in ('friendly', 'professional', 'casual', 'direct')),
+  -- Empty to answer in the language of the task
+  language text not null default '' check (char_length(language) <= 40),
+  context text not null default '' check (char_length(context) <= 300),
+  updated_at timestamptz not null default now(),
+  check (min_subtasks <= max_subtasks)
+);
+
+alter table user_preferences enable row level security;
+
+create policy "Users can view their own preferences"
+  on user_preferences for select using (user_id = auth.uid());
+
+create policy "Users can create their own preferences"
+  on user_preferences for insert with check (user_id = auth.uid());
+
+create policy "Users can update their own preferences"
+  on user_preferences for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
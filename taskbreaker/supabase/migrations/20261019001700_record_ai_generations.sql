@@ -0,0 +1,59 @@
+-- Generations were inserted with the caller's session, so a user could write
+-- rows with made-up token counts, someone else's task or a negative cost.
+-- Rows are now only written through record_ai_generation, the same way
+-- ai_usage is only written through consume_ai_quota.
+drop policy "Users can record their own AI generations" on ai_generations;
+
+alter table ai_generations
+  add constraint ai_generations_cost_usd_check check (cost_usd >= 0);
+
+-- Store one generation for the current user. Security definer because
+-- ai_generations can't be written directly; the task, if any, must be one the
+-- caller can see.
+create or replace function record_ai_generation(
+  p_feature text,
+  p_provider text,
+  p_model text,
+  p_latency_ms int,
+  p_task_id uuid default null,
+  p_prompt_tokens int default null,
+  p_completion_tokens int default null,
+  p_cost_usd numeric default null,
+  p_prompt_name text default null,
+  p_prompt_version int default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_feature not in ('breakdown', 'task', 'template', 'regenerate', 'subtask-breakdown') then
+    raise exception 'Unknown feature %', p_feature;
+  end if;
+
+  if p_task_id is not null and task_role_for(p_task_id) is null then
+    raise exception 'Task not found';
+  end if;
+
+  -- Negative counts, latency and cost are rejected by the table's checks
+  insert into ai_generations (
+    user_id, task_id, feature, provider, model, prompt_tokens, completion_tokens,
+    latency_ms, cost_usd, prompt_name, prompt_version
+  )
+  values (
+    v_user_id, p_task_id, p_feature, p_provider, p_model, p_prompt_tokens,
+    p_completion_tokens, p_latency_ms, p_cost_usd, p_prompt_name, p_prompt_version
+  );
+end;
+$$;
+
+grant execute on function record_ai_generation(
+  text, text, text, int, uuid, int, int, numeric, text, int
+) to authenticated;
@@ -0,0 +1,5 @@
+-- record_ai_generation still let any signed-in user call it over the API with
+-- whatever token counts and cost they liked. Generations are now written by the
+-- server with the service role key, which bypasses row level security; users
+-- have no way to write ai_generations at all.
+drop function record_ai_generation(text, text, text, int, uuid, int, int, numeric, text, int);
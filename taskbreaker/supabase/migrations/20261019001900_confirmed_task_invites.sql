@@ -0,0 +1,45 @@
+-- Invites were linked to any account with a matching email, including ones
+-- whose email isn't confirmed, so signing up with someone else's address gave
+-- access to the tasks shared with them. Invites now only link to confirmed
+-- addresses: when the member is added, or once the invitee confirms.
+create or replace function task_members_link_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select u.id into new.user_id from auth.users u
+  where lower(u.email) = new.email and u.email_confirmed_at is not null;
+  return new;
+end;
+$$;
+
+create or replace function link_task_invites()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.email_confirmed_at is null then
+    return new;
+  end if;
+
+  update task_members set user_id = new.id
+  where email = lower(new.email) and user_id is null;
+  return new;
+end;
+$$;
+
+-- Confirmation is an update, and a changed email is confirmed the same way
+drop trigger link_task_invites on auth.users;
+
+create trigger link_task_invites
+  after insert or update of email, email_confirmed_at on auth.users
+  for each row execute function link_task_invites();
+
+-- Unlink invites already claimed by accounts that never confirmed the address
+update task_members m set user_id = null
+from auth.users u
+where m.user_id = u.id and u.email_confirmed_at is null;
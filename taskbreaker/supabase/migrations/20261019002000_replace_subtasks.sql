@@ -0,0 +1,44 @@
+-- Apply a regenerated breakdown in one transaction: remove the replaced
+-- subtasks, close the gaps between the kept ones, add the new ones after them
+-- and rename the task. If any step fails nothing changes. Runs as the caller,
+-- so row-level security still applies.
+create or replace function replace_subtasks(
+  p_task_id uuid,
+  p_title text,
+  p_kept_ids uuid[],
+  p_replaced_ids uuid[],
+  p_subtasks jsonb
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_kept int := coalesce(cardinality(p_kept_ids), 0);
+begin
+  if coalesce(task_role_for(p_task_id), 'viewer') = 'viewer' then
+    raise exception 'Task not found';
+  end if;
+
+  -- Child subtasks are removed by the parent_id cascade
+  delete from subtasks
+  where task_id = p_task_id and id = any(p_replaced_ids);
+
+  update subtasks s
+  set position = o.ord - 1
+  from unnest(p_kept_ids) with ordinality as o(id, ord)
+  where s.id = o.id and s.task_id = p_task_id;
+
+  insert into subtasks (task_id, text, checked, estimated_minutes, effort, position)
+  select
+    p_task_id,
+    e.value->>'text',
+    false,
+    (e.value->>'minutes')::int,
+    (e.value->>'effort')::subtask_effort,
+    v_kept + e.ord - 1
+  from jsonb_array_elements(p_subtasks) with ordinality as e(value, ord);
+
+  update tasks set title = p_title where id = p_task_id;
+end;
+$$;
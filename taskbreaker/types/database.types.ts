@@ -14,18 +14,48 @@ export type Database = {
           id: string;
           user_id: string;
           title: string;
+          description: string | null;
+          due_date: string | null;
+          priority: Database["public"]["Enums"]["task_priority"];
+          tags: string[];
+          position: number | null;
+          search_vector: unknown;
+          archived_at: string | null;
+          deleted_at: string | null;
+          prompt_name: string | null;
+          prompt_version: number | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
           title: string;
+          description?: string | null;
+          due_date?: string | null;
+          priority?: Database["public"]["Enums"]["task_priority"];
+          tags?: string[];
+          position?: number | null;
+          search_vector?: unknown;
+          archived_at?: string | null;
+          deleted_at?: string | null;
+          prompt_name?: string | null;
+          prompt_version?: number | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
           title?: string;
+          description?: string | null;
+          due_date?: string | null;
+          priority?: Database["public"]["Enums"]["task_priority"];
+          tags?: string[];
+          position?: number | null;
+          search_vector?: unknown;
+          archived_at?: string | null;
+          deleted_at?: string | null;
+          prompt_name?: string | null;
+          prompt_version?: number | null;
           created_at?: string;
         };
         Relationships: [
@@ -42,24 +72,42 @@ export type Database = {
         Row: {
           id: string;
           task_id: string;
+          parent_id: string | null;
           text: string;
           checked: boolean;
+          due_date: string | null;
+          estimated_minutes: number | null;
+          effort: Database["public"]["Enums"]["subtask_effort"] | null;
+          checked_by: string | null;
+          checked_at: string | null;
           position: number;
           created_at: string;
         };
         Insert: {
           id?: string;
           task_id: string;
+          parent_id?: string | null;
           text: string;
           checked?: boolean;
+          due_date?: string | null;
+          estimated_minutes?: number | null;
+          effort?: Database["public"]["Enums"]["subtask_effort"] | null;
+          checked_by?: string | null;
+          checked_at?: string | null;
           position: number;
           created_at?: string;
         };
         Update: {
           id?: string;
           task_id?: string;
+          parent_id?: string | null;
           text?: string;
           checked?: boolean;
+          due_date?: string | null;
+          estimated_minutes?: number | null;
+          effort?: Database["public"]["Enums"]["subtask_effort"] | null;
+          checked_by?: string | null;
+          checked_at?: string | null;
           position?: number;
           created_at?: string;
         };
@@ -70,13 +118,417 @@ export type Database = {
             isOneToOne: false;
             referencedRelation: "tasks";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "subtasks_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "subtasks";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      task_members: {
+        Row: {
+          task_id: string;
+          email: string;
+          user_id: string | null;
+          role: Database["public"]["Enums"]["task_role"];
+          invited_by: string;
+          created_at: string;
+        };
+        Insert: {
+          task_id: string;
+          email: string;
+          user_id?: string | null;
+          role?: Database["public"]["Enums"]["task_role"];
+          invited_by: string;
+          created_at?: string;
+        };
+        Update: {
+          task_id?: string;
+          email?: string;
+          user_id?: string | null;
+          role?: Database["public"]["Enums"]["task_role"];
+          invited_by?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "task_members_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "tasks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "task_members_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
           }
         ];
       };
+      task_share_links: {
+        Row: {
+          id: string;
+          task_id: string;
+          token: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          token: string;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          token?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "task_share_links_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "tasks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "task_share_links_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_quotas: {
+        Row: {
+          user_id: string;
+          daily_limit: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          daily_limit: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          daily_limit?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_usage: {
+        Row: {
+          user_id: string;
+          day: string;
+          count: number;
+        };
+        Insert: {
+          user_id: string;
+          day: string;
+          count?: number;
+        };
+        Update: {
+          user_id?: string;
+          day?: string;
+          count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_generations: {
+        Row: {
+          id: string;
+          user_id: string;
+          task_id: string | null;
+          feature: string;
+          provider: string;
+          model: string;
+          prompt_tokens: number | null;
+          completion_tokens: number | null;
+          latency_ms: number;
+          cost_usd: number | null;
+          prompt_name: string | null;
+          prompt_version: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          task_id?: string | null;
+          feature: string;
+          provider: string;
+          model: string;
+          prompt_tokens?: number | null;
+          completion_tokens?: number | null;
+          latency_ms: number;
+          cost_usd?: number | null;
+          prompt_name?: string | null;
+          prompt_version?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          task_id?: string | null;
+          feature?: string;
+          provider?: string;
+          model?: string;
+          prompt_tokens?: number | null;
+          completion_tokens?: number | null;
+          latency_ms?: number;
+          cost_usd?: number | null;
+          prompt_name?: string | null;
+          prompt_version?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_generations_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "ai_generations_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "tasks";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      admins: {
+        Row: {
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "admins_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_preferences: {
+        Row: {
+          user_id: string;
+          min_subtasks: number;
+          max_subtasks: number;
+          tone: string;
+          language: string;
+          context: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          min_subtasks?: number;
+          max_subtasks?: number;
+          tone?: string;
+          language?: string;
+          context?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          min_subtasks?: number;
+          max_subtasks?: number;
+          tone?: string;
+          language?: string;
+          context?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_preferences_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      task_templates: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          title: string;
+          description: string | null;
+          tags: string[];
+          subtasks: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          title: string;
+          description?: string | null;
+          tags?: string[];
+          subtasks?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          title?: string;
+          description?: string | null;
+          tags?: string[];
+          subtasks?: Json;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+    };
+    Views: {
+      ai_usage_daily: {
+        Row: {
+          user_id: string | null;
+          day: string | null;
+          generations: number | null;
+          prompt_tokens: number | null;
+          completion_tokens: number | null;
+          cost_usd: number | null;
+        };
+        Relationships: [];
+      };
+      task_list: {
+        Row: {
+          id: string | null;
+          user_id: string | null;
+          title: string | null;
+          description: string | null;
+          due_date: string | null;
+          priority: Database["public"]["Enums"]["task_priority"] | null;
+          tags: string[] | null;
+          position: number | null;
+          search_vector: unknown | null;
+          archived_at: string | null;
+          deleted_at: string | null;
+          created_at: string | null;
+          progress: number | null;
+          sort_position: number | null;
+          sort_title: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      ai_usage_summary: {
+        Args: { p_since: string };
+        Returns: {
+          day: string;
+          feature: string;
+          model: string;
+          users: number;
+          generations: number;
+          prompt_tokens: number;
+          completion_tokens: number;
+          cost_usd: number;
+        }[];
+      };
+      consume_ai_quota: {
+        Args: { p_default_limit: number };
+        Returns: Json;
+      };
+      get_shared_task: {
+        Args: { p_token: string };
+        Returns: Json;
+      };
+      prompt_version_stats: {
+        Args: { p_since: string };
+        Returns: {
+          prompt_name: string;
+          prompt_version: number;
+          users: number;
+          tasks: number;
+          completed_tasks: number;
+          average_progress: number;
+        }[];
+      };
+      purge_trashed_tasks: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      reorder_subtasks: {
+        Args: { p_task_id: string; p_subtask_ids: string[] };
+        Returns: undefined;
+      };
+      reorder_tasks: {
+        Args: { p_task_ids: string[] };
+        Returns: undefined;
+      };
+      replace_subtasks: {
+        Args: {
+          p_task_id: string;
+          p_title: string;
+          p_kept_ids: string[];
+          p_replaced_ids: string[];
+          p_subtasks: Json;
+        };
+        Returns: undefined;
+      };
+      task_role_for: {
+        Args: { p_task_id: string };
+        Returns: string;
+      };
+      task_search_document: {
+        Args: { p_task_id: string; p_title: string; p_description: string };
+        Returns: unknown;
+      };
+    };
+    Enums: {
+      subtask_effort: "quick" | "deep";
+      task_priority: "low" | "medium" | "high";
+      task_role: "editor" | "viewer";
     };
-    Views: Record<string, never>;
-    Functions: Record<string, never>;
-    Enums: Record<string, never>;
     CompositeTypes: Record<string, never>;
   };
 };
@@ -0,0 +1,14 @@
+// How the tasks from one prompt version are going, from GET /api/admin/prompts
+export interface PromptVersionStats {
+  name: string;
+  version: number;
+  // Whether the version is the active one, a candidate or retired
+  status: "active" | "candidate" | "retired";
+  users: number;
+  tasks: number;
+  completedTasks: number;
+  // Share of tasks completed, from 0 to 1
+  completionRate: number;
+  // Mean percentage of checked subtasks
+  averageProgress: number;
+}
@@ -0,0 +1,8 @@
+// Today's AI generations for the signed-in user, from GET /api/quota
+export interface AIQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+  // Start of the next UTC day
+  resetsAt: string;
+}
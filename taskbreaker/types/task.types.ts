@@ -0,0 +1,64 @@
+export interface Subtask {
+  id: string;
+  parent_id: string | null;
+  text: string;
+  checked: boolean;
+  // Calendar day (YYYY-MM-DD) the subtask should be done by
+  due_date: string | null;
+  // AI estimate; null when the model gave none or the subtask was added by hand
+  estimated_minutes: number | null;
+  // "quick" wins can be done in a low-energy moment, "deep" work needs focus
+  effort: "quick" | "deep" | null;
+  // Collaborator who last checked the subtask; null while unchecked
+  checked_by: string | null;
+  checked_at: string | null;
+  position: number;
+  children: Subtask[];
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  // The user's original request text
+  description: string | null;
+  // Calendar day (YYYY-MM-DD) the task should be done by
+  due_date: string | null;
+  priority: "low" | "medium" | "high";
+  // Lowercase labels, at most 10 per task
+  tags: string[];
+  // Manual sort order; null until the user reorders their tasks
+  position: number | null;
+  // Set when a completed task is moved to the archive
+  archived_at: string | null;
+  // Set when the task is moved to the trash; purged after 30 days
+  deleted_at: string | null;
+  created_at: string;
+  subtasks: Subtask[];
+  // The viewer's access, included when listing tasks
+  role?: "owner" | "editor" | "viewer";
+  // People the task is shared with, included when listing tasks
+  members?: TaskMember[];
+}
+
+export interface TaskMember {
+  email: string;
+  // Null until the invitee has an account
+  user_id: string | null;
+  role: "editor" | "viewer";
+}
+
+// Public read-only link to a task; anyone with the token can view it
+export interface ShareLink {
+  id: string;
+  token: string;
+  created_at: string;
+}
+
+// Task as shown on its public page, without who owns or checked it
+export type SharedTask = Pick<
+  Task,
+  "title" | "description" | "due_date" | "priority" | "tags" | "subtasks"
+>;
+
+// Subtask as stored in the database, before nesting
+export type SubtaskRow = Omit<Subtask, "children">;
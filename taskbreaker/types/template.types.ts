@@ -0,0 +1,20 @@
+import type { Subtask } from "./task.types";
+
+// Subtask saved in a template, without per-task state like checked or due dates
+export interface TemplateSubtask {
+  text: string;
+  minutes: number | null;
+  effort: Subtask["effort"];
+  children: TemplateSubtask[];
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  // Copied to tasks created from the template
+  title: string;
+  description: string | null;
+  tags: string[];
+  subtasks: TemplateSubtask[];
+  created_at: string;
+}
@@ -0,0 +1,20 @@
+// One UTC day of the signed-in user's AI generations, from GET /api/usage
+export interface DailyUsage {
+  day: string;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// Usage across all users for one day, feature and model, from GET /api/admin/usage
+export interface UsageSummaryRow {
+  day: string;
+  feature: string;
+  model: string;
+  users: number;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}